@@ -0,0 +1,322 @@
+/**
+ * Anchoring Test Suite
+ *
+ * Tests for on-chain anchoring of audit entries:
+ * - Batching through logEntryBatch
+ * - Merkle root anchoring through updateMerkleRoot
+ * - Per-entry status, retries and backoff
+ * - Optional run against a local Hardhat node
+ */
+
+import { ethers } from 'ethers';
+import { AnchorContract, AnchorTransaction, AuditAnchor } from '../audit/anchoring';
+import { AuditEntry, AuditLogger } from '../audit/audit-trail';
+import { AuditReconciler, ContractAuditSource } from '../audit/reconciliation';
+import { SimulatedClock } from '../utils/clock';
+
+/**
+ * In-memory stand-in for PredicGuardAudit, including its duplicate entry and future timestamp reverts
+ */
+class InMemoryAuditContract implements AnchorContract {
+  entries: Map<string, bigint> = new Map();
+  batches: string[][] = [];
+  roots: string[] = [];
+  failNext: number = 0; // Reject the next submissions before they are mined
+  dropReceipts: number = 0; // Mine the next submissions but lose the receipt
+  blockTime?: bigint; // Latest block timestamp in seconds; unchecked when unset
+  private blockNumber: number = 0;
+
+  async logEntryBatch(hashes: string[], timestamps: bigint[], entryTypes: string[]): Promise<AnchorTransaction> {
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error('connection refused');
+    }
+    if (hashes.some(h => this.entries.has(h))) {
+      throw revert('Entry exists');
+    }
+    if (this.blockTime !== undefined && timestamps.some(t => t > this.blockTime!)) {
+      throw revert('Future timestamp');
+    }
+
+    hashes.forEach((h, i) => this.entries.set(h, timestamps[i]!));
+    this.batches.push(hashes);
+    return this.mine();
+  }
+
+  async updateMerkleRoot(root: string): Promise<AnchorTransaction> {
+    this.roots.push(root);
+    return this.mine();
+  }
+
+  async getEntry(hash: string): Promise<[bigint, string, string, boolean]> {
+    const timestamp = this.entries.get(hash) ?? 0n;
+    return [timestamp, '', ethers.ZeroAddress, timestamp !== 0n];
+  }
+
+  private mine(): AnchorTransaction {
+    const blockNumber = ++this.blockNumber;
+    const hash = ethers.id(`tx-${blockNumber}`);
+    const lost = this.dropReceipts > 0;
+    if (lost) this.dropReceipts--;
+
+    return {
+      hash,
+      wait: async () => {
+        if (lost) throw new Error('timeout waiting for receipt');
+        return { hash, blockNumber, status: 1 };
+      }
+    };
+  }
+}
+
+function revert(reason: string): Error {
+  return Object.assign(new Error(`execution reverted: "${reason}"`), { code: 'CALL_EXCEPTION', reason });
+}
+
+function entries(count: number, start: number = 0): AuditEntry[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'TEST',
+    agent: 'TestAgent',
+    data: {},
+    timestamp: 1700000000000 + (start + i) * 1000,
+    hash: ethers.id(`entry-${start + i}`)
+  }));
+}
+
+describe('Audit Anchor', () => {
+  let contract: InMemoryAuditContract;
+  let clock: SimulatedClock;
+
+  beforeEach(() => {
+    contract = new InMemoryAuditContract();
+    clock = new SimulatedClock(1700000000000);
+  });
+
+  it('should submit entries in batches and record tx hash and block', async () => {
+    const anchor = new AuditAnchor(contract, { batchSize: 2, clock });
+    const batch = entries(5);
+    batch.forEach(e => anchor.track(e));
+
+    const result = await anchor.flush(ethers.ZeroHash, 5);
+
+    expect(result.anchored).toBe(5);
+    expect(contract.batches.map(b => b.length)).toEqual([2, 2, 1]);
+    expect(contract.entries.get(batch[0]!.hash!)).toBe(1700000000n);
+    expect(anchor.getStatus(batch[4]!.hash!)).toEqual(expect.objectContaining({
+      state: 'ANCHORED',
+      attempts: 1,
+      blockNumber: 3,
+      txHash: ethers.id('tx-3')
+    }));
+    expect(anchor.getPendingCount()).toBe(0);
+  });
+
+  it('should anchor the Merkle root once per interval', async () => {
+    const anchor = new AuditAnchor(contract, { rootIntervalMs: 60000, clock });
+
+    const first = await anchor.flush(ethers.id('root-1'), 1);
+    await anchor.flush(ethers.id('root-2'), 2);
+    clock.advance(60000);
+    await anchor.flush(ethers.id('root-2'), 2);
+    await anchor.flush(ethers.id('root-2'), 2);
+
+    expect(first.root?.entryCount).toBe(1);
+    expect(contract.roots).toEqual([ethers.id('root-1'), ethers.id('root-2')]);
+    expect(anchor.getRootAnchors().length).toBe(2);
+  });
+
+  it('should retry failed batches with backoff', async () => {
+    const anchor = new AuditAnchor(contract, { baseDelayMs: 1000, clock });
+    const [entry] = entries(1);
+    anchor.track(entry!);
+    contract.failNext = 2;
+
+    expect((await anchor.flush(ethers.ZeroHash, 1)).failed).toBe(1);
+    expect(anchor.getStatus(entry!.hash!)).toEqual(expect.objectContaining({
+      state: 'PENDING',
+      attempts: 1,
+      nextAttemptAt: clock.now() + 1000,
+      error: 'connection refused'
+    }));
+
+    // Not due yet
+    await anchor.flush(ethers.ZeroHash, 1);
+    expect(anchor.getStatus(entry!.hash!)?.attempts).toBe(1);
+
+    clock.advance(1000);
+    await anchor.flush(ethers.ZeroHash, 1);
+    expect(anchor.getStatus(entry!.hash!)?.nextAttemptAt).toBe(clock.now() + 2000);
+
+    clock.advance(2000);
+    await anchor.flush(ethers.ZeroHash, 1);
+    expect(anchor.getStatus(entry!.hash!)?.state).toBe('ANCHORED');
+  });
+
+  it('should mark entries failed after the last attempt and allow a manual retry', async () => {
+    const anchor = new AuditAnchor(contract, { maxAttempts: 2, baseDelayMs: 1, clock });
+    const [entry] = entries(1);
+    anchor.track(entry!);
+    contract.failNext = 2;
+
+    await anchor.flush(ethers.ZeroHash, 1);
+    clock.advance(1);
+    await anchor.flush(ethers.ZeroHash, 1);
+    expect(anchor.getStatus(entry!.hash!)?.state).toBe('FAILED');
+
+    expect(anchor.retryFailed()).toBe(1);
+    await anchor.flush(ethers.ZeroHash, 1);
+    expect(anchor.getStatus(entry!.hash!)?.state).toBe('ANCHORED');
+  });
+
+  it('should not resubmit a batch that landed without a receipt', async () => {
+    const anchor = new AuditAnchor(contract, { baseDelayMs: 1, clock });
+    const batch = entries(2);
+    batch.forEach(e => anchor.track(e));
+    contract.dropReceipts = 1;
+
+    await anchor.flush(ethers.ZeroHash, 2);
+    clock.advance(1);
+    await anchor.flush(ethers.ZeroHash, 2);
+
+    expect(contract.batches.length).toBe(1);
+    expect(anchor.getStatuses().every(s => s.state === 'ANCHORED')).toBe(true);
+  });
+
+  it('should skip reloaded entries that are already on-chain', async () => {
+    const [anchoredEntry, newEntry] = entries(2);
+    contract.entries.set(anchoredEntry!.hash!, 1n);
+
+    const anchor = new AuditAnchor(contract, { clock });
+    anchor.track(anchoredEntry!, true);
+    anchor.track(newEntry!, true);
+    await anchor.flush(ethers.ZeroHash, 2);
+
+    expect(contract.batches).toEqual([[newEntry!.hash]]);
+  });
+
+  it('should retry a reverted batch entry by entry so one future timestamp does not block the rest', async () => {
+    const anchor = new AuditAnchor(contract, { baseDelayMs: 1000, clock });
+    const batch = entries(5);
+    batch.forEach(e => anchor.track(e));
+    contract.blockTime = 1700000002n;
+
+    const result = await anchor.flush(ethers.ZeroHash, 5);
+
+    expect(result).toEqual(expect.objectContaining({ anchored: 3, failed: 2 }));
+    expect(contract.batches).toEqual(batch.slice(0, 3).map(e => [e.hash]));
+    expect(anchor.getStatus(batch[3]!.hash!)).toEqual(expect.objectContaining({
+      state: 'PENDING',
+      attempts: 1,
+      error: 'execution reverted: "Future timestamp"'
+    }));
+
+    contract.blockTime = 1700000010n;
+    clock.advance(1000);
+    expect((await anchor.flush(ethers.ZeroHash, 5)).anchored).toBe(2);
+    expect(anchor.getPendingCount()).toBe(0);
+  });
+
+  it('should skip hashes already anchored when a batch reverts with Entry exists', async () => {
+    const batch = entries(3);
+    contract.entries.set(batch[1]!.hash!, 1n);
+
+    const anchor = new AuditAnchor(contract, { clock });
+    batch.forEach(e => anchor.track(e));
+    const result = await anchor.flush(ethers.ZeroHash, 3);
+
+    expect(result).toEqual(expect.objectContaining({ anchored: 3, failed: 0 }));
+    expect(contract.batches).toEqual([[batch[0]!.hash], [batch[2]!.hash]]);
+    expect(anchor.getStatuses().every(s => s.state === 'ANCHORED')).toBe(true);
+  });
+
+  it('should defer entries timestamped after the latest block without spending attempts', async () => {
+    const anchor = new AuditAnchor(contract, {
+      baseDelayMs: 1000,
+      clock,
+      chainTime: async () => Number(contract.blockTime!) * 1000
+    });
+    const batch = entries(5);
+    batch.forEach(e => anchor.track(e));
+    contract.blockTime = 1700000002n;
+
+    const result = await anchor.flush(ethers.ZeroHash, 5);
+
+    expect(result).toEqual(expect.objectContaining({ anchored: 3, failed: 0 }));
+    expect(contract.batches).toEqual([batch.slice(0, 3).map(e => e.hash)]);
+    expect(anchor.getStatus(batch[4]!.hash!)).toEqual(expect.objectContaining({
+      state: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: clock.now() + 2000
+    }));
+
+    contract.blockTime = 1700000004n;
+    clock.advance(2000);
+    expect((await anchor.flush(ethers.ZeroHash, 5)).anchored).toBe(2);
+    expect(contract.batches.length).toBe(2);
+  });
+});
+
+describe('Audit Logger Anchoring', () => {
+  it('should anchor signed and unsigned entries on flush', async () => {
+    const contract = new InMemoryAuditContract();
+    const clock = new SimulatedClock(1700000000000);
+    const logger = new AuditLogger({ mode: 'onchain', anchorContract: contract, clock });
+
+    const first = await logger.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: clock.now() });
+    await logger.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: clock.now() });
+    expect(contract.batches.length).toBe(0);
+
+    clock.advance(60001);
+    await logger.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: clock.now() });
+
+    expect(contract.batches[0]?.length).toBe(3);
+    expect(logger.getAnchorStatus(first.hash!)?.state).toBe('ANCHORED');
+    expect(logger.getRootAnchors()[0]?.root).toBe(logger.getMerkleRoot());
+  });
+
+  it('should not anchor in local mode', async () => {
+    const contract = new InMemoryAuditContract();
+    const logger = new AuditLogger({ mode: 'local', anchorContract: contract });
+
+    await logger.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: 1000 });
+    await logger.flush();
+
+    expect(contract.batches.length).toBe(0);
+  });
+});
+
+// Run with a node (`npx hardhat node`) and a deployed contract (`npm run deploy:audit -- --network localhost`)
+const HARDHAT_RPC_URL = process.env.HARDHAT_RPC_URL;
+const AUDIT_CONTRACT = process.env.AUDIT_CONTRACT;
+const describeHardhat = HARDHAT_RPC_URL && AUDIT_CONTRACT ? describe : describe.skip;
+
+describeHardhat('Audit Anchoring on Hardhat', () => {
+  // First default Hardhat account, which deploys and owns the contract
+  const HARDHAT_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+  it('should anchor entries and the Merkle root', async () => {
+    const logger = new AuditLogger({
+      mode: 'onchain',
+      rpcUrl: HARDHAT_RPC_URL,
+      contractAddress: AUDIT_CONTRACT,
+      privateKey: HARDHAT_KEY,
+      chainId: 1337
+    });
+
+    const entry = await logger.log({ type: 'TEST', agent: 'TestAgent', data: { run: Date.now() }, timestamp: Date.now() - 1000 });
+    await logger.flush();
+
+    const status = logger.getAnchorStatus(entry.hash!);
+    expect(status?.state).toBe('ANCHORED');
+    expect(status?.blockNumber).toBeGreaterThan(0);
+
+    const provider = new ethers.JsonRpcProvider(HARDHAT_RPC_URL);
+    const contract = new ethers.Contract(AUDIT_CONTRACT!, ['function merkleRoot() view returns (bytes32)'], provider);
+    expect(await contract.getFunction('merkleRoot')()).toBe(logger.getMerkleRoot());
+
+    const reconciler = new AuditReconciler(new ContractAuditSource(AUDIT_CONTRACT!, provider));
+    const report = await reconciler.reconcile(logger.getEntries(), { submitter: logger.getSignerAddress()!, fromBlock: status!.blockNumber });
+    expect(report.missingOnChain).toEqual([]);
+    expect(report.mismatches).toEqual([]);
+  }, 30000);
+});
\ No newline at end of file
@@ -0,0 +1,679 @@
+/**
+ * Audit Storage Test Suite
+ *
+ * Tests for persistent audit logs:
+ * - Append-only JSONL persistence and reload
+ * - Re-verification of reloaded entries
+ * - Rotation by size and by day
+ * - Hash-chained entries and broken link detection
+ * - Merkle inclusion proofs
+ * - Signer identity and key rotation
+ * - Canonical encoding and schema versions
+ * - Typed event registry and validation
+ * - Decision traces of the agent pipeline
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ethers } from 'ethers';
+import { AuditEntry, AuditLogger, AuditVerifier } from '../audit/audit-trail';
+import { JsonlFileStorage } from '../audit/storage';
+import { canonicalize, taggedReviver } from '../audit/canonical';
+import { isAuditEvent, validateAuditEvent } from '../audit/events';
+import { ConservativeBot } from '../agents/conservative-bot';
+import { SimulatedClock } from '../utils/clock';
+import { MarketData, Prediction } from '../agents/base-agent';
+
+const DAY = 86400000;
+
+describe('Audit Storage', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predicguard-audit-'));
+    logPath = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function logTrades(logger: AuditLogger, count: number): Promise<void> {
+    for (let i = 0; i < count; i++) {
+      await logger.logTrade({
+        agent: 'TestAgent',
+        marketId: 'ETH-USD',
+        action: 'BUY',
+        amount: BigInt(i + 1),
+        price: 2500n,
+        reason: `Trade ${i}`
+      });
+    }
+  }
+
+  it('should append one line per entry', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(logger, 3);
+    logger.close();
+
+    const lines = fs.readFileSync(logPath, 'utf8').trim().split('\n');
+    expect(lines.length).toBe(3);
+    expect(JSON.parse(lines[0]!).type).toBe('TRADE');
+  });
+
+  it('should reload entries and restore the Merkle root', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(logger, 5);
+    await logger.log({ type: 'CUSTOM', agent: 'TestAgent', data: { size: 10n ** 20n }, timestamp: 1000 });
+    const root = logger.getMerkleRoot();
+    logger.close();
+
+    const reloaded = new AuditLogger({ mode: 'local', localPath: logPath });
+
+    expect(reloaded.getEntries().length).toBe(6);
+    expect(reloaded.getMerkleRoot()).toBe(root);
+    expect(reloaded.getEntries().every(e => reloaded.verifyEntry(e))).toBe(true);
+  });
+
+  it('should keep appending after a reload', async () => {
+    const first = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(first, 2);
+    first.close();
+
+    const second = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(second, 1);
+    second.close();
+
+    expect(JsonlFileStorage.readEntries(logPath).length).toBe(3);
+  });
+
+  it('should chain concurrent logs and rotations in call order', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, signingKey: '0x' + '1'.repeat(64) });
+    const entries = await Promise.all([
+      logger.log({ type: 'TEST', agent: 'TestAgent', data: { i: 0 }, timestamp: 1000 }),
+      logger.log({ type: 'TEST', agent: 'TestAgent', data: { i: 1 }, timestamp: 1001 }),
+      logger.rotate(1002),
+      logger.log({ type: 'TEST', agent: 'TestAgent', data: { i: 2 }, timestamp: 1003 })
+    ]);
+    logger.close();
+
+    expect(entries.filter(e => typeof e !== 'string').map(e => (e as AuditEntry).sequence)).toEqual([0, 1, 3]);
+
+    const reloaded = new AuditLogger({ mode: 'local', localPath: logPath });
+    expect(reloaded.getEntries().map(e => e.sequence)).toEqual([2, 3]);
+    expect(AuditVerifier.verifyTrail(reloaded.getTrail()).valid).toBe(true);
+    reloaded.close();
+  });
+
+  it('should refuse to load a tampered log', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(logger, 2);
+    logger.close();
+
+    const tampered = fs.readFileSync(logPath, 'utf8').replace('"amount":"2"', '"amount":"200"');
+    fs.writeFileSync(logPath, tampered);
+
+    expect(() => new AuditLogger({ mode: 'local', localPath: logPath })).toThrow('failed verification at entry 1');
+  });
+
+  it('should refuse to load a corrupt line', () => {
+    fs.writeFileSync(logPath, '{"type":"TRADE"\n');
+    expect(() => new AuditLogger({ mode: 'local', localPath: logPath })).toThrow('at line 1');
+  });
+
+  it('should drop a torn final line and keep appending', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(logger, 2);
+    logger.close();
+
+    const line = fs.readFileSync(logPath, 'utf8').split('\n')[1]!;
+    fs.appendFileSync(logPath, line.slice(0, line.length / 2));
+
+    const reopened = new AuditLogger({ mode: 'local', localPath: logPath });
+    const next = await reopened.logTrade({ agent: 'TestAgent', marketId: 'ETH-USD', action: 'SELL', amount: 1n, price: 2500n, reason: 'After crash' });
+    reopened.close();
+
+    expect(next.sequence).toBe(2);
+    expect(JsonlFileStorage.readEntries(logPath).length).toBe(3);
+    expect(AuditVerifier.verifyTrail(JsonlFileStorage.readEntries(logPath)).valid).toBe(true);
+  });
+
+  it('should finish a rotation interrupted after archiving', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+    await logTrades(logger, 2);
+    await logger.rotate(2);
+    logger.close();
+    fs.renameSync(logPath, `${logPath}.next`); // Crash before the new segment moved into place
+
+    const reopened = new AuditLogger({ mode: 'local', localPath: logPath });
+    const next = await reopened.logTrade({ agent: 'TestAgent', marketId: 'ETH-USD', action: 'SELL', amount: 1n, price: 2500n, reason: 'After crash' });
+    reopened.close();
+
+    expect(reopened.getEntries().map(e => e.type)).toEqual(['LOG_ROTATED', 'TRADE']);
+    expect(next.sequence).toBe(3);
+    expect(fs.existsSync(`${logPath}.next`)).toBe(false);
+  });
+
+  it('should rotate by size and carry the previous root forward', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, rotation: { maxBytes: 400 } });
+    await logTrades(logger, 2);
+    const root = logger.getMerkleRoot();
+    await logTrades(logger, 1);
+    logger.close();
+
+    const archives = fs.readdirSync(dir).filter(f => f !== 'audit.jsonl');
+    const [marker, trade] = logger.getEntries();
+
+    expect(archives.length).toBe(1);
+    expect(JsonlFileStorage.readEntries(path.join(dir, archives[0]!)).length).toBe(2);
+    expect(marker?.type).toBe('LOG_ROTATED');
+    expect(marker?.data.previousRoot).toBe(root);
+    expect(marker?.data.previousEntries).toBe(2);
+    expect(trade?.type).toBe('TRADE');
+  });
+
+  it('should rotate when the day changes', async () => {
+    const clock = new SimulatedClock(Date.UTC(2026, 0, 1, 12));
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, rotation: { daily: true }, clock });
+
+    await logTrades(logger, 2);
+    clock.advance(DAY / 4);
+    await logTrades(logger, 1);
+    expect(logger.getEntries().length).toBe(3);
+
+    clock.advance(DAY);
+    await logTrades(logger, 1);
+    logger.close();
+
+    expect(logger.getEntries().map(e => e.type)).toEqual(['LOG_ROTATED', 'TRADE']);
+    expect(new AuditLogger({ mode: 'local', localPath: logPath }).getEntries().length).toBe(2);
+  });
+
+  it('should reject a non-positive rotation size', () => {
+    expect(() => new JsonlFileStorage(logPath, { maxBytes: 0 })).toThrow('Rotation size must be positive');
+  });
+});
+
+describe('Audit Hash Chain', () => {
+  async function trail(count: number, agent: string = 'TestAgent'): Promise<AuditLogger> {
+    const logger = new AuditLogger({ mode: 'local' });
+    for (let i = 0; i < count; i++) {
+      await logger.log({ type: 'TEST', agent, data: { i }, timestamp: 1000 + i });
+    }
+    return logger;
+  }
+
+  it('should link each entry to the one before it', async () => {
+    const entries = (await trail(3)).getEntries();
+
+    expect(entries.map(e => e.sequence)).toEqual([0, 1, 2]);
+    expect(entries[0]?.prevHash).toBe('0x' + '0'.repeat(64));
+    expect(entries[1]?.prevHash).toBe(entries[0]?.hash);
+    expect(AuditVerifier.verifyTrail(entries).valid).toBe(true);
+  });
+
+  it('should not let later changes to a logged object alter the entry', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    const portfolio = { cash: 10n, positions: [] as string[] };
+    await logger.log({ type: 'TEST', agent: 'TestAgent', data: { portfolio }, timestamp: 1000 });
+
+    portfolio.cash = 5n;
+    portfolio.positions.push('ELECTION');
+
+    expect(logger.getEntries()[0]?.data.portfolio).toEqual({ cash: 10n, positions: [] });
+    expect(AuditVerifier.verifyTrail(logger.getEntries()).valid).toBe(true);
+  });
+
+  it('should detect a deleted entry as a gap', async () => {
+    const entries = (await trail(4)).getEntries();
+    entries.splice(1, 1);
+
+    const result = AuditVerifier.verifyTrail(entries);
+    expect(result.valid).toBe(false);
+    expect(result.firstBrokenLink).toEqual(expect.objectContaining({ index: 1, kind: 'gap' }));
+  });
+
+  it('should detect leading entries dropped from a trail', async () => {
+    const entries = (await trail(5)).getEntries();
+
+    for (const dropped of [1, 3]) {
+      const result = AuditVerifier.verifyTrail(entries.slice(dropped));
+      expect(result.valid).toBe(false);
+      expect(result.firstBrokenLink).toEqual(expect.objectContaining({ index: 0, kind: 'truncated' }));
+    }
+  });
+
+  it('should report the first broken link of a reordered trail', async () => {
+    const entries = (await trail(4)).getEntries();
+    const reordered = [entries[0]!, entries[2]!, entries[1]!, entries[3]!];
+
+    const result = AuditVerifier.verifyTrail(reordered);
+    expect(result.firstBrokenLink?.index).toBe(1);
+    expect(result.invalidCount).toBeGreaterThan(1);
+  });
+
+  it('should detect a fork', async () => {
+    const main = (await trail(2)).getEntries();
+    const branch = (await trail(2, 'Other')).getEntries();
+    const forked = [...main, { ...branch[1]!, sequence: 1 }];
+
+    expect(AuditVerifier.verifyChain(forked)[0]).toEqual(expect.objectContaining({ index: 2, kind: 'fork' }));
+  });
+
+  it('should detect an entry spliced in from another chain', async () => {
+    const main = (await trail(3)).getEntries();
+    const other = (await trail(3, 'Other')).getEntries();
+    const spliced = [main[0]!, other[1]!, main[2]!];
+
+    const result = AuditVerifier.verifyTrail(spliced);
+    expect(result.firstBrokenLink).toEqual(expect.objectContaining({ index: 1, kind: 'splice' }));
+  });
+
+  it('should reject edits to the chain fields', async () => {
+    const entries = (await trail(2)).getEntries();
+    const relinked: AuditEntry = { ...entries[1]!, prevHash: '0x' + '1'.repeat(64) };
+
+    expect(AuditVerifier.verifyTrail([entries[0]!, relinked]).issues[0]).toContain('Hash mismatch');
+  });
+
+  it('should carry the chain head in exports and catch truncation', async () => {
+    const logger = await trail(3);
+    const exported = JSON.parse(logger.exportToJson());
+
+    expect(exported.chainHead).toEqual({ sequence: 2, hash: exported.entries[2].hash });
+    expect(AuditVerifier.verifyTrail(exported.entries, { head: exported.chainHead }).valid).toBe(true);
+
+    const truncated = AuditVerifier.verifyTrail(exported.entries.slice(0, 2), { head: exported.chainHead });
+    expect(truncated.firstBrokenLink?.kind).toBe('truncated');
+  });
+
+  it('should still verify unchained entries', () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    const legacy: AuditEntry = { type: 'A', agent: 'test', data: {}, timestamp: 1 };
+    legacy.hash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(legacy)));
+
+    expect(logger.verifyEntry(legacy)).toBe(true);
+    expect(AuditVerifier.verifyTrail([legacy]).valid).toBe(true);
+  });
+
+  it('should continue the chain across rotation and reload', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predicguard-chain-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+
+    try {
+      const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+      await logger.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: 1 });
+      const before = logger.getChainHead();
+      await logger.rotate(2);
+      logger.close();
+
+      const reloaded = new AuditLogger({ mode: 'local', localPath: logPath });
+      const [marker] = reloaded.getEntries();
+      const next = await reloaded.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: 3 });
+      reloaded.close();
+
+      expect(marker?.prevHash).toBe(before?.hash);
+      expect(marker?.sequence).toBe(1);
+      expect(next.sequence).toBe(2);
+
+      const archived = JsonlFileStorage.readEntries(fs.readdirSync(dir).map(f => path.join(dir, f)).find(f => f !== logPath)!);
+      const active = JsonlFileStorage.readEntries(logPath);
+      expect(AuditVerifier.verifyTrail(active).valid).toBe(true);
+      expect(AuditVerifier.verifyTrail([...archived, ...active]).valid).toBe(true);
+      expect(AuditVerifier.verifyTrail(active.slice(1)).firstBrokenLink?.kind).toBe('truncated');
+
+      const forged = { ...marker!, data: { ...marker!.data, previousEntries: 2 } };
+      expect(AuditVerifier.verifyChain([...archived, forged])[0]?.message).toContain('Rotation marker does not match');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Merkle Inclusion Proofs', () => {
+  async function trail(count: number): Promise<AuditLogger> {
+    const logger = new AuditLogger({ mode: 'local' });
+    for (let i = 0; i < count; i++) {
+      await logger.log({ type: 'TEST', agent: 'TestAgent', data: { i }, timestamp: 1000 + i });
+    }
+    return logger;
+  }
+
+  it('should prove every entry of odd and even sized trees', async () => {
+    for (const size of [1, 2, 5, 8]) {
+      const logger = await trail(size);
+      const root = logger.getMerkleRoot();
+
+      logger.getEntries().forEach((entry, index) => {
+        const proof = logger.getInclusionProof(index);
+        expect(AuditVerifier.verifyInclusion(entry, proof, root)).toBe(true);
+      });
+    }
+  });
+
+  it('should look up proofs by hash', async () => {
+    const logger = await trail(6);
+    const entry = logger.getEntries()[4]!;
+    const proof = logger.getInclusionProof(entry.hash!);
+
+    expect(proof.index).toBe(4);
+    expect(proof.root).toBe(logger.getMerkleRoot());
+  });
+
+  it('should reject a tampered entry or a different root', async () => {
+    const logger = await trail(5);
+    const entry = logger.getEntries()[2]!;
+    const proof = logger.getInclusionProof(2);
+
+    expect(AuditVerifier.verifyInclusion({ ...entry, data: { i: 99 } }, proof, logger.getMerkleRoot())).toBe(false);
+    expect(AuditVerifier.verifyInclusion(entry, proof, (await trail(4)).getMerkleRoot())).toBe(false);
+    expect(AuditVerifier.verifyInclusion(entry, { ...proof, index: 3 }, logger.getMerkleRoot())).toBe(false);
+  });
+
+  it('should throw for unknown entries', async () => {
+    const logger = await trail(2);
+
+    expect(() => logger.getInclusionProof(2)).toThrow('Audit entry not found');
+    expect(() => logger.getInclusionProof('0x1234')).toThrow('Audit entry not found');
+  });
+});
+
+describe('Audit Signer Identity', () => {
+  const OLD_KEY = '0x' + '1'.repeat(64);
+  const NEW_KEY = '0x' + '2'.repeat(64);
+  const oldAddress = new ethers.Wallet(OLD_KEY).address;
+  const newAddress = new ethers.Wallet(NEW_KEY).address;
+
+  async function signed(key: string, timestamp: number, agent: string = 'TestAgent'): Promise<AuditEntry> {
+    const logger = new AuditLogger({ mode: 'local', signingKey: key });
+    return logger.log({ type: 'TEST', agent, data: {}, timestamp });
+  }
+
+  it('should sign entries in local mode with a configured key', async () => {
+    const logger = new AuditLogger({ mode: 'local', signingKey: OLD_KEY });
+    const entry = await logger.log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: 1000 });
+
+    expect(logger.getSignerAddress()).toBe(oldAddress);
+    expect(ethers.verifyMessage(ethers.toUtf8Bytes(entry.hash!), entry.signature!)).toBe(oldAddress);
+  });
+
+  it('should report which key signed each entry', async () => {
+    const entries = [await signed(OLD_KEY, 1000), { type: 'A', agent: 'B', data: {}, timestamp: 2000 }];
+    entries[1]!.hash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(entries[1])));
+
+    const result = AuditVerifier.verifyTrail(entries);
+
+    expect(result.valid).toBe(true);
+    expect(result.signers).toEqual([
+      { index: 0, agent: 'TestAgent', signer: oldAddress },
+      { index: 1, agent: 'B', signer: null }
+    ]);
+  });
+
+  it('should reject entries signed by unknown keys', async () => {
+    const forged = await signed(NEW_KEY, 1000);
+    const result = AuditVerifier.verifyTrail([forged], { signers: { TestAgent: [{ address: oldAddress }] } });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues[0]).toContain(`Signed by unknown key ${newAddress}`);
+  });
+
+  it('should honour key rotation windows', async () => {
+    const signers = {
+      TestAgent: [
+        { address: oldAddress, validUntil: 5000 },
+        { address: newAddress, validFrom: 5000 }
+      ]
+    };
+
+    const beforeRotation = await signed(OLD_KEY, 4000);
+    const afterRotation = await signed(NEW_KEY, 6000);
+    const staleKey = await signed(OLD_KEY, 6000);
+
+    expect(AuditVerifier.verifyTrail([beforeRotation], { signers }).valid).toBe(true);
+    expect(AuditVerifier.verifyTrail([afterRotation], { signers }).valid).toBe(true);
+    expect(AuditVerifier.verifyTrail([staleKey], { signers }).issues[0]).toContain('not valid for TestAgent at 6000');
+  });
+
+  it('should apply wildcard keys and require signatures when signers are given', async () => {
+    const signers = { '*': [{ address: oldAddress }] };
+    const unsigned = await new AuditLogger({ mode: 'local' }).log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: 1000 });
+
+    expect(AuditVerifier.verifyTrail([await signed(OLD_KEY, 1000, 'OtherAgent')], { signers }).valid).toBe(true);
+    expect(AuditVerifier.verifyTrail([unsigned], { signers }).issues).toEqual([`Entry ${unsigned.hash}: Missing signature`]);
+  });
+});
+
+describe('Canonical Encoding', () => {
+  it('should sort object keys', () => {
+    expect(canonicalize({ b: 1, a: { d: 2, c: 3 } })).toBe('{"a":{"c":3,"d":2},"b":1}');
+  });
+
+  it('should encode bigint explicitly', () => {
+    expect(canonicalize({ amount: 5n })).toBe('{"amount":{"$bigint":"5"}}');
+    expect(canonicalize(5n)).not.toBe(canonicalize('5'));
+  });
+
+  it('should format numbers stably', () => {
+    expect(canonicalize([-0, 1.5, 1e21, NaN, undefined])).toBe('[0,1.5,1e+21,{"$number":"NaN"},null]');
+  });
+
+  it('should encode maps and sets independently of insertion order', () => {
+    expect(canonicalize(new Map([['b', 1n], ['a', 2n]]))).toBe(canonicalize(new Map([['a', 2n], ['b', 1n]])));
+    expect(canonicalize(new Set([2, 1]))).toBe('{"$set":[1,2]}');
+  });
+
+  it('should reject circular structures', () => {
+    const circular: any = { a: 1 };
+    circular.self = circular;
+    expect(() => canonicalize(circular)).toThrow('circular');
+  });
+
+  it('should hash entries independently of key order', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    const entry = await logger.log({ type: 'TEST', agent: 'TestAgent', data: { a: 1n, b: 2 }, timestamp: 1000 });
+
+    expect(entry.schema).toBe(2);
+    expect(logger.verifyEntry({ ...entry, data: { b: 2, a: 1n } })).toBe(true);
+  });
+
+  it('should keep bigint state verifiable through export and import', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    await logger.log({
+      type: 'PORTFOLIO',
+      agent: 'TestAgent',
+      data: { totalValue: 10n ** 19n, positions: [{ marketId: 'M1', position: 3n }], drawdown: 0.05 },
+      timestamp: 1000
+    });
+
+    const exported = logger.exportToJson();
+    expect(AuditVerifier.verifyTrail(JSON.parse(exported).entries).valid).toBe(true);
+
+    const revived = JSON.parse(exported, taggedReviver).entries;
+    expect(revived[0].data.totalValue).toBe(10n ** 19n);
+    expect(AuditVerifier.verifyTrail(revived).valid).toBe(true);
+  });
+
+  it('should distinguish a bigint from its decimal string', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    const entry = await logger.log({ type: 'TEST', agent: 'TestAgent', data: { amount: 5n }, timestamp: 1000 });
+
+    expect(logger.verifyEntry({ ...entry, data: { amount: '5' } })).toBe(false);
+  });
+
+  it('should report entries with an unknown schema', async () => {
+    const entry = await new AuditLogger({ mode: 'local' }).log({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: 1000 });
+    const result = AuditVerifier.verifyTrail([{ ...entry, schema: 99 }]);
+
+    expect(result.issues[0]).toContain('Unsupported audit schema: 99');
+  });
+});
+
+describe('Audit Events', () => {
+  const ONE = BigInt('1000000000000000000');
+
+  it('should log registered events without flags', async () => {
+    const logger = new AuditLogger({ mode: 'local', validation: 'strict' });
+    const entry = await logger.log({ type: 'LOW_CONFIDENCE', agent: 'TestAgent', data: { confidence: 0.5, threshold: 0.7 }, timestamp: 1000 });
+
+    expect(entry.flags).toBeUndefined();
+  });
+
+  it('should flag unknown and malformed events by default', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    const unknown = await logger.log({ type: 'MADE_UP', agent: 'TestAgent', data: {}, timestamp: 1000 });
+    const malformed = await logger.log({ type: 'POSITION_UPDATE', agent: 'TestAgent', data: { marketId: 'M1', amount: '5' }, timestamp: 2000 });
+
+    expect(unknown.flags).toEqual(['Unknown event type MADE_UP']);
+    expect(malformed.flags).toContain('POSITION_UPDATE.amount must be bigint');
+    expect(malformed.flags).toContain('POSITION_UPDATE.realizedPnl must be bigint|null');
+    expect(logger.getEntries({ flagged: true }).length).toBe(2);
+    expect(logger.verifyEntry({ ...malformed, flags: undefined })).toBe(false);
+  });
+
+  it('should reject invalid events in strict mode', async () => {
+    const logger = new AuditLogger({ mode: 'local', validation: 'strict' });
+
+    await expect(logger.log({ type: 'ERROR', agent: 'TestAgent', data: { error: 42 }, timestamp: 1000 }))
+      .rejects.toThrow('Invalid audit event: ERROR.error must be string');
+    expect(logger.getEntries().length).toBe(0);
+  });
+
+  it('should accept custom event schemas', async () => {
+    const logger = new AuditLogger({
+      mode: 'local',
+      validation: 'strict',
+      eventSchemas: { MODEL_RETRAINED: { version: 'string', accuracy: 'number?' } }
+    });
+
+    await expect(logger.log({ type: 'MODEL_RETRAINED', agent: 'TestAgent', data: { version: 'v2' }, timestamp: 1000 })).resolves.toBeDefined();
+  });
+
+  it('should not take inherited object properties for event schemas', () => {
+    expect(validateAuditEvent({ type: 'constructor', data: {} })).toEqual(['Unknown event type constructor']);
+    expect(validateAuditEvent({ type: 'toString', data: {} }, {})).toEqual(['Unknown event type toString']);
+  });
+
+  it('should accept tagged bigints from exported trails', () => {
+    expect(validateAuditEvent({ type: 'ALL_POSITIONS_CLOSED', data: { finalCash: { $bigint: '10' } } })).toEqual([]);
+  });
+
+  it('should return typed payloads when querying by event type', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    await logger.logTrade({ agent: 'TestAgent', marketId: 'M1', action: 'BUY', amount: 2n, price: 3n, reason: 'test' });
+
+    const [trade] = logger.getEntries({ type: 'TRADE' });
+    const [entry] = logger.getEntries();
+
+    expect(trade?.data.marketId).toBe('M1');
+    expect(isAuditEvent(entry!, 'TRADE') && entry.data.action).toBe('BUY');
+  });
+
+  it('should log a full agent pipeline without invalid events', async () => {
+    const logger = new AuditLogger({ mode: 'local', validation: 'strict' });
+    const bot = new ConservativeBot({
+      wallet: { address: '0x' + '1'.repeat(40), balance: ONE * 10n },
+      auditLogger: logger
+    });
+    bot.updateOraclePrices({ chainlink: ONE / 2n, uniswap: ONE / 2n, binance: ONE / 2n }, Date.now());
+    await bot.start();
+
+    const decision = await bot.processMarketData({
+      marketId: 'ETH-USD',
+      currentPrice: ONE / 2n,
+      liquidity: ONE * 1000n,
+      volume24h: ONE * 100n,
+      volatility: 0.1,
+      timestamp: Date.now()
+    }, { marketId: 'ETH-USD', outcome: 'YES', confidence: 0.8, expectedValue: 0.4, timestamp: Date.now() });
+    await bot.executeTrade(decision!);
+    await bot.resolveMarket({ marketId: 'ETH-USD', outcome: 'YES', timestamp: Date.now() });
+    await bot.stop();
+
+    const types = logger.getEntries().map(e => e.type);
+    expect(types).toEqual(expect.arrayContaining(['AGENT_START', 'TRADE_DECISION', 'POSITION_UPDATE', 'MARKET_RESOLVED', 'AGENT_STOP']));
+    expect(types).not.toContain('ERROR');
+  });
+});
+
+describe('Decision Traces', () => {
+  const ONE = BigInt('1000000000000000000');
+  let logger: AuditLogger;
+  let bot: ConservativeBot;
+
+  const market = (currentPrice: bigint, volatility: number = 0.1): MarketData => ({
+    marketId: 'ETH-USD',
+    currentPrice,
+    liquidity: ONE * 1000n,
+    volume24h: ONE * 100n,
+    volatility,
+    timestamp: Date.now()
+  });
+  const prediction = (confidence: number, outcome: string = 'YES'): Prediction => ({
+    marketId: 'ETH-USD',
+    outcome,
+    confidence,
+    expectedValue: 0.4,
+    timestamp: Date.now()
+  });
+
+  beforeEach(async () => {
+    logger = new AuditLogger({ mode: 'local', validation: 'strict' });
+    bot = new ConservativeBot({ wallet: { address: '0x' + '1'.repeat(40), balance: ONE * 10n }, auditLogger: logger });
+    bot.updateOraclePrices({ chainlink: ONE / 2n, uniswap: ONE / 2n, binance: ONE / 2n }, Date.now());
+    await bot.start();
+  });
+
+  it('should trace every stage of a trade decision', async () => {
+    const { decision, trace } = await bot.processMarketDataWithTrace(market(ONE / 2n), prediction(0.8));
+
+    expect(trace.stages.map(s => s.stage)).toEqual([
+      'DRAWDOWN', 'ORACLE', 'MANIPULATION', 'STRATEGY', 'CONFIDENCE', 'KELLY_SIZE', 'POSITION_CAP', 'STOP_LOSS'
+    ]);
+    expect(trace.blockedBy).toBeUndefined();
+    expect(trace.decision).toEqual(decision);
+
+    const kelly = trace.stages.find(s => s.stage === 'KELLY_SIZE')!;
+    expect(kelly.inputs).toMatchObject({ method: 'market', bankroll: ONE * 10n, probability: 0.8, price: ONE / 2n, kellyFraction: 0.1 });
+    expect(trace.stages.find(s => s.stage === 'POSITION_CAP')!.result).toEqual({ size: decision!.amount });
+    expect(trace.stages.find(s => s.stage === 'STOP_LOSS')!.outcome).toBe('SKIP');
+
+    const [logged] = logger.getEntries({ type: 'TRADE_DECISION' });
+    expect(logged!.data.trace).toEqual(trace);
+  });
+
+  it('should log which stage declined to trade', async () => {
+    const { decision, trace } = await bot.processMarketDataWithTrace(market(ONE / 2n, 0.5), prediction(0.8));
+
+    expect(decision).toBeNull();
+    expect(trace.blockedBy).toBe('STRATEGY');
+    expect(trace.stages[trace.stages.length - 1]).toMatchObject({ stage: 'STRATEGY', outcome: 'BLOCK', result: { decision: null } });
+
+    const [noTrade] = logger.getEntries({ type: 'NO_TRADE' });
+    expect(noTrade!.data).toEqual({ marketId: 'ETH-USD', blockedBy: 'STRATEGY', trace });
+  });
+
+  it('should record a stop loss overriding the decision', async () => {
+    const decision = await bot.processMarketData(market(ONE / 2n), prediction(0.8));
+    await bot.executeTrade(decision!);
+
+    const { decision: exit, trace } = await bot.processMarketDataWithTrace(market((ONE * 40n) / 100n), prediction(0.8, 'NO'));
+    const stopLoss = trace.stages[trace.stages.length - 1]!;
+
+    expect(exit).toMatchObject({ action: 'SELL', outcome: 'YES', confidence: 1.0 });
+    expect(trace.stages.find(s => s.stage === 'KELLY_SIZE')!.outcome).toBe('SKIP');
+    expect(stopLoss).toMatchObject({ stage: 'STOP_LOSS', outcome: 'ADJUST', result: { outcome: 'YES' } });
+    expect(stopLoss.inputs.checked).toEqual([{ outcome: 'YES', price: (ONE * 40n) / 100n }]);
+  });
+
+  it('should explain markets the agent no longer trades', async () => {
+    await bot.resolveMarket({ marketId: 'ETH-USD', outcome: 'NO', timestamp: Date.now() });
+
+    const { trace } = await bot.processMarketDataWithTrace(market(ONE / 2n), prediction(0.8));
+
+    expect(trace).toMatchObject({ blockedBy: 'NOT_TRADING', stages: [], decision: null });
+    expect(logger.getEntries({ type: 'NO_TRADE' }).length).toBe(1);
+  });
+});
\ No newline at end of file
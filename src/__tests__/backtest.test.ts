@@ -0,0 +1,174 @@
+/**
+ * Backtest Test Suite
+ *
+ * Tests for historical replay through the agent pipeline:
+ * - Trade recording and realized PnL
+ * - Settlement on market resolution
+ * - Summary statistics
+ */
+
+import {
+  BacktestEngine,
+  BacktestStep,
+  calculateMaxDrawdown,
+  calculateSharpeRatio
+} from '../backtest/backtest-engine';
+import { MidPriceFillModel } from '../execution/venues';
+import { ConservativeBot } from '../agents/conservative-bot';
+import { MarketData } from '../agents/base-agent';
+import { AuditLogger } from '../audit/audit-trail';
+import { SimulatedClock } from '../utils/clock';
+import { BinaryOutcome } from '../markets/outcome-shares';
+
+const ONE_ETH = BigInt('1000000000000000000');
+const HALF = ONE_ETH / 2n;
+const HIGHER = ONE_ETH * 55n / 100n;
+
+function market(price: bigint, timestamp: number): MarketData {
+  return {
+    marketId: 'ETH-USD',
+    currentPrice: price,
+    liquidity: ONE_ETH * 1000n,
+    volume24h: ONE_ETH * 100n,
+    volatility: 0.1,
+    timestamp
+  };
+}
+
+function step(price: bigint, timestamp: number, outcome: BinaryOutcome): BacktestStep {
+  return {
+    marketData: market(price, timestamp),
+    prediction: {
+      marketId: 'ETH-USD',
+      outcome,
+      confidence: 0.8,
+      expectedValue: 0.4,
+      timestamp
+    }
+  };
+}
+
+function createBot(clock: SimulatedClock = new SimulatedClock()): ConservativeBot {
+  return new ConservativeBot({
+    wallet: { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n },
+    auditLogger: new AuditLogger({ mode: 'local', clock }),
+    clock
+  });
+}
+
+describe('Backtest Engine', () => {
+  it('should replay steps and record a profitable round trip', async () => {
+    const engine = new BacktestEngine(createBot(), { fillModel: new MidPriceFillModel() });
+
+    const result = await engine.run([
+      step(HIGHER, 2000, 'NO'),
+      step(HALF, 1000, 'YES')
+    ]);
+
+    expect(result.trades.length).toBe(2);
+    expect(result.trades[0]?.action).toBe('BUY');
+    expect(result.trades[1]?.action).toBe('SELL');
+    expect(result.trades[1]?.realizedPnl).toBeGreaterThan(0n);
+
+    expect(result.equityCurve.length).toBe(3);
+    expect(result.stats.pnl).toBeGreaterThan(0n);
+    expect(result.stats.hitRate).toBe(1);
+    expect(result.stats.winningTrades).toBe(1);
+  });
+
+  it('should replay historical timestamps on a simulated clock', async () => {
+    const clock = new SimulatedClock(0);
+    const engine = new BacktestEngine(createBot(clock), { clock });
+    const start = 1700000000000;
+
+    const result = await engine.run([
+      step(HALF, start, 'YES'),
+      step(HIGHER, start + 86400000, 'NO')
+    ]);
+
+    expect(result.trades.length).toBe(2);
+    expect(clock.now()).toBe(start + 86400000);
+  });
+
+  it('should only run on the simulated clock the agent was built with', () => {
+    const wallClockBot = new ConservativeBot({
+      wallet: { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n },
+      auditLogger: new AuditLogger({ mode: 'local' })
+    });
+
+    expect(() => new BacktestEngine(wallClockBot)).toThrow('Backtests need an agent built with a SimulatedClock');
+    expect(() => new BacktestEngine(createBot(), { clock: new SimulatedClock() })).toThrow('Backtest clock must be the clock the agent was built with');
+  });
+
+  it('should reject data older than the clock before touching the agent', async () => {
+    const bot = createBot();
+    const engine = new BacktestEngine(bot);
+    await engine.run([step(HALF, 1000, 'YES'), step(HIGHER, 2000, 'NO')]);
+    const venue = bot.getVenue();
+
+    await expect(engine.run([step(HALF, 1000, 'YES')])).rejects.toThrow('Backtest data starts at 1000, before the agent\'s clock at 2000');
+    expect(bot.getVenue()).toBe(venue);
+  });
+
+  it('should hand the replayed book back to the agent venue', async () => {
+    const bot = createBot();
+    const venue = bot.getVenue();
+    await new BacktestEngine(bot, { fillModel: new MidPriceFillModel() }).run([step(HALF, 1000, 'YES')]);
+
+    expect(bot.getVenue()).toBe(venue);
+    expect(await venue.getBalance()).toBe(bot.getPortfolio().cash);
+    expect(bot.getPortfolio().positions.length).toBe(1);
+
+    venue.updateMarket?.(market(HALF, 2000));
+    expect(await bot.executeTrade({ action: 'SELL', amount: ONE_ETH / 10n, marketId: 'ETH-USD', outcome: 'YES', reason: 'test', confidence: 0.9 })).toBe(true);
+  });
+
+  it('should not trade when predictions are below threshold', async () => {
+    const engine = new BacktestEngine(createBot());
+    const steps = [step(HALF, 1000, 'YES')];
+    steps[0]!.prediction!.confidence = 0.5;
+
+    const result = await engine.run(steps);
+
+    expect(result.trades.length).toBe(0);
+    expect(result.stats.pnl).toBe(0n);
+  });
+
+  it('should settle held shares when a market resolves', async () => {
+    const engine = new BacktestEngine(createBot(), { fillModel: new MidPriceFillModel() });
+
+    const result = await engine.run([
+      step(HALF, 1000, 'YES'),
+      { ...step(ONE_ETH * 9n / 10n, 2000, 'YES'), resolution: { marketId: 'ETH-USD', outcome: 'YES', timestamp: 2000 } }
+    ]);
+
+    const settlement = result.trades[1];
+    expect(settlement?.action).toBe('SETTLE');
+    expect(settlement?.price).toBe(ONE_ETH);
+    expect(settlement?.realizedPnl).toBeGreaterThan(0n);
+    expect(result.stats.pnl).toBe(settlement?.realizedPnl);
+  });
+});
+
+describe('Backtest Statistics', () => {
+  it('should calculate max drawdown from peak', () => {
+    const drawdown = calculateMaxDrawdown([
+      { timestamp: 1, totalValue: 100n, cash: 0n },
+      { timestamp: 2, totalValue: 120n, cash: 0n },
+      { timestamp: 3, totalValue: 90n, cash: 0n },
+      { timestamp: 4, totalValue: 110n, cash: 0n }
+    ]);
+
+    expect(drawdown).toBeCloseTo(0.25);
+  });
+
+  it('should return zero Sharpe for flat equity', () => {
+    const sharpe = calculateSharpeRatio([
+      { timestamp: 1, totalValue: 100n, cash: 0n },
+      { timestamp: 2, totalValue: 100n, cash: 0n },
+      { timestamp: 3, totalValue: 100n, cash: 0n }
+    ]);
+
+    expect(sharpe).toBe(0);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,238 @@
+/**
+ * Execution Test Suite
+ *
+ * Tests for order execution:
+ * - Fill models
+ * - Paper trading and AMM venues
+ * - Outcome share pricing and settlement
+ * - Partial fills flowing into agent positions
+ */
+
+import {
+  AmmVenue,
+  MidPriceFillModel,
+  OrderRequest,
+  PaperTradingVenue,
+  SlippageFillModel
+} from '../execution/venues';
+import { ConservativeBot } from '../agents/conservative-bot';
+import { MarketData } from '../agents/base-agent';
+import { AuditLogger } from '../audit/audit-trail';
+import { PRICE_SCALE } from '../markets/outcome-shares';
+
+const ONE_ETH = BigInt('1000000000000000000');
+const HALF = ONE_ETH / 2n; // YES at 0.50
+
+function market(price: bigint, liquidity: bigint = ONE_ETH * 1000n): MarketData {
+  return {
+    marketId: 'ETH-USD',
+    currentPrice: price,
+    liquidity,
+    volume24h: ONE_ETH * 100n,
+    volatility: 0.1,
+    timestamp: Date.now()
+  };
+}
+
+const buyOrder: OrderRequest = { marketId: 'ETH-USD', side: 'BUY', amount: ONE_ETH * 2n };
+
+describe('Fill Models', () => {
+  it('should fill at mid price', () => {
+    const fill = new MidPriceFillModel().fill(buyOrder, market(HALF));
+    expect(fill.price).toBe(HALF);
+    expect(fill.amount).toBe(ONE_ETH * 2n);
+  });
+
+  it('should price NO shares as the complement of YES', () => {
+    const fill = new MidPriceFillModel().fill({ ...buyOrder, outcome: 'NO' }, market(ONE_ETH * 3n / 10n));
+    expect(fill.price).toBe(ONE_ETH * 7n / 10n);
+  });
+
+  it('should move price against the trade with slippage', () => {
+    const model = new SlippageFillModel(50);
+    const buyFill = model.fill(buyOrder, market(HALF));
+    const sellFill = model.fill({ ...buyOrder, side: 'SELL' }, market(HALF));
+
+    expect(buyFill.price).toBeGreaterThan(HALF);
+    expect(sellFill.price).toBeLessThan(HALF);
+  });
+
+  it('should never fill a buy above 1.0', () => {
+    const fill = new SlippageFillModel(500).fill(buyOrder, market(ONE_ETH - 1000n));
+    expect(fill.price).toBe(PRICE_SCALE);
+  });
+
+  it('should reject negative slippage', () => {
+    expect(() => new SlippageFillModel(-1)).toThrow();
+  });
+});
+
+describe('Paper Trading Venue', () => {
+  let venue: PaperTradingVenue;
+
+  beforeEach(() => {
+    venue = new PaperTradingVenue({
+      initialBalance: ONE_ETH * 10n,
+      fillModel: new MidPriceFillModel(),
+      maxLiquidityPercent: 0.1
+    });
+  });
+
+  it('should fill at market price and debit balance', async () => {
+    venue.updateMarket(market(HALF));
+    const orderId = await venue.submitOrder(buyOrder);
+    const report = await venue.getFill(orderId);
+
+    expect(report.status).toBe('FILLED');
+    expect(report.averagePrice).toBe(HALF);
+    expect(await venue.getBalance()).toBe(ONE_ETH * 9n);
+  });
+
+  it('should partially fill against thin liquidity and cancel the rest', async () => {
+    venue.updateMarket(market(HALF, ONE_ETH * 5n));
+    const orderId = await venue.submitOrder(buyOrder);
+
+    expect((await venue.getFill(orderId)).status).toBe('PARTIALLY_FILLED');
+    expect((await venue.getFill(orderId)).filledAmount).toBe(ONE_ETH);
+    expect(await venue.cancelOrder(orderId)).toBe(true);
+    expect((await venue.getFill(orderId)).status).toBe('CANCELLED');
+    expect(await venue.cancelOrder(orderId)).toBe(false);
+  });
+
+  it('should reject orders without market data', async () => {
+    const orderId = await venue.submitOrder(buyOrder);
+    const report = await venue.getFill(orderId);
+
+    expect(report.status).toBe('REJECTED');
+    expect(report.filledAmount).toBe(0n);
+  });
+
+  it('should reject buys beyond the limit price', async () => {
+    venue.updateMarket(market(HALF));
+    const orderId = await venue.submitOrder({ ...buyOrder, limitPrice: HALF - 1n });
+
+    expect((await venue.getFill(orderId)).reason).toBe('Limit price exceeded');
+  });
+
+  it('should pay out winning shares on resolution', async () => {
+    venue.updateMarket(market(HALF));
+    await venue.submitOrder(buyOrder);
+    await venue.submitOrder({ ...buyOrder, outcome: 'NO' });
+
+    const payout = await venue.settleMarket({ marketId: 'ETH-USD', outcome: 'NO', timestamp: Date.now() });
+
+    expect(payout).toBe(ONE_ETH * 2n);
+    expect(await venue.getBalance()).toBe(ONE_ETH * 10n);
+  });
+
+  it('should cap sells at the shares held and reject sells of none', async () => {
+    venue.updateMarket(market(HALF));
+    const rejected = await venue.getFill(await venue.submitOrder({ ...buyOrder, side: 'SELL' }));
+    expect(rejected).toMatchObject({ status: 'REJECTED', reason: 'Insufficient shares' });
+
+    await venue.submitOrder({ ...buyOrder, amount: ONE_ETH });
+    const sold = await venue.getFill(await venue.submitOrder({ ...buyOrder, side: 'SELL' }));
+    expect(sold).toMatchObject({ status: 'PARTIALLY_FILLED', filledAmount: ONE_ETH });
+    expect(await venue.getBalance()).toBe(ONE_ETH * 10n);
+
+    const noShares = await venue.getFill(await venue.submitOrder({ ...buyOrder, side: 'SELL', outcome: 'NO' }));
+    expect(noShares.reason).toBe('Insufficient shares');
+  });
+});
+
+describe('AMM Venue', () => {
+  let venue: AmmVenue;
+
+  beforeEach(() => {
+    venue = new AmmVenue({ initialBalance: ONE_ETH * 1000n, feeBps: 30 });
+    venue.setPool('ETH-USD', ONE_ETH * 1000n, ONE_ETH * 500n); // Spot price 0.50
+  });
+
+  it('should price buys above spot from pool reserves', async () => {
+    const orderId = await venue.submitOrder(buyOrder);
+    const report = await venue.getFill(orderId);
+
+    expect(report.status).toBe('FILLED');
+    expect(report.averagePrice).toBeGreaterThan(HALF);
+    expect(venue.getSpotPrice('ETH-USD')).toBeGreaterThan(HALF);
+  });
+
+  it('should price sells below spot', async () => {
+    await venue.submitOrder(buyOrder);
+    const spot = venue.getSpotPrice('ETH-USD');
+    const balance = await venue.getBalance();
+
+    const orderId = await venue.submitOrder({ ...buyOrder, side: 'SELL' });
+    const report = await venue.getFill(orderId);
+
+    expect(report.status).toBe('FILLED');
+    expect(report.averagePrice).toBeLessThan(spot);
+    expect(await venue.getBalance()).toBeGreaterThan(balance);
+  });
+
+  it('should reject sells of shares not held', async () => {
+    const orderId = await venue.submitOrder({ ...buyOrder, side: 'SELL' });
+
+    expect((await venue.getFill(orderId)).reason).toBe('Insufficient shares');
+    expect(venue.getPool('ETH-USD')).toEqual({ shareReserve: ONE_ETH * 1000n, cashReserve: ONE_ETH * 500n });
+  });
+
+  it('should partially fill orders beyond pool utilization', async () => {
+    const orderId = await venue.submitOrder({ ...buyOrder, amount: ONE_ETH * 500n });
+    const report = await venue.getFill(orderId);
+
+    expect(report.status).toBe('PARTIALLY_FILLED');
+    expect(report.filledAmount).toBe(ONE_ETH * 300n);
+  });
+
+  it('should keep separate pools per outcome', async () => {
+    const orderId = await venue.submitOrder({ ...buyOrder, outcome: 'NO' });
+    expect((await venue.getFill(orderId)).reason).toBe('No pool for market');
+  });
+
+  it('should reject pool utilization of the whole reserve', () => {
+    expect(() => new AmmVenue({ initialBalance: ONE_ETH, maxPoolUtilization: 1 })).toThrow('Pool utilization must be above 0 and below 1');
+    expect(() => new AmmVenue({ initialBalance: ONE_ETH, maxPoolUtilization: 0 })).toThrow('Pool utilization must be above 0 and below 1');
+  });
+
+  it('should reject orders for unknown pools', async () => {
+    const orderId = await venue.submitOrder({ ...buyOrder, marketId: 'UNKNOWN' });
+    expect((await venue.getFill(orderId)).status).toBe('REJECTED');
+  });
+});
+
+describe('Agent Execution', () => {
+  it('should book partial fills at the executed price and quantity', async () => {
+    const bot = new ConservativeBot({
+      wallet: { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n },
+      auditLogger: new AuditLogger({ mode: 'local' })
+    });
+    const venue = new PaperTradingVenue({
+      initialBalance: ONE_ETH * 10n,
+      fillModel: new SlippageFillModel(100, 0),
+      maxLiquidityPercent: 0.05
+    });
+    bot.setVenue(venue);
+    bot.updateOraclePrices({ chainlink: HALF, uniswap: HALF, binance: HALF }, Date.now());
+    await bot.start();
+
+    const marketData = market(HALF, ONE_ETH);
+    const decision = await bot.processMarketData(marketData, {
+      marketId: 'ETH-USD',
+      outcome: 'YES',
+      confidence: 0.8,
+      expectedValue: 0.4,
+      timestamp: Date.now()
+    });
+
+    expect(decision?.action).toBe('BUY');
+    expect(await bot.executeTrade(decision!)).toBe(true);
+
+    const [report] = venue.getReports();
+    const position = bot.getPortfolio().positions[0];
+    expect(report?.status).toBe('CANCELLED');
+    expect(position?.position).toBe(report?.filledAmount);
+    expect(position?.outcome).toBe('YES');
+    expect(position?.entryPrice).toBe(505000000000000000n);
+  });
+});
\ No newline at end of file
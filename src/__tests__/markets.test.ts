@@ -0,0 +1,375 @@
+/**
+ * Markets Test Suite
+ *
+ * Tests for binary and categorical outcome markets:
+ * - Share pricing and settlement math
+ * - Outcome-aware stop losses and valuation
+ * - Market-price and multi-outcome Kelly sizing
+ * - Agent positions through market resolution
+ */
+
+import {
+  PRICE_SCALE,
+  hasValidQuotes,
+  marketOutcomes,
+  outcomePrice,
+  settleShares,
+  shareValue,
+  sharesForNotional
+} from '../markets/outcome-shares';
+import {
+  StopLossManager,
+  PortfolioBalancer,
+  positionValue,
+  calculateKellyCriterion,
+  calculateMarketKelly,
+  calculateMultiOutcomeKelly
+} from '../risk/position-sizing';
+import { MidPriceFillModel, PaperTradingVenue } from '../execution/venues';
+import { ConservativeBot } from '../agents/conservative-bot';
+import { BalancedBot } from '../agents/balanced-bot';
+import { MarketData, Prediction } from '../agents/base-agent';
+import { AuditLogger } from '../audit/audit-trail';
+
+const ONE_ETH = BigInt('1000000000000000000');
+const price = (probability: number): bigint => (PRICE_SCALE * BigInt(Math.round(probability * 100))) / 100n;
+
+describe('Outcome Shares', () => {
+  it('should price NO as the complement of YES', () => {
+    expect(outcomePrice(price(0.3), 'YES')).toBe(price(0.3));
+    expect(outcomePrice(price(0.3), 'NO')).toBe(price(0.7));
+  });
+
+  it('should reject prices outside [0, 1]', () => {
+    expect(() => outcomePrice(PRICE_SCALE + 1n, 'YES')).toThrow();
+    expect(() => outcomePrice(-1n, 'NO')).toThrow();
+  });
+
+  it('should convert between shares and notional', () => {
+    const shares = sharesForNotional(ONE_ETH, price(0.25));
+    expect(shares).toBe(ONE_ETH * 4n);
+    expect(shareValue(shares, price(0.25))).toBe(ONE_ETH);
+  });
+
+  it('should settle winning shares at 1.0 and losing shares at 0', () => {
+    const resolution = { marketId: 'M', outcome: 'YES' as const, timestamp: 0 };
+
+    const win = settleShares(resolution, 'YES', ONE_ETH * 4n, price(0.25));
+    expect(win.payout).toBe(ONE_ETH * 4n);
+    expect(win.realizedPnl).toBe(ONE_ETH * 3n);
+
+    const loss = settleShares(resolution, 'NO', ONE_ETH * 4n, price(0.75));
+    expect(loss.payout).toBe(0n);
+    expect(loss.realizedPnl).toBe(-ONE_ETH * 3n);
+  });
+});
+
+describe('Categorical Quotes', () => {
+  it('should derive YES and NO quotes for binary markets', () => {
+    const quotes = marketOutcomes({ currentPrice: price(0.3), liquidity: ONE_ETH });
+    expect(quotes.map(q => [q.outcome, q.price])).toEqual([['YES', price(0.3)], ['NO', price(0.7)]]);
+  });
+
+  it('should reject duplicate or out-of-range outcome quotes', () => {
+    const quote = (outcome: string, p: bigint) => ({ outcome, price: p, liquidity: ONE_ETH });
+
+    expect(hasValidQuotes({ currentPrice: 0n, liquidity: 0n, outcomes: [quote('A', price(0.5)), quote('B', price(0.5))] })).toBe(true);
+    expect(hasValidQuotes({ currentPrice: 0n, liquidity: 0n, outcomes: [quote('A', price(0.5)), quote('A', price(0.5))] })).toBe(false);
+    expect(hasValidQuotes({ currentPrice: 0n, liquidity: 0n, outcomes: [quote('A', PRICE_SCALE * 2n), quote('B', 0n)] })).toBe(false);
+  });
+});
+
+describe('Market-Price Kelly', () => {
+  const base = { bankroll: 10000n, kellyFraction: 1, maxPositionPercent: 1 };
+
+  it('should derive odds from the share price', () => {
+    // Cost 0.4 pays 1.0: f* = (p - c) / (1 - c) = (0.6 - 0.4) / 0.6
+    const stake = calculateMarketKelly({ ...base, probability: 0.6, price: price(0.4) });
+    expect(Number(stake)).toBeCloseTo(3333, -1);
+  });
+
+  it('should shrink the stake as fees rise', () => {
+    const noFee = calculateMarketKelly({ ...base, probability: 0.6, price: price(0.4) });
+    const withFee = calculateMarketKelly({ ...base, probability: 0.6, price: price(0.4), feeBps: 200 });
+
+    expect(withFee).toBeGreaterThan(0n);
+    expect(withFee).toBeLessThan(noFee);
+  });
+
+  it('should not bet without an edge after fees', () => {
+    expect(calculateMarketKelly({ ...base, probability: 0.5, price: price(0.5) })).toBe(0n);
+    expect(calculateMarketKelly({ ...base, probability: 0.51, price: price(0.5), feeBps: 500 })).toBe(0n);
+    expect(calculateMarketKelly({ ...base, probability: 0.9, price: PRICE_SCALE })).toBe(0n);
+  });
+
+  it('should apply fractional Kelly and the position cap', () => {
+    const stake = calculateMarketKelly({ ...base, probability: 0.9, price: price(0.5), kellyFraction: 0.5, maxPositionPercent: 0.1 });
+    expect(stake).toBe(1000n);
+  });
+});
+
+describe('Multi-Outcome Kelly', () => {
+  const base = { bankroll: 10000n, winProbability: 0.5, winLossRatio: 1, kellyFraction: 1, maxPositionPercent: 1 };
+
+  it('should reduce to binary Kelly for two outcomes', () => {
+    const stakes = calculateMultiOutcomeKelly({
+      ...base,
+      outcomes: [
+        { outcome: 'YES', probability: 0.8, price: 0.5 },
+        { outcome: 'NO', probability: 0.2, price: 0.5 }
+      ]
+    });
+
+    // Even odds: f* = (bp - q) / b = 0.6
+    expect(Number(stakes.get('YES'))).toBeCloseTo(6000, -1);
+    expect(stakes.has('NO')).toBe(false);
+  });
+
+  it('should back every outcome that beats the reserve rate', () => {
+    const stakes = calculateMultiOutcomeKelly({
+      ...base,
+      outcomes: [
+        { outcome: 'A', probability: 0.5, price: 0.3 },
+        { outcome: 'B', probability: 0.3, price: 0.3 },
+        { outcome: 'C', probability: 0.2, price: 0.4 }
+      ]
+    });
+
+    // Reserve rate settles at (1 - 0.8) / (1 - 0.6) = 0.5
+    expect(Number(stakes.get('A'))).toBeCloseTo(3500, -1);
+    expect(Number(stakes.get('B'))).toBeCloseTo(1500, -1);
+    expect(stakes.has('C')).toBe(false);
+  });
+
+  it('should size a single outcome through calculateKellyCriterion', () => {
+    const outcomes = [
+      { outcome: 'A', probability: 0.6, price: 0.4 },
+      { outcome: 'B', probability: 0.4, price: 0.6 }
+    ];
+
+    expect(calculateKellyCriterion({ ...base, outcomes, outcome: 'A' })).toBeGreaterThan(0n);
+    expect(calculateKellyCriterion({ ...base, outcomes, outcome: 'B' })).toBe(0n);
+    expect(() => calculateKellyCriterion({ ...base, outcomes })).toThrow();
+  });
+});
+
+describe('Outcome Share Risk', () => {
+  it('should track NO share prices from the market YES price', () => {
+    const manager = new StopLossManager({
+      entryPrice: price(0.6),
+      stopLossPercent: 0.1,
+      outcome: 'NO'
+    });
+
+    expect(manager.updateMarketPrice(price(0.42)).shouldExit).toBe(false); // NO at 0.58
+    expect(manager.updateMarketPrice(price(0.47))).toEqual({ shouldExit: true, reason: 'STOP_LOSS' }); // NO at 0.53
+  });
+
+  it('should cap take profit at a share price of 1.0', () => {
+    const manager = new StopLossManager({
+      entryPrice: price(0.9),
+      stopLossPercent: 0.5,
+      takeProfitPercent: 0.5,
+      outcome: 'YES'
+    });
+
+    expect(manager.updateMarketPrice(PRICE_SCALE)).toEqual({ shouldExit: true, reason: 'TAKE_PROFIT' });
+  });
+
+  it('should value outcome positions as probabilities', () => {
+    const position = {
+      marketId: 'A',
+      outcome: 'YES' as const,
+      position: ONE_ETH * 10n,
+      entryPrice: price(0.5),
+      currentPrice: price(0.4),
+      timestamp: 0
+    };
+    expect(positionValue(position)).toBe(ONE_ETH * 4n);
+
+    const balancer = new PortfolioBalancer(new Map([['A', 1.0]]), 0.05);
+    const concentration = balancer.calculateConcentrationRisk({
+      totalValue: ONE_ETH * 8n,
+      positions: [position],
+      cash: ONE_ETH * 4n,
+      lastRebalance: 0
+    });
+    expect(concentration).toBeCloseTo(0.5);
+  });
+});
+
+describe('Agent Market Resolution', () => {
+  let bot: ConservativeBot;
+  let auditLogger: AuditLogger;
+
+  function market(yesPrice: bigint): MarketData {
+    return {
+      marketId: 'ELECTION',
+      currentPrice: yesPrice,
+      liquidity: ONE_ETH * 1000n,
+      volume24h: ONE_ETH * 100n,
+      volatility: 0.1,
+      timestamp: Date.now()
+    };
+  }
+
+  function predict(outcome: 'YES' | 'NO'): Prediction {
+    return { marketId: 'ELECTION', outcome, confidence: 0.8, expectedValue: 0.4, timestamp: Date.now() };
+  }
+
+  beforeEach(async () => {
+    auditLogger = new AuditLogger({ mode: 'local' });
+    bot = new ConservativeBot({
+      wallet: { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n },
+      auditLogger
+    });
+    bot.setVenue(new PaperTradingVenue({
+      initialBalance: ONE_ETH * 10n,
+      fillModel: new MidPriceFillModel(),
+      maxLiquidityPercent: 1.0
+    }));
+    bot.updateOraclePrices({ chainlink: price(0.4), uniswap: price(0.4), binance: price(0.4) }, Date.now());
+    await bot.start();
+  });
+
+  it('should stay out on a bare NO prediction', async () => {
+    expect(await bot.processMarketData(market(price(0.4)), predict('NO'))).toBeNull();
+    expect(bot.getPortfolio().positions.length).toBe(0);
+  });
+
+  it('should keep the balanced bot out on a bare NO prediction', async () => {
+    const balanced = new BalancedBot({ wallet: { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n }, auditLogger });
+    balanced.updateOraclePrices({ chainlink: price(0.4), uniswap: price(0.4), binance: price(0.4) }, Date.now());
+    await balanced.start();
+
+    expect(await balanced.processMarketData(market(price(0.4)), predict('NO'))).toBeNull();
+    const backNo = await balanced.processMarketData(market(price(0.4)), { ...predict('NO'), distribution: { YES: 0.2, NO: 0.8 } });
+    expect(backNo).toMatchObject({ action: 'BUY', outcome: 'NO' });
+  });
+
+  it('should buy NO shares at the complement price', async () => {
+    const backNo: Prediction = { ...predict('NO'), distribution: { YES: 0.2, NO: 0.8 } };
+    const decision = await bot.processMarketData(market(price(0.4)), backNo);
+    expect(decision?.outcome).toBe('NO');
+    expect(await bot.executeTrade(decision!)).toBe(true);
+
+    const position = bot.getPortfolio().positions[0];
+    expect(position?.outcome).toBe('NO');
+    expect(position?.entryPrice).toBe(price(0.6));
+
+    // YES rallies, so NO shares lose value
+    await bot.processMarketData(market(price(0.7)), predict('NO'));
+    expect(bot.getPortfolio().positions[0]?.currentPrice).toBe(price(0.3));
+  });
+
+  it('should settle positions to cash and record realized PnL', async () => {
+    const decision = await bot.processMarketData(market(price(0.4)), predict('YES'));
+    await bot.executeTrade(decision!);
+    const shares = bot.getPortfolio().positions[0]!.position;
+    const cashBefore = bot.getPortfolio().cash;
+
+    const [settlement] = await bot.resolveMarket({ marketId: 'ELECTION', outcome: 'YES', timestamp: Date.now() });
+
+    expect(settlement?.payout).toBe(shares);
+    expect(settlement?.realizedPnl).toBeGreaterThan(0n);
+    expect(bot.getPortfolio().positions.length).toBe(0);
+    expect(bot.getPortfolio().cash).toBe(cashBefore + shares);
+
+    const logged = auditLogger.getEntries().find(e => e.type === 'MARKET_RESOLVED');
+    expect(logged?.data.realizedPnl).toBe(settlement?.realizedPnl);
+  });
+
+  it('should stop trading resolved markets', async () => {
+    await bot.resolveMarket({ marketId: 'ELECTION', outcome: 'NO', timestamp: Date.now() });
+
+    expect(await bot.processMarketData(market(price(0.4)), predict('YES'))).toBeNull();
+    await expect(bot.resolveMarket({ marketId: 'ELECTION', outcome: 'NO', timestamp: Date.now() })).rejects.toThrow();
+  });
+
+  it('should skip outcomes priced above the predicted probability', async () => {
+    // 80% confident but YES already costs 0.85
+    expect(await bot.processMarketData(market(price(0.85)), predict('YES'))).toBeNull();
+  });
+
+  it('should reject prices outside [0, 1]', async () => {
+    expect(await bot.processMarketData(market(PRICE_SCALE * 2n), predict('YES'))).toBeNull();
+    expect(auditLogger.getEntries().some(e => e.type === 'INVALID_MARKET_DATA')).toBe(true);
+  });
+});
+
+describe('Agent Categorical Markets', () => {
+  let bot: ConservativeBot;
+  let auditLogger: AuditLogger;
+
+  const election: MarketData = {
+    marketId: 'ELECTION',
+    currentPrice: price(0.2),
+    liquidity: ONE_ETH * 1000n,
+    volume24h: ONE_ETH * 100n,
+    volatility: 0.1,
+    timestamp: Date.now(),
+    outcomes: [
+      { outcome: 'ALICE', price: price(0.2), liquidity: ONE_ETH * 100n },
+      { outcome: 'BOB', price: price(0.5), liquidity: ONE_ETH * 100n },
+      { outcome: 'CAROL', price: price(0.3), liquidity: ONE_ETH * 100n }
+    ]
+  };
+
+  function predict(distribution: Record<string, number>): Prediction {
+    return {
+      marketId: 'ELECTION',
+      outcome: 'BOB',
+      confidence: 0.75,
+      expectedValue: 0.2,
+      distribution,
+      timestamp: Date.now()
+    };
+  }
+
+  beforeEach(async () => {
+    auditLogger = new AuditLogger({ mode: 'local' });
+    bot = new ConservativeBot({
+      wallet: { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n },
+      auditLogger
+    });
+    bot.setVenue(new PaperTradingVenue({
+      initialBalance: ONE_ETH * 10n,
+      fillModel: new MidPriceFillModel(),
+      maxLiquidityPercent: 1.0
+    }));
+    bot.updateOraclePrices({ chainlink: price(0.2), uniswap: price(0.2), binance: price(0.2) }, Date.now());
+    await bot.start();
+  });
+
+  it('should buy the outcome with the largest edge over its price', async () => {
+    const decision = await bot.processMarketData(election, predict({ ALICE: 0.75, BOB: 0.15, CAROL: 0.1 }));
+
+    expect(decision?.outcome).toBe('ALICE');
+    expect(decision?.confidence).toBe(0.75);
+    expect(await bot.executeTrade(decision!)).toBe(true);
+
+    const position = bot.getPortfolio().positions[0];
+    expect(position?.outcome).toBe('ALICE');
+    expect(position?.entryPrice).toBe(price(0.2));
+  });
+
+  it('should not trade when no outcome is underpriced', async () => {
+    expect(await bot.processMarketData(election, predict({ ALICE: 0.2, BOB: 0.5, CAROL: 0.3 }))).toBeNull();
+  });
+
+  it('should settle the winning outcome on resolution', async () => {
+    const decision = await bot.processMarketData(election, predict({ ALICE: 0.75, BOB: 0.15, CAROL: 0.1 }));
+    await bot.executeTrade(decision!);
+    const shares = bot.getPortfolio().positions[0]!.position;
+
+    const [settlement] = await bot.resolveMarket({ marketId: 'ELECTION', outcome: 'ALICE', timestamp: Date.now() });
+    expect(settlement?.payout).toBe(shares);
+  });
+
+  it('should reject markets with duplicate outcomes', async () => {
+    const invalid = { ...election, outcomes: [election.outcomes![0]!, election.outcomes![0]!] };
+
+    expect(await bot.processMarketData(invalid, predict({ ALICE: 1 }))).toBeNull();
+    expect(auditLogger.getEntries().some(e => e.type === 'INVALID_MARKET_DATA')).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Audit Query Test Suite
+ *
+ * Tests for the offline audit query tool:
+ * - Filtering by agent, type, market and time range
+ * - Integrity verification of persisted and exported trails
+ * - Summaries of halts, alerts and trades
+ * - Table, JSON and CSV output
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../audit/audit-trail';
+import { loadTrail, parseTime, runAuditQuery, summarizeEntries } from '../audit/query';
+import { FixedClock, SimulatedClock } from '../utils/clock';
+import { ConservativeBot } from '../agents/conservative-bot';
+import { MarketData, Prediction } from '../agents/base-agent';
+
+const ONE = BigInt('1000000000000000000');
+const HOUR = 3600000;
+const START = Date.parse('2024-03-01T12:00:00Z');
+
+describe('Audit Queries', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predicguard-query-'));
+    logPath = path.join(dir, 'audit.jsonl');
+
+    const clock = new SimulatedClock(START);
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    const decision = { action: 'BUY', amount: 100n, marketId: 'ELECTION', outcome: 'YES', reason: 'Edge, "strong"', confidence: 0.8 };
+
+    await logger.log({ type: 'LOW_CONFIDENCE', agent: 'ConservativeBot', data: { marketId: 'ETH-USD', confidence: 0.55, threshold: 0.7 }, timestamp: clock.now() });
+    clock.advance(HOUR);
+    await logger.log({ type: 'DRAWDOWN_HALT', agent: 'BalancedBot', data: { marketId: 'ETH-USD', status: { canTrade: false, drawdownPercent: 0.2, dailyDrawdownPercent: 0.06, status: 'CRITICAL' } }, timestamp: clock.now() });
+    clock.advance(HOUR);
+    await logger.logSecurityAlert({ agent: 'ConservativeBot', alertType: 'WHALE_ORDER', severity: 'CRITICAL', details: { marketId: 'ETH-USD' } });
+    await logger.log({ type: 'TRADE_DECISION', agent: 'ConservativeBot', data: { decision }, timestamp: clock.now() });
+    await logger.log({ type: 'TRADE_EXECUTED', agent: 'ConservativeBot', data: { decision, price: 5n, amount: 20n }, timestamp: clock.now() });
+    await logger.log({ type: 'POSITION_UPDATE', agent: 'ConservativeBot', data: { marketId: 'ELECTION', outcome: 'YES', amount: 20n, price: 5n, isBuy: false, realizedPnl: 7n, portfolio: {} }, timestamp: clock.now() });
+    logger.close();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list why an agent skipped a market', () => {
+    const result = runAuditQuery([logPath, '--agent', 'ConservativeBot', '--market', 'ETH-USD', '--type', 'LOW_CONFIDENCE,DRAWDOWN_HALT']);
+    const lines = result.output.split('\n');
+
+    expect(result.exitCode).toBe(0);
+    expect(result.warnings).toEqual([]);
+    expect(lines.length).toBe(3);
+    expect(lines[2]).toContain('LOW_CONFIDENCE');
+    expect(lines[2]).toContain('confidence=0.55 threshold=0.7');
+  });
+
+  it('should filter by time range', () => {
+    const clock = new FixedClock(START + 3 * HOUR);
+    const result = runAuditQuery([logPath, '--since', '2h', '--until', String(START + HOUR), '--format', 'json'], clock);
+    const entries = JSON.parse(result.output);
+
+    expect(entries.map((e: any) => e.type)).toEqual(['DRAWDOWN_HALT']);
+  });
+
+  it('should write CSV with quoted cells', () => {
+    const result = runAuditQuery([logPath, '--type', 'TRADE_DECISION', '--format', 'csv']);
+    const [header, row] = result.output.split('\n');
+
+    expect(header).toBe('time,sequence,agent,type,market,details');
+    expect(row).toContain('"decision.action=BUY decision.amount=100 decision.marketId=ELECTION');
+    expect(row).toContain('decision.reason=Edge, ""strong""');
+  });
+
+  it('should write JSON that loads back as a trail', () => {
+    const exported = path.join(dir, 'export.json');
+    fs.writeFileSync(exported, runAuditQuery([logPath, '--format', 'json']).output);
+
+    const reloaded = loadTrail([exported]);
+    expect(reloaded).toEqual(loadTrail([logPath]));
+    expect(runAuditQuery(['verify', exported]).exitCode).toBe(0);
+  });
+
+  it('should read exportToJson files', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath });
+    const exported = path.join(dir, 'logger-export.json');
+    fs.writeFileSync(exported, logger.exportToJson());
+    logger.close();
+
+    expect(loadTrail([exported]).length).toBe(6);
+  });
+
+  it('should summarize halts, alerts and trades', () => {
+    const summary = summarizeEntries(loadTrail([logPath]));
+
+    expect(summary.halts).toEqual({ LOW_CONFIDENCE: 1, DRAWDOWN_HALT: 1 });
+    expect(summary.alerts).toEqual({ total: 1, byType: { WHALE_ORDER: 1 }, bySeverity: { CRITICAL: 1 } });
+    expect(summary.trades).toEqual({ decisions: 1, executed: 1, failed: 0, buys: 1, sells: 0, realizedPnl: 7n });
+    expect(summary.markets['ETH-USD']).toEqual({ halts: 2, alerts: 1, executed: 0 });
+
+    const json = JSON.parse(runAuditQuery(['summary', logPath, '--format', 'json']).output);
+    expect(json.trades.realizedPnl).toBe('7');
+  });
+
+  it('should count each halt of an agent run once', async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    const bot = new ConservativeBot({ wallet: { address: '0x' + '1'.repeat(40), balance: ONE * 10n }, auditLogger: logger });
+    const market = (volatility: number): MarketData => ({
+      marketId: 'M1', currentPrice: ONE / 2n, liquidity: ONE * 1000n, volume24h: ONE * 100n, volatility, timestamp: Date.now()
+    });
+    const prediction = (confidence: number): Prediction => ({ marketId: 'M1', outcome: 'YES', confidence, expectedValue: 0.4, timestamp: Date.now() });
+    await bot.start();
+
+    await bot.processMarketData(market(0.1), prediction(0.8)); // No oracle prices yet
+    bot.updateOraclePrices({ chainlink: ONE / 2n, uniswap: ONE / 2n, binance: ONE / 2n }, Date.now());
+    await bot.processMarketData(market(0.5), prediction(0.8)); // Too volatile
+    await bot.processMarketData(market(0.1), prediction(0)); // No signal
+    await bot.ingestTrades([{ id: 't1', marketId: 'M1', buyer: '0xA', seller: '0xa', amount: ONE, price: ONE / 2n, timestamp: Date.now(), blockNumber: 1 }]);
+    await bot.processMarketData(market(0.1), prediction(0.8)); // Self-trading blocks the market
+
+    const summary = summarizeEntries(logger.getEntries());
+    expect(logger.getEntries({ type: 'NO_TRADE' }).map(e => e.data.blockedBy)).toEqual(['ORACLE', 'STRATEGY', 'STRATEGY', 'MANIPULATION']);
+    expect(summary.halts).toEqual({ ORACLE_UNHEALTHY: 1, HIGH_VOLATILITY_SKIP: 1, NO_TRADE: 1 });
+    expect(summary.markets.M1?.halts).toBe(3);
+  });
+
+  it('should verify integrity and flag tampering', () => {
+    expect(runAuditQuery(['verify', logPath]).output).toBe('VALID: 6 entries, 0 issues');
+
+    const lines = fs.readFileSync(logPath, 'utf8').split('\n');
+    lines[0] = lines[0]!.replace('0.55', '0.95');
+    fs.writeFileSync(logPath, lines.join('\n'));
+
+    const verify = runAuditQuery(['verify', logPath]);
+    expect(verify.exitCode).toBe(1);
+    expect(verify.output).toMatch(/^INVALID: 6 entries/);
+
+    expect(runAuditQuery([logPath]).warnings).toEqual([]);
+    const list = runAuditQuery([logPath, '--verify']);
+    expect(list.warnings[0]).toContain('Audit trail failed verification');
+  });
+
+  it('should summarize trails too long to spread into arguments', () => {
+    const entries = Array.from({ length: 200000 }, (_, i) => ({ type: 'TEST', agent: 'TestAgent', data: {}, timestamp: START + i }));
+    expect(summarizeEntries(entries).timeRange).toEqual({ start: START, end: START + 199999 });
+  });
+
+  it('should build reports on AuditVerifier.generateReport', () => {
+    const report = JSON.parse(runAuditQuery(['report', logPath, '--agent', 'BalancedBot'], new FixedClock(42)).output);
+
+    expect(report.statistics.total).toBe(1);
+    expect(report.generatedAt).toBe(42);
+  });
+
+  it('should reject bad options', () => {
+    expect(() => runAuditQuery([logPath, '--format', 'xml'])).toThrow('Unknown format: xml');
+    expect(() => runAuditQuery(['summary'])).toThrow('No audit trail given');
+    expect(() => parseTime('yesterday')).toThrow('Invalid time: yesterday');
+    expect(parseTime('2024-03-01T12:00:00Z')).toBe(START);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * Reconciliation Test Suite
+ *
+ * Tests for matching the local audit log against PredicGuardAudit:
+ * - Entries missing on-chain
+ * - On-chain entries without a local counterpart
+ * - Timestamp and type mismatches
+ */
+
+import { ethers } from 'ethers';
+import { AuditEntry, AuditLogger } from '../audit/audit-trail';
+import { AuditReconciler, OnChainAuditSource, OnChainEntry } from '../audit/reconciliation';
+import { FixedClock } from '../utils/clock';
+
+const SUBMITTER = '0x' + '1'.repeat(40);
+
+/**
+ * Source backed by a list of anchored entries, some only reachable through getAgentEntries
+ */
+class InMemoryAuditSource implements OnChainAuditSource {
+  reads: number = 0;
+  maxInFlight: number = 0;
+  private inFlight: number = 0;
+
+  constructor(private logged: OnChainEntry[], private indexedOnly: OnChainEntry[] = []) {}
+
+  async getLoggedEntries(options: { submitter?: string }): Promise<OnChainEntry[]> {
+    return this.logged.filter(e => !options.submitter || e.submitter === options.submitter);
+  }
+
+  async getAgentEntries(submitter: string): Promise<string[]> {
+    return [...this.logged, ...this.indexedOnly].filter(e => e.submitter === submitter).map(e => e.hash);
+  }
+
+  async getEntry(hash: string): Promise<OnChainEntry | null> {
+    this.reads++;
+    this.maxInFlight = Math.max(this.maxInFlight, ++this.inFlight);
+    await new Promise(resolve => setImmediate(resolve)); // Simulated RPC round trip
+    this.inFlight--;
+    return [...this.logged, ...this.indexedOnly].find(e => e.hash === hash) || null;
+  }
+}
+
+function anchored(entry: AuditEntry): OnChainEntry {
+  return {
+    hash: entry.hash!,
+    timestamp: Math.floor(entry.timestamp / 1000),
+    entryType: entry.type,
+    submitter: SUBMITTER
+  };
+}
+
+describe('Audit Reconciler', () => {
+  let entries: AuditEntry[];
+
+  beforeEach(async () => {
+    const logger = new AuditLogger({ mode: 'local' });
+    for (let i = 0; i < 4; i++) {
+      await logger.log({ type: i % 2 ? 'TRADE' : 'PREDICTION', agent: 'TestAgent', data: { i }, timestamp: 1700000000000 + i * 1000 });
+    }
+    entries = logger.getEntries();
+  });
+
+  it('should report a fully anchored log as consistent', async () => {
+    const reconciler = new AuditReconciler(new InMemoryAuditSource(entries.map(anchored)));
+    const report = await reconciler.reconcile(entries, { submitter: SUBMITTER });
+
+    expect(report.consistent).toBe(true);
+    expect(report.matched).toBe(4);
+    expect(report.onChainCount).toBe(4);
+  });
+
+  it('should report entries missing on-chain', async () => {
+    const reconciler = new AuditReconciler(new InMemoryAuditSource(entries.slice(0, 3).map(anchored)));
+    const report = await reconciler.reconcile(entries, { submitter: SUBMITTER });
+
+    expect(report.consistent).toBe(false);
+    expect(report.missingOnChain).toEqual([
+      { hash: entries[3]!.hash, sequence: 3, type: 'TRADE', timestamp: entries[3]!.timestamp }
+    ]);
+  });
+
+  it('should ignore entries logged after the cutoff', async () => {
+    const reconciler = new AuditReconciler(new InMemoryAuditSource(entries.slice(0, 3).map(anchored)));
+    const report = await reconciler.reconcile(entries, { submitter: SUBMITTER, until: entries[2]!.timestamp });
+
+    expect(report.consistent).toBe(true);
+    expect(report.localCount).toBe(3);
+  });
+
+  it('should report on-chain entries with no local counterpart', async () => {
+    const foreign: OnChainEntry = { hash: ethers.id('foreign'), timestamp: 1700000000, entryType: 'TRADE', submitter: SUBMITTER };
+    const reconciler = new AuditReconciler(new InMemoryAuditSource([...entries.map(anchored), foreign]));
+    const report = await reconciler.reconcile(entries, { submitter: SUBMITTER });
+
+    expect(report.unknownOnChain).toEqual([foreign]);
+  });
+
+  it('should report timestamp and type mismatches', async () => {
+    const onChain = entries.map(anchored);
+    onChain[0]!.timestamp += 60;
+    onChain[1]!.entryType = 'PREDICTION';
+
+    const report = await new AuditReconciler(new InMemoryAuditSource(onChain)).reconcile(entries, { submitter: SUBMITTER });
+
+    expect(report.mismatches).toEqual([
+      { hash: entries[0]!.hash, field: 'timestamp', local: 1700000000, onChain: 1700000060 },
+      { hash: entries[1]!.hash, field: 'type', local: 'TRADE', onChain: 'PREDICTION' }
+    ]);
+  });
+
+  it('should ignore entries anchored by other wallets', async () => {
+    const other: OnChainEntry = { hash: ethers.id('other'), timestamp: 1700000000, entryType: 'TRADE', submitter: '0x' + '2'.repeat(40) };
+    const report = await new AuditReconciler(new InMemoryAuditSource([...entries.map(anchored), other])).reconcile(entries, { submitter: SUBMITTER });
+
+    expect(report.consistent).toBe(true);
+    expect(report.onChainCount).toBe(4);
+  });
+
+  it('should use the submitter index for entries outside the event range', async () => {
+    const source = new InMemoryAuditSource(entries.slice(2).map(anchored), entries.slice(0, 2).map(anchored));
+    const report = await new AuditReconciler(source).reconcile(entries, { submitter: SUBMITTER });
+
+    expect(report.matched).toBe(4);
+    expect(report.consistent).toBe(true);
+  });
+
+  it('should read index-only entries in parallel up to the concurrency limit', async () => {
+    const indexedOnly = Array.from({ length: 50 }, (_, i) => ({
+      hash: ethers.id(`indexed-${i}`),
+      timestamp: 1700000000 + i,
+      entryType: 'TRADE',
+      submitter: SUBMITTER
+    }));
+    const source = new InMemoryAuditSource(entries.map(anchored), indexedOnly);
+    const report = await new AuditReconciler(source).reconcile(entries, { submitter: SUBMITTER, concurrency: 8 });
+
+    expect(source.reads).toBe(50);
+    expect(source.maxInFlight).toBe(8);
+    expect(report.matched).toBe(4);
+    expect(report.unknownOnChain.map(e => e.hash)).toEqual(indexedOnly.map(e => e.hash));
+  });
+
+  it('should generate a machine-readable report', async () => {
+    const reconciler = new AuditReconciler(new InMemoryAuditSource([]), new FixedClock(42));
+    const report = JSON.parse(await reconciler.generateReport(entries, { submitter: SUBMITTER }));
+
+    expect(report.consistent).toBe(false);
+    expect(report.missingOnChain.length).toBe(4);
+    expect(report.submitter).toBe(SUBMITTER);
+    expect(report.generatedAt).toBe(42);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,402 @@
+/**
+ * Recovery Test Suite
+ *
+ * Tests for rebuilding agent state from a persisted audit trail:
+ * - Positions, cash and settled markets
+ * - Stop losses and drawdown cooldowns
+ * - Subclass state such as the aggressive bot's active trades
+ * - Verification against the last logged snapshot
+ * - Versioned snapshots proven against logged checkpoints
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLogger } from '../audit/audit-trail';
+import { AuditReplayer, ReplayOptions } from '../audit/replay';
+import { ConservativeBot } from '../agents/conservative-bot';
+import { AggressiveBot } from '../agents/aggressive-bot';
+import { MarketData, TradeDecision } from '../agents/base-agent';
+import { MidPriceFillModel, PaperTradingVenue } from '../execution/venues';
+import { PRICE_SCALE } from '../markets/outcome-shares';
+import { AgentSnapshot, hashSnapshot, parseSnapshot, serializeSnapshot } from '../agents/snapshot';
+import { StopLossManager } from '../risk/position-sizing';
+import { SimulatedClock } from '../utils/clock';
+
+const ONE_ETH = BigInt('1000000000000000000');
+const WALLET = { address: '0x' + '1'.repeat(40), balance: ONE_ETH * 10n };
+const price = (probability: number): bigint => (PRICE_SCALE * BigInt(Math.round(probability * 100))) / 100n;
+
+const REPLAY_OPTIONS: ReplayOptions = {
+  agent: 'ConservativeBot',
+  stopLoss: { stopLossPercent: 0.02 },
+  drawdown: { maxDailyDrawdownPercent: 0.02, maxTotalDrawdownPercent: 0.1, cooldownPeriodMs: 3600000, pauseOnTrigger: true }
+};
+
+describe('Audit Replay Recovery', () => {
+  let dir: string;
+  let logPath: string;
+  let clock: SimulatedClock;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predicguard-recovery-'));
+    logPath = path.join(dir, 'audit.jsonl');
+    clock = new SimulatedClock(1700000000000);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function market(marketId: string, yesPrice: bigint): MarketData {
+    return {
+      marketId,
+      currentPrice: yesPrice,
+      liquidity: ONE_ETH * 1000n,
+      volume24h: ONE_ETH * 100n,
+      volatility: 0.1,
+      timestamp: clock.now()
+    };
+  }
+
+  function trade(action: 'BUY' | 'SELL', marketId: string, outcome: string, amount: bigint): TradeDecision {
+    return { action, amount, marketId, outcome, reason: 'test', confidence: 0.9 };
+  }
+
+  function conservative(auditLogger: AuditLogger): ConservativeBot {
+    const bot = new ConservativeBot({ wallet: WALLET, auditLogger, clock });
+    bot.setVenue(new PaperTradingVenue({ initialBalance: WALLET.balance, fillModel: new MidPriceFillModel(), maxLiquidityPercent: 1.0, clock }));
+    return bot;
+  }
+
+  function reopen(): AuditLogger {
+    return new AuditLogger({ mode: 'local', localPath: logPath, clock });
+  }
+
+  async function tradeSession(bot: ConservativeBot): Promise<void> {
+    await bot.start();
+    await bot.processMarketData(market('ELECTION', price(0.4)), { marketId: 'ELECTION', outcome: 'YES', confidence: 0, expectedValue: 0, timestamp: clock.now() });
+    await bot.processMarketData(market('RATES', price(0.7)), { marketId: 'RATES', outcome: 'NO', confidence: 0, expectedValue: 0, timestamp: clock.now() });
+
+    await bot.executeTrade(trade('BUY', 'ELECTION', 'YES', ONE_ETH));
+    clock.advance(60000);
+    await bot.executeTrade(trade('BUY', 'RATES', 'NO', ONE_ETH / 2n));
+    await bot.processMarketData(market('ELECTION', price(0.5)), { marketId: 'ELECTION', outcome: 'YES', confidence: 0, expectedValue: 0, timestamp: clock.now() });
+    clock.advance(60000);
+    await bot.executeTrade(trade('SELL', 'ELECTION', 'YES', ONE_ETH));
+  }
+
+  it('should rebuild positions and cash after a restart', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    const original = conservative(logger);
+    await tradeSession(original);
+    const expected = original.getPortfolio();
+    logger.close();
+
+    const recovered = conservative(reopen());
+    const result = await recovered.recoverFromAuditTrail();
+
+    expect(expected.positions.length).toBe(2);
+    expect(result.consistent).toBe(true);
+    expect(result.snapshot?.type).toBe('POSITION_UPDATE');
+    expect(recovered.getPortfolio().cash).toBe(expected.cash);
+    expect(recovered.getPortfolio().totalValue).toBe(expected.totalValue);
+    expect(recovered.getPortfolio().positions.map(p => [p.marketId, p.outcome, p.position, p.entryPrice]))
+      .toEqual(expected.positions.map(p => [p.marketId, p.outcome, p.position, p.entryPrice]));
+  });
+
+  it('should sell recovered positions through the agent venue', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    await tradeSession(conservative(logger));
+    logger.close();
+
+    const recovered = conservative(reopen());
+    await recovered.recoverFromAuditTrail();
+    const cash = recovered.getPortfolio().cash;
+    const held = recovered.getPortfolio().positions.find(p => p.marketId === 'RATES')!.position;
+    expect(await recovered.getVenue().getBalance()).toBe(cash);
+
+    clock.advance(60000);
+    await recovered.processMarketData(market('RATES', price(0.7)), { marketId: 'RATES', outcome: 'NO', confidence: 0, expectedValue: 0, timestamp: clock.now() });
+    expect(await recovered.executeTrade(trade('SELL', 'RATES', 'NO', ONE_ETH))).toBe(true);
+
+    expect(recovered.getPortfolio().positions.find(p => p.marketId === 'RATES')?.position ?? 0n).toBeLessThan(held);
+    expect(recovered.getPortfolio().cash).toBeGreaterThan(cash);
+    expect(await recovered.getVenue().getBalance()).toBe(recovered.getPortfolio().cash);
+  });
+
+  it('should replay archived segments after the log rotates', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    const original = conservative(logger);
+    await tradeSession(original);
+    await logger.rotate();
+    clock.advance(60000);
+    await original.executeTrade(trade('BUY', 'ELECTION', 'YES', ONE_ETH / 4n));
+    const expected = original.getPortfolio();
+    logger.close();
+
+    const restarted = reopen();
+    expect(restarted.getEntries({ type: 'AGENT_START' })).toEqual([]);
+    expect(() => new AuditReplayer(REPLAY_OPTIONS).replay(restarted.getEntries())).toThrow('include the archived segments');
+
+    const recovered = conservative(restarted);
+    const result = await recovered.recoverFromAuditTrail();
+
+    expect(result.consistent).toBe(true);
+    expect(recovered.getPortfolio().cash).toBe(expected.cash);
+    expect(recovered.getPortfolio().positions.map(p => [p.marketId, p.outcome, p.position]))
+      .toEqual(expected.positions.map(p => [p.marketId, p.outcome, p.position]));
+  });
+
+  it('should rebuild stop losses for open positions', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    await tradeSession(conservative(logger));
+    logger.close();
+
+    const result = await conservative(reopen()).recoverFromAuditTrail();
+    const stops = result.stopLosses.map(s => `${s.marketId}:${s.outcome}`);
+
+    expect(stops.sort()).toEqual(['ELECTION:YES', 'RATES:NO']);
+    const rates = result.stopLosses.find(s => s.marketId === 'RATES')!;
+    expect(rates.manager.updatePrice(price(0.2)).shouldExit).toBe(true);
+  });
+
+  it('should keep resolved markets settled', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    const original = conservative(logger);
+    await tradeSession(original);
+    await original.resolveMarket({ marketId: 'RATES', outcome: 'NO', timestamp: clock.now() });
+    logger.close();
+
+    const recovered = conservative(reopen());
+    const result = await recovered.recoverFromAuditTrail();
+
+    expect(result.snapshot?.type).toBe('MARKET_RESOLVED');
+    expect(recovered.getPortfolio().cash).toBe(original.getPortfolio().cash);
+    expect(recovered.getPortfolio().positions.some(p => p.marketId === 'RATES')).toBe(false);
+    await expect(recovered.resolveMarket({ marketId: 'RATES', outcome: 'NO', timestamp: clock.now() })).rejects.toThrow();
+  });
+
+  it('should log the recovery as a new snapshot', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    await tradeSession(conservative(logger));
+    logger.close();
+
+    const restarted = reopen();
+    await conservative(restarted).recoverFromAuditTrail();
+    const [recovery] = restarted.getEntries({ type: 'STATE_RECOVERED' });
+
+    expect(recovery?.data.snapshotSequence).toBe(restarted.getEntries({ type: 'POSITION_UPDATE' }).pop()?.sequence);
+    expect(recovery?.flags).toBeUndefined();
+  });
+
+  it('should report a replay that does not match the last snapshot', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    await tradeSession(conservative(logger));
+    logger.close();
+
+    const result = new AuditReplayer({ ...REPLAY_OPTIONS, initialBalance: WALLET.balance - 1n }).replay(reopen().getEntries());
+
+    expect(result.consistent).toBe(false);
+    expect(result.mismatches[0]).toEqual({
+      field: 'cash',
+      replayed: result.portfolio.cash.toString(),
+      logged: (result.portfolio.cash + 1n).toString()
+    });
+  });
+
+  it('should refuse a trail that fails verification', async () => {
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    await tradeSession(conservative(logger));
+    logger.close();
+
+    const entries = reopen().getEntries();
+    const update = entries.find(e => e.type === 'POSITION_UPDATE')!;
+    update.data.amount = update.data.amount * 2n;
+
+    expect(() => new AuditReplayer(REPLAY_OPTIONS).replay(entries)).toThrow('Audit trail failed verification');
+  });
+
+  it('should restore drawdown cooldowns from logged halts', async () => {
+    const logger = new AuditLogger({ mode: 'local', clock });
+    await logger.log({ type: 'AGENT_START', agent: 'ConservativeBot', data: { config: {}, balance: WALLET.balance }, timestamp: clock.now() });
+    clock.advance(1000);
+    await logger.log({
+      type: 'DRAWDOWN_HALT',
+      agent: 'ConservativeBot',
+      data: { status: { canTrade: false, drawdownPercent: 0.12, dailyDrawdownPercent: 0.03, status: 'CRITICAL' } },
+      timestamp: clock.now()
+    });
+
+    const { drawdown } = new AuditReplayer(REPLAY_OPTIONS).replay(logger.getEntries());
+
+    expect(drawdown.inCooldown).toBe(true);
+    expect(drawdown.cooldownEnd).toBe(clock.now() + 3600000);
+    expect(drawdown.triggeredCount).toBe(1);
+    expect(drawdown.peakValue).toBe(WALLET.balance);
+  });
+
+  it('should list trades that were started but never confirmed', async () => {
+    const logger = new AuditLogger({ mode: 'local', clock });
+    const decision = trade('BUY', 'ELECTION', 'YES', ONE_ETH);
+    await logger.log({ type: 'AGENT_START', agent: 'ConservativeBot', data: { config: {}, balance: WALLET.balance }, timestamp: clock.now() });
+    await logger.log({ type: 'EXECUTING_TRADE', agent: 'ConservativeBot', data: { decision }, timestamp: clock.now() });
+
+    const result = new AuditReplayer(REPLAY_OPTIONS).replay(logger.getEntries());
+
+    expect(result.unconfirmedTrades).toEqual([decision]);
+    expect(result.snapshot).toBeNull();
+  });
+
+  it('should rebuild the aggressive bot active trades', async () => {
+    const aggressive = (auditLogger: AuditLogger): AggressiveBot => {
+      const bot = new AggressiveBot({ wallet: WALLET, auditLogger, clock });
+      bot.setVenue(new PaperTradingVenue({ initialBalance: WALLET.balance, fillModel: new MidPriceFillModel(), maxLiquidityPercent: 1.0, clock }));
+      return bot;
+    };
+
+    const logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+    const original = aggressive(logger);
+    await original.start();
+    await original.processMarketData(market('ELECTION', price(0.4)), { marketId: 'ELECTION', outcome: 'YES', confidence: 0, expectedValue: 0, timestamp: clock.now() });
+    await original.executeTrade(trade('BUY', 'ELECTION', 'YES', ONE_ETH));
+    logger.close();
+
+    clock.advance(60000);
+    const recovered = aggressive(reopen());
+    await recovered.recoverFromAuditTrail();
+
+    expect(recovered.getActiveTradeStats()).toEqual(expect.objectContaining({ count: 1, avgHoldTime: 60000 }));
+  });
+});
+
+describe('Agent Snapshots', () => {
+  let clock: SimulatedClock;
+  let logger: AuditLogger;
+
+  beforeEach(() => {
+    clock = new SimulatedClock(1700000000000);
+    logger = new AuditLogger({ mode: 'local', clock });
+  });
+
+  function conservative(): ConservativeBot {
+    const bot = new ConservativeBot({ wallet: WALLET, auditLogger: logger, clock });
+    bot.setVenue(new PaperTradingVenue({ initialBalance: WALLET.balance, fillModel: new MidPriceFillModel(), maxLiquidityPercent: 1.0, clock }));
+    return bot;
+  }
+
+  async function tradedBot(): Promise<ConservativeBot> {
+    const bot = conservative();
+    bot.updateOraclePrices({ chainlink: price(0.4), uniswap: price(0.4), binance: price(0.4) }, clock.now());
+    await bot.start();
+    await bot.processMarketData(
+      { marketId: 'ELECTION', currentPrice: price(0.4), liquidity: ONE_ETH * 1000n, volume24h: 0n, volatility: 0.1, timestamp: clock.now() },
+      { marketId: 'ELECTION', outcome: 'YES', confidence: 0, expectedValue: 0, timestamp: clock.now() }
+    );
+    await bot.executeTrade({ action: 'BUY', amount: ONE_ETH, marketId: 'ELECTION', outcome: 'YES', reason: 'test', confidence: 0.9 });
+    return bot;
+  }
+
+  it('should restore the full state from a checkpointed snapshot', async () => {
+    const original = await tradedBot();
+    const { snapshot, hash } = await original.checkpoint();
+    const stored = serializeSnapshot(snapshot);
+
+    const restored = conservative();
+    const checkpoint = await restored.restoreSnapshot(parseSnapshot(stored));
+
+    expect(checkpoint.data.hash).toBe(hash);
+    expect(hashSnapshot({ ...restored.getSnapshot(), takenAt: snapshot.takenAt })).toBe(hash);
+    expect(restored.getPortfolio().positions.length).toBe(1);
+    expect(restored.getSnapshot().detectors.oracle.sourceStates.size).toBe(3);
+    expect(logger.getEntries().pop()?.type).toBe('STATE_RESTORED');
+  });
+
+  it('should sell positions restored from a snapshot', async () => {
+    const { snapshot } = await (await tradedBot()).checkpoint();
+
+    const restored = conservative();
+    await restored.restoreSnapshot(snapshot);
+    await restored.processMarketData(
+      { marketId: 'ELECTION', currentPrice: price(0.4), liquidity: ONE_ETH * 1000n, volume24h: 0n, volatility: 0.1, timestamp: clock.now() },
+      { marketId: 'ELECTION', outcome: 'YES', confidence: 0, expectedValue: 0, timestamp: clock.now() }
+    );
+
+    expect(await restored.executeTrade({ action: 'SELL', amount: ONE_ETH / 4n, marketId: 'ELECTION', outcome: 'YES', reason: 'test', confidence: 0.9 })).toBe(true);
+    expect(restored.getPortfolio().positions[0]?.position).toBeLessThan(snapshot.portfolio.positions[0]!.position);
+  });
+
+  it('should find a checkpoint in an archived segment', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'predicguard-snapshot-'));
+    const logPath = path.join(dir, 'audit.jsonl');
+
+    try {
+      logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+      const { snapshot, hash } = await (await tradedBot()).checkpoint();
+      await logger.rotate();
+      logger.close();
+
+      logger = new AuditLogger({ mode: 'local', localPath: logPath, clock });
+      const checkpoint = await conservative().restoreSnapshot(snapshot);
+      logger.close();
+
+      expect(checkpoint.data.hash).toBe(hash);
+      expect(logger.getEntries().map(e => e.type)).toEqual(['LOG_ROTATED', 'STATE_RESTORED']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject a snapshot that matches no checkpoint', async () => {
+    const original = await tradedBot();
+    const { snapshot } = await original.checkpoint();
+    const altered: AgentSnapshot = { ...snapshot, portfolio: { ...snapshot.portfolio, cash: snapshot.portfolio.cash + 1n } };
+
+    await expect(conservative().restoreSnapshot(altered)).rejects.toThrow('does not match a logged checkpoint');
+  });
+
+  it('should reject a checkpoint followed by position changes', async () => {
+    const original = await tradedBot();
+    const { snapshot } = await original.checkpoint();
+    await original.executeTrade({ action: 'SELL', amount: ONE_ETH, marketId: 'ELECTION', outcome: 'YES', reason: 'test', confidence: 0.9 });
+
+    await expect(conservative().restoreSnapshot(snapshot)).rejects.toThrow('is stale');
+  });
+
+  it('should reject unsupported snapshot versions', async () => {
+    const { snapshot } = await (await tradedBot()).checkpoint();
+
+    expect(() => parseSnapshot(serializeSnapshot({ ...snapshot, version: 99 }))).toThrow('Unsupported snapshot version: 99');
+  });
+
+  it('should keep stop loss trailing extremes', () => {
+    const manager = new StopLossManager({ entryPrice: price(0.5), stopLossPercent: 0.5, trailingStopPercent: 0.1 });
+    manager.updatePrice(price(0.8));
+
+    const restored = StopLossManager.fromState(manager.getState());
+
+    expect(restored.getState().highestPrice).toBe(price(0.8));
+    expect(restored.updatePrice(price(0.7)).reason).toBe('TRAILING_STOP');
+  });
+
+  it('should carry the aggressive bot active trades', async () => {
+    const aggressive = (): AggressiveBot => {
+      const bot = new AggressiveBot({ wallet: WALLET, auditLogger: logger, clock });
+      bot.setVenue(new PaperTradingVenue({ initialBalance: WALLET.balance, fillModel: new MidPriceFillModel(), maxLiquidityPercent: 1.0, clock }));
+      return bot;
+    };
+
+    const original = aggressive();
+    await original.processMarketData(
+      { marketId: 'ELECTION', currentPrice: price(0.4), liquidity: ONE_ETH * 1000n, volume24h: 0n, volatility: 0.1, timestamp: clock.now() },
+      { marketId: 'ELECTION', outcome: 'YES', confidence: 0, expectedValue: 0, timestamp: clock.now() }
+    );
+    await original.executeTrade({ action: 'BUY', amount: ONE_ETH, marketId: 'ELECTION', outcome: 'YES', reason: 'test', confidence: 0.9 });
+    const { snapshot } = await original.checkpoint();
+
+    const restored = aggressive();
+    await restored.restoreSnapshot(parseSnapshot(serializeSnapshot(snapshot)));
+
+    expect(restored.getActiveTradeStats().count).toBe(1);
+  });
+});
\ No newline at end of file
@@ -4,6 +4,8 @@
  * Comprehensive tests for:
  * - Risk management
  * - Anti-manipulation detection
+ * - Per-market risk verdicts from live order and trade flow
+ * - Response rules and per-bot default policies
  * - Agent security
  * - Audit integrity
  */
@@ -31,7 +33,18 @@ import {
   Trade
 } from '../security/anti-manipulation';
 
+import { MarketRiskAssessor, RiskPolicyConfig, RiskSignal } from '../security/market-risk';
+import { OrderBookEvent, SpoofingDetector } from '../security/spoofing';
+import { PumpAndDumpDetector } from '../security/pump-and-dump';
+import { PRICE_SCALE } from '../markets/outcome-shares';
+import { ReputationClient, ReputationGuard } from '../integrations/reputation';
+import { ConservativeBot, CONSERVATIVE_RISK_POLICY } from '../agents/conservative-bot';
+import { BALANCED_RISK_POLICY } from '../agents/balanced-bot';
+import { AGGRESSIVE_RISK_POLICY } from '../agents/aggressive-bot';
+import { MidPriceFillModel, OrderRequest, PaperTradingVenue } from '../execution/venues';
+import { MarketData, Prediction } from '../agents/base-agent';
 import { AuditLogger, AuditEntry, AuditVerifier } from '../audit/audit-trail';
+import { SimulatedClock } from '../utils/clock';
 
 describe('Risk Management', () => {
   describe('Kelly Criterion', () => {
@@ -260,6 +273,58 @@ describe('Risk Management', () => {
   });
 });
 
+describe('Simulated Time', () => {
+  const config: DrawdownConfig = {
+    maxDailyDrawdownPercent: 0.03,
+    maxTotalDrawdownPercent: 0.10,
+    cooldownPeriodMs: 3600000,
+    pauseOnTrigger: true
+  };
+
+  it('should not move a simulated clock backwards', () => {
+    const clock = new SimulatedClock(1000);
+    clock.advance(500);
+    expect(clock.now()).toBe(1500);
+    expect(() => clock.set(1000)).toThrow();
+  });
+
+  it('should expire drawdown cooldown on the injected clock', () => {
+    const clock = new SimulatedClock(0);
+    const protector = new DrawdownProtector(config, 10000n, clock);
+
+    expect(protector.updateValue(9600n).canTrade).toBe(false);
+
+    clock.advance(1800000);
+    expect(protector.updateValue(9600n).status).toBe('COOLDOWN');
+
+    clock.advance(1800000);
+    expect(protector.updateValue(9600n).status).not.toBe('COOLDOWN');
+  });
+
+  it('should reset daily drawdown after 24h of simulated time', () => {
+    const clock = new SimulatedClock(0);
+    const protector = new DrawdownProtector(config, 10000n, clock);
+
+    protector.updateValue(9800n);
+    clock.advance(86400001);
+    const status = protector.updateValue(9800n);
+
+    expect(status.dailyDrawdownPercent).toBe(0);
+    expect(protector.getState().lastReset).toBe(86400001);
+  });
+
+  it('should report oracle staleness as the clock advances', () => {
+    const clock = new SimulatedClock(1000000);
+    const monitor = new OracleMonitor(['source1'], 300000, 0.02, clock);
+
+    monitor.updatePrice('source1', 1000n, clock.now());
+    expect(monitor.checkHealth().healthy).toBe(true);
+
+    clock.advance(300001);
+    expect(monitor.checkHealth().healthy).toBe(false);
+  });
+});
+
 describe('Anti-Manipulation', () => {
   describe('Whale Detector', () => {
     let detector: WhaleDetector;
@@ -355,6 +420,359 @@ describe('Anti-Manipulation', () => {
       expect(alert).not.toBeNull();
       expect(alert?.type).toBe('CIRCULAR_TRADING');
     });
+
+    const ring = (addresses: string[], amount: bigint = 100n, marketId: string = 'M1'): Trade[] =>
+      addresses.map((seller, i) => ({
+        id: `${marketId}-${seller}`,
+        marketId,
+        buyer: addresses[(i + 1) % addresses.length]!,
+        seller,
+        amount,
+        price: 10n,
+        timestamp: Date.now(),
+        blockNumber: i
+      }));
+
+    it('should detect multi-hop rings with every participant', () => {
+      const alert = detector.analyzeTrades(ring(['0xA', '0xB', '0xC']));
+
+      expect(alert?.type).toBe('CIRCULAR_TRADING');
+      expect(alert?.addresses.sort()).toEqual(['0xa', '0xb', '0xc']);
+      expect(alert?.cycle).toMatchObject({ trades: 3, volume: 300n, volumeReturned: 100n, netPositionChange: 0n, score: 1 });
+      expect(alert?.confidence).toBe(1);
+    });
+
+    it('should respect the configured cycle length', () => {
+      const members = ['0xA', '0xB', '0xC', '0xD', '0xE'];
+
+      // Ring search only: these trades line up in time and size, which clusters them otherwise
+      expect(new WashTradingDetector(3, 3600000, undefined, 4, 0.5, 2000, Infinity).analyzeTrades(ring(members))).toBeNull();
+      expect(new WashTradingDetector(3, 3600000, undefined, 4).analyzeTrades(ring(members))?.cluster).toBeDefined();
+      expect(new WashTradingDetector(3, 3600000, undefined, 5, 0.5, 2000, Infinity).analyzeTrades(ring(members))?.addresses.length).toBe(5);
+      expect(() => new WashTradingDetector(3, 3600000, undefined, 1)).toThrow('Cycle length must be at least 2');
+    });
+
+    it('should not flag chains or rings that leak volume', () => {
+      expect(detector.analyzeTrades(ring(['0xA', '0xB', '0xC']).slice(0, 2))).toBeNull();
+
+      const leaky = ring(['0xD', '0xE', '0xF'], 100n, 'M2');
+      leaky[2] = { ...leaky[2]!, amount: 10n };
+      expect(detector.analyzeTrades(leaky)).toBeNull();
+    });
+
+    it('should keep detecting rings after a state restore', () => {
+      const trades = ring(['0xA', '0xB', '0xC']);
+      detector.analyzeTrades(trades.slice(0, 2));
+
+      const restored = new WashTradingDetector(3, 3600000);
+      restored.restoreState(detector.getState());
+
+      expect(restored.analyzeTrades(trades.slice(2))?.cycle?.score).toBe(1);
+    });
+
+    it('should scale to thousands of trades per market', () => {
+      const clock = new SimulatedClock(1700000000000);
+      const scaled = new WashTradingDetector(3, 3600000, clock);
+      let seed = 42;
+      const random = (n: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return Math.floor(seed / 65536) % n;
+      };
+
+      const alerts: string[][] = [];
+      const started = Date.now();
+      for (let i = 0; i < 5000; i++) {
+        clock.advance(500);
+        const trade: Trade = {
+          id: `t${i}`,
+          marketId: 'BUSY',
+          buyer: `0x${random(1000)}`,
+          seller: `0x${1000 + random(1000)}`, // Sellers never buy, so organic flow has no cycles
+          amount: BigInt(1 + random(1000)),
+          price: 10n,
+          timestamp: clock.now(),
+          blockNumber: i
+        };
+        const alert = scaled.analyzeTrades(i === 2500 ? [trade, ...ring(['0xW1', '0xW2', '0xW3'], 100n, 'BUSY').map(t => ({ ...t, timestamp: clock.now() }))] : [trade]);
+        if (alert) alerts.push([alert.type, ...alert.addresses.sort()]);
+      }
+
+      expect(alerts).toEqual([['CIRCULAR_TRADING', '0xw1', '0xw2', '0xw3']]);
+      expect(Date.now() - started).toBeLessThan(4000);
+    });
+
+    const trade = (buyer: string, seller: string, amount: bigint, offsetMs: number, marketId: string = 'M1'): Trade => ({
+      id: `${marketId}-${seller}-${buyer}-${offsetMs}`,
+      marketId,
+      buyer,
+      seller,
+      amount,
+      price: 10n,
+      timestamp: Date.now() + offsetMs,
+      blockNumber: offsetMs
+    });
+
+    it('should cluster wallets sharing a funding source', () => {
+      const trades = [
+        trade('0xW2', '0xW1', 100n, 0),
+        trade('0xW4', '0xW3', 150n, 60000),
+        trade('0xW6', '0xW5', 80n, 120000)
+      ];
+      expect(new WashTradingDetector(3, 3600000).analyzeTrades(trades)).toBeNull();
+
+      detector.recordTransfers(['0xW1', '0xW2', '0xW3', '0xW4', '0xW5', '0xW6'].map(to => ({ from: '0xF', to, amount: 1000n, timestamp: Date.now() })));
+      const alert = detector.analyzeTrades(trades);
+
+      expect(alert?.type).toBe('CIRCULAR_TRADING');
+      expect(alert?.addresses).toEqual(['0xw1', '0xw2', '0xw3', '0xw4', '0xw5', '0xw6']);
+      expect(alert?.cluster).toMatchObject({ internalTrades: 3, internalVolume: 330n, netExposure: 0n, score: 1 });
+      expect(alert?.cluster?.evidence).toEqual([{ type: 'SHARED_FUNDING', addresses: alert?.addresses, source: '0xf' }]);
+    });
+
+    it('should cluster wallets trading in step with matched sizes', () => {
+      const trades = [
+        trade('0xB', '0xA', 100n, 0),
+        trade('0xD', '0xC', 100n, 500),
+        trade('0xA', '0xB', 250n, 10000),
+        trade('0xC', '0xD', 250n, 10500)
+      ];
+      const alert = detector.analyzeTrades(trades);
+
+      expect(alert?.addresses).toEqual(['0xa', '0xb', '0xc', '0xd']);
+      expect(alert?.cluster?.evidence).toContainEqual({ type: 'SYNCHRONIZED_TIMING', addresses: ['0xa', '0xc'], matches: 2 });
+      expect(alert?.cluster?.evidence).toContainEqual({ type: 'MATCHED_SIZES', addresses: ['0xb', '0xd'], matches: 2 });
+
+      const unmatched = [...trades.slice(0, 3), { ...trades[3]!, amount: 251n }];
+      expect(new WashTradingDetector(3, 3600000).analyzeTrades(unmatched)).toBeNull();
+    });
+
+    it('should not flag clusters taking on exposure from outside', () => {
+      detector.recordTransfers(['0xW1', '0xW2', '0xW3', '0xW4'].map(to => ({ from: '0xF', to, amount: 1000n, timestamp: Date.now() })));
+      const alert = detector.analyzeTrades([
+        trade('0xW1', '0xOUTSIDER', 1000n, 0),
+        trade('0xW2', '0xW1', 10n, 60000),
+        trade('0xW4', '0xW3', 10n, 120000),
+        trade('0xW3', '0xW2', 10n, 180000)
+      ]);
+
+      expect(alert).toBeNull();
+      expect(detector.getClusters('M1')).toMatchObject([{ addresses: ['0xw1', '0xw2', '0xw3', '0xw4'], internalTrades: 3, netExposure: 1000n }]);
+    });
+
+    it('should export clusters for reputation blocking and keep them across restores', () => {
+      detector.recordTransfers([
+        { from: '0xF', to: '0xW1', amount: 1000n, timestamp: Date.now() },
+        { from: '0xF', to: '0xW2', amount: 1000n, timestamp: Date.now() }
+      ]);
+      detector.analyzeTrades([trade('0xW2', '0xW1', 100n, 0), trade('0xX', '0xY', 100n, 60000)]);
+
+      const restored = new WashTradingDetector(3, 3600000);
+      restored.restoreState(detector.getState());
+      const clusters = restored.getClusters();
+      expect(clusters).toEqual(detector.getClusters());
+      expect(clusters.map(c => c.addresses)).toEqual([['0xw1', '0xw2']]);
+
+      const guard = new ReputationGuard(new ReputationClient({}));
+      guard.blockCluster(clusters[0]!);
+      expect(guard.getBlockedAddresses().sort()).toEqual(['0xw1', '0xw2']);
+    });
+
+    it('should expire funding links after the funding window, across restores', () => {
+      const clock = new SimulatedClock(Date.now());
+      const funded = new WashTradingDetector(3, 3600000, clock);
+      funded.recordTransfers(['0xW1', '0xW2', '0xW3', '0xW4', '0xW5', '0xW6'].map(to => ({ from: '0xF', to, amount: 1000n, timestamp: clock.now() })));
+      const state = funded.getState();
+
+      const later = (days: number) => [
+        trade('0xW2', '0xW1', 100n, days * 86400000),
+        trade('0xW4', '0xW3', 150n, days * 86400000 + 60000),
+        trade('0xW6', '0xW5', 80n, days * 86400000 + 120000)
+      ];
+      clock.advance(6 * 86400000);
+      expect(funded.analyzeTrades(later(6))?.type).toBe('CIRCULAR_TRADING');
+
+      const restored = new WashTradingDetector(3, 3600000, clock);
+      restored.restoreState(state);
+      clock.advance(2 * 86400000);
+      expect(restored.analyzeTrades(later(8))).toBeNull();
+      expect(restored.getState().fundingLinks).toEqual(new Map());
+
+      // Links from older snapshots carry no transfer time and get a fresh window
+      const legacy = new WashTradingDetector(3, 3600000, clock);
+      legacy.restoreState({ ...state, fundingLinks: undefined, fundingSources: new Map(['0xw1', '0xw2', '0xw3', '0xw4', '0xw5', '0xw6'].map(a => [a, ['0xf']])) });
+      expect(legacy.analyzeTrades(later(8))?.type).toBe('CIRCULAR_TRADING');
+    });
+
+    it('should estimate the wash share of volume over rolling windows', () => {
+      const clock = new SimulatedClock(Date.now());
+      const estimator = new WashTradingDetector(3, 3600000, clock);
+      estimator.analyzeTrades([
+        trade('0xY1', '0xX1', 200n, 0),
+        trade('0xY2', '0xX2', 250n, 60000),
+        trade('0xY3', '0xX3', 250n, 120000),
+        trade('0xB', '0xA', 100n, 180000),
+        trade('0xC', '0xB', 100n, 181000),
+        trade('0xA', '0xC', 100n, 182000)
+      ]);
+
+      expect(estimator.getWashVolume('M1')).toEqual({ marketId: 'M1', windowMs: 86400000, totalVolume: 1000n, washVolume: 300n, washFraction: 0.3 });
+      expect(estimator.organicVolume('M1', 10000n)).toBe(7000n);
+      expect(estimator.organicVolume('M2', 10000n)).toBe(10000n);
+
+      clock.advance(7200000);
+      expect(estimator.getWashVolume('M1', 3600000).totalVolume).toBe(0n);
+      expect(estimator.getWashVolume('M1').washFraction).toBe(0.3);
+      expect(() => estimator.getWashVolume('M1', 2 * 86400000)).toThrow('Window exceeds the tracked volume window');
+    });
+  });
+
+  describe('Spoofing Detector', () => {
+    let detector: SpoofingDetector;
+
+    beforeEach(() => {
+      detector = new SpoofingDetector({ minOrderSize: 1000n });
+    });
+
+    const event = (type: OrderBookEvent['type'], orderId: string, side: 'BUY' | 'SELL', amount: bigint, atMs: number, price: bigint = 50n): OrderBookEvent => ({
+      type, orderId, marketId: 'M1', trader: '0xSPOOF', side, price, amount, timestamp: 1000000 + atMs
+    });
+
+    it('should flag large orders cancelled soon after placement', () => {
+      const alerts = detector.analyzeEvents([
+        event('PLACE', 'big', 'BUY', 2000n, 0),
+        event('CANCEL', 'big', 'BUY', 2000n, 1500),
+        event('PLACE', 'slow', 'BUY', 2000n, 2000),
+        event('CANCEL', 'slow', 'BUY', 2000n, 60000),
+        event('PLACE', 'small', 'BUY', 100n, 61000),
+        event('CANCEL', 'small', 'BUY', 100n, 61100)
+      ]);
+
+      expect(alerts).toMatchObject([{ type: 'SPOOFING', severity: 'MEDIUM', side: 'BUY', amount: 2000n, orderIds: ['big'] }]);
+    });
+
+    it('should flag one-sided layers but not two-sided ladders', () => {
+      const layers = [
+        event('PLACE', 'b1', 'BUY', 400n, 0, 50n),
+        event('PLACE', 'b2', 'BUY', 400n, 10, 49n),
+        event('PLACE', 'b3', 'BUY', 400n, 20, 48n)
+      ];
+      expect(detector.analyzeEvents(layers)).toMatchObject([{ type: 'LAYERING', severity: 'HIGH', amount: 1200n, orderIds: ['b1', 'b2', 'b3'] }]);
+
+      const ladder = new SpoofingDetector({ minOrderSize: 1000n });
+      ladder.analyzeEvents([event('PLACE', 's1', 'SELL', 400n, 0, 52n), event('PLACE', 's2', 'SELL', 400n, 0, 53n)]);
+      expect(ladder.analyzeEvents(layers)).toEqual([]);
+    });
+
+    it('should flag cancels that precede opposite-side fills by the same trader', () => {
+      const alerts = detector.analyzeEvents([
+        event('PLACE', 'b1', 'BUY', 600n, 0, 50n),
+        event('PLACE', 'b2', 'BUY', 600n, 100, 49n),
+        event('CANCEL', 'b1', 'BUY', 600n, 2000),
+        event('CANCEL', 'b2', 'BUY', 600n, 2100),
+        event('PLACE', 'ask', 'SELL', 300n, 2200, 52n),
+        event('FILL', 'ask', 'SELL', 100n, 3000, 52n),
+        event('FILL', 'ask', 'SELL', 200n, 3500, 52n)
+      ]);
+
+      expect(alerts).toMatchObject([{ type: 'SPOOF_AND_FILL', severity: 'CRITICAL', side: 'BUY', amount: 1200n, orderIds: ['b1', 'b2', 'ask'] }]);
+      expect(detector.getOpenOrders('M1')).toEqual([]);
+
+      const late = new SpoofingDetector({ minOrderSize: 1000n, fillLookbackMs: 60000 });
+      expect(late.analyzeEvents([
+        event('PLACE', 'big', 'BUY', 2000n, 0),
+        event('CANCEL', 'big', 'BUY', 2000n, 1000),
+        event('FILL', 'ask', 'SELL', 100n, 120000)
+      ]).map(a => a.type)).toEqual(['SPOOFING']);
+    });
+
+    it('should expire open orders older than the TTL', () => {
+      const short = new SpoofingDetector({ minOrderSize: 1000n, orderTtlMs: 60000 });
+      short.analyzeEvents([event('PLACE', 'b1', 'BUY', 400n, 0, 50n), event('PLACE', 'b2', 'BUY', 400n, 10, 49n)]);
+      expect(short.getOpenOrders('M1').length).toBe(2);
+
+      // The third layer arrives after the first two went stale
+      expect(short.analyzeEvents([event('PLACE', 'b3', 'BUY', 400n, 120000, 48n)])).toEqual([]);
+      expect(short.getOpenOrders('M1').map(o => o.orderId)).toEqual(['b3']);
+
+      const restored = new SpoofingDetector({ minOrderSize: 1000n });
+      restored.restoreState(short.getState());
+      expect(restored.getOpenOrders('M1').map(o => o.orderId)).toEqual(['b3']);
+      expect(() => new SpoofingDetector({ minOrderSize: 1000n, orderTtlMs: 0 })).toThrow('Order TTL must be positive');
+    });
+  });
+
+  describe('Pump And Dump Detector', () => {
+    const T0 = 1700000000000;
+    const HOUR = 3600000;
+    let clock: SimulatedClock;
+    let detector: PumpAndDumpDetector;
+
+    // Quiet baseline: ten trades of 100 over the previous ten hours
+    const baseline = (): Trade[] => Array.from({ length: 10 }, (_, i) => ({
+      id: `base${i}`, marketId: 'M1', buyer: `0xB${i}`, seller: `0xS${i}`, amount: 100n, price: 50n, timestamp: T0 - 10 * HOUR + i * HOUR, blockNumber: i
+    }));
+
+    beforeEach(() => {
+      clock = new SimulatedClock(T0);
+      detector = new PumpAndDumpDetector({}, clock);
+      detector.recordTrades(baseline());
+    });
+
+    const price = (cents: bigint, resolutionTime: number = T0 + HOUR) =>
+      ({ marketId: 'M1', currentPrice: PRICE_SCALE * cents / 100n, timestamp: clock.now(), resolutionTime });
+    const push = (buyers: string[], amount: bigint): Trade[] => buyers.map((buyer, i) => ({
+      id: `push-${buyer}`, marketId: 'M1', buyer, seller: `0xMM${i}`, amount, price: 65n, timestamp: clock.now(), blockNumber: 100 + i
+    }));
+
+    it('should flag a concentrated push before resolution and its reversal', () => {
+      expect(detector.updateMarket(price(50n))).toBeNull();
+      clock.advance(300000);
+      detector.recordTrades(push(['0xP1', '0xP2'], 500n));
+
+      const pushed = detector.updateMarket(price(65n));
+      expect(pushed).toMatchObject({ type: 'RESOLUTION_PUSH', severity: 'HIGH', direction: 'UP', traders: ['0xp1', '0xp2'], concentration: 1 });
+      expect(pushed?.priceMove).toBeCloseTo(0.15);
+      expect(pushed?.velocity).toBeCloseTo(1.8); // 15 points in 5 minutes
+      expect(pushed?.timeToResolutionMs).toBe(HOUR - 300000);
+
+      clock.advance(300000);
+      expect(detector.updateMarket(price(70n))).toBeNull();
+      clock.advance(300000);
+      const dumped = detector.updateMarket(price(55n));
+      expect(dumped).toMatchObject({ type: 'PUMP_AND_DUMP', severity: 'CRITICAL', direction: 'UP', traders: ['0xp1', '0xp2'] });
+      expect(dumped?.priceMove).toBeCloseTo(0.2);
+      expect(dumped?.reversal).toBeCloseTo(0.75);
+    });
+
+    it('should ignore pushes outside the final window or spread across many buyers', () => {
+      detector.updateMarket(price(50n, T0 + 24 * HOUR));
+      clock.advance(300000);
+      detector.recordTrades(push(['0xP1', '0xP2'], 500n));
+      expect(detector.updateMarket(price(65n, T0 + 24 * HOUR))).toBeNull();
+
+      const diffuse = new PumpAndDumpDetector({}, clock);
+      diffuse.recordTrades(baseline());
+      diffuse.updateMarket(price(50n));
+      diffuse.recordTrades(push(Array.from({ length: 10 }, (_, i) => `0xP${i}`), 100n));
+      expect(diffuse.updateMarket(price(65n))).toBeNull();
+      expect(() => new PumpAndDumpDetector({ minReversal: 0 })).toThrow('Reversal share must be between 0 and 1');
+    });
+
+    it('should not count the first trades of a fresh market as accelerating', () => {
+      const fresh = new PumpAndDumpDetector({}, clock);
+      fresh.updateMarket(price(50n));
+      clock.advance(300000);
+      fresh.recordTrades(push(['0xP1', '0xP2'], 500n));
+      expect(fresh.updateMarket(price(65n))).toBeNull();
+
+      // An hour of history is still short of the default quarter-day baseline
+      const young = new PumpAndDumpDetector({}, clock);
+      young.recordTrades(baseline().slice(9));
+      young.updateMarket(price(50n));
+      young.recordTrades(push(['0xP1', '0xP2'], 500n));
+      expect(young.updateMarket(price(65n))).toBeNull();
+      expect(() => new PumpAndDumpDetector({ minBaselineCoverage: 0 })).toThrow('Baseline coverage must be between 0 and 1');
+    });
   });
 
   describe('Oracle Monitor', () => {
@@ -627,4 +1045,237 @@ describe('Agent Security', () => {
       expect(result).toBeDefined();
     }).not.toThrow();
   });
+});
+
+describe('Market Risk', () => {
+  const ONE = BigInt('1000000000000000000');
+
+  const signal = (type: string, severity: RiskSignal['severity'], timestamp: number): RiskSignal => ({
+    source: 'WHALE',
+    type,
+    severity,
+    marketId: 'M1',
+    message: type,
+    timestamp
+  });
+
+  describe('Market Risk Assessor', () => {
+    it('should take the strictest action of a market\'s signals', () => {
+      const clock = new SimulatedClock(1000000);
+      const assessor = new MarketRiskAssessor({}, clock);
+
+      expect(assessor.assess('M1').action).toBe('ALLOW');
+
+      assessor.record(signal('WHALE_ORDER', 'HIGH', clock.now()));
+      expect(assessor.assess('M1')).toMatchObject({ action: 'REDUCE', sizeMultiplier: 0.5 });
+      expect(assessor.assess('M2').action).toBe('ALLOW');
+
+      assessor.record(signal('PRICE_IMPACT', 'CRITICAL', clock.now()));
+      expect(assessor.assess('M1')).toMatchObject({ action: 'BLOCK', sizeMultiplier: 0 });
+      expect(assessor.assess('M1').reasons).toEqual(['WHALE_ORDER (HIGH): REDUCE', 'PRICE_IMPACT (CRITICAL): BLOCK']);
+    });
+
+    it('should apply per-type overrides and forget signals outside the window', () => {
+      const clock = new SimulatedClock(1000000);
+      const assessor = new MarketRiskAssessor({ byType: { PRICE_IMPACT: 'REDUCE' }, signalWindowMs: 60000 }, clock);
+
+      assessor.record(signal('PRICE_IMPACT', 'CRITICAL', clock.now()));
+      expect(assessor.assess('M1').action).toBe('REDUCE');
+      expect(assessor.actionFor(signal('SELF_TRADING', 'LOW', 0))).toBe('BLOCK');
+
+      clock.advance(60000);
+      expect(assessor.assess('M1').action).toBe('ALLOW');
+    });
+
+    it('should treat weak oracle consensus as a signal', () => {
+      const assessor = new MarketRiskAssessor();
+
+      expect(assessor.oracleSignal('M1', { price: null, confidence: 0 })?.severity).toBe('CRITICAL');
+      expect(assessor.oracleSignal('M1', { price: ONE, confidence: 0.3 })?.type).toBe('ORACLE_LOW_CONSENSUS');
+      expect(assessor.oracleSignal('M1', { price: ONE, confidence: 0.9 })).toBeNull();
+      expect(() => new MarketRiskAssessor({ reduceFactor: 1 })).toThrow('Reduce factor must be between 0 and 1');
+    });
+  });
+
+  describe('Agent Flow Ingestion', () => {
+    const market: MarketData = {
+      marketId: 'M1',
+      currentPrice: ONE / 2n,
+      liquidity: ONE * 1000n,
+      volume24h: ONE * 100n,
+      volatility: 0.1,
+      timestamp: Date.now()
+    };
+    const prediction: Prediction = { marketId: 'M1', outcome: 'YES', confidence: 0.8, expectedValue: 0.4, timestamp: Date.now() };
+
+    const order = (amount: bigint): Order => ({
+      id: `order-${amount}`,
+      marketId: 'M1',
+      trader: '0xWHALE',
+      side: 'BUY',
+      amount,
+      price: ONE / 2n,
+      timestamp: Date.now(),
+      blockNumber: 10
+    });
+
+    async function startBot(logger: AuditLogger, riskPolicy?: RiskPolicyConfig): Promise<ConservativeBot> {
+      const bot = new ConservativeBot({
+        wallet: { address: '0x' + '1'.repeat(40), balance: ONE * 10n },
+        auditLogger: logger,
+        customParams: { riskPolicy }
+      });
+      bot.updateOraclePrices({ chainlink: ONE / 2n, uniswap: ONE / 2n, binance: ONE / 2n }, Date.now());
+      await bot.start();
+      await bot.processMarketData(market, { ...prediction, confidence: 0 });
+      return bot;
+    }
+
+    it('should block a market with self-trading in its trade stream', async () => {
+      const logger = new AuditLogger({ mode: 'local' });
+      const bot = await startBot(logger);
+
+      const signals = await bot.ingestTrades([
+        { id: 't1', marketId: 'M1', buyer: '0xA', seller: '0xa', amount: ONE, price: ONE / 2n, timestamp: Date.now(), blockNumber: 11 }
+      ]);
+      const { decision, trace } = await bot.processMarketDataWithTrace(market, prediction);
+
+      expect(signals.map(s => s.type)).toContain('SELF_TRADING');
+      expect(bot.getMarketRiskVerdict('M1').action).toBe('BLOCK');
+      expect(decision).toBeNull();
+      expect(trace.blockedBy).toBe('MANIPULATION');
+      expect(logger.getEntries({ type: 'SECURITY_ALERT' })[0]?.data.alertType).toBe('SELF_TRADING');
+    });
+
+    it('should decide and size whale alerts on organic volume', async () => {
+      const bot = await startBot(new AuditLogger({ mode: 'local' }), { byType: { SELF_TRADING: 'ALLOW' }, bySeverity: { CRITICAL: 'ALLOW' }, rules: [] });
+      await bot.ingestTrades([
+        { id: 't1', marketId: 'M1', buyer: '0xB', seller: '0xA', amount: ONE * 3n, price: ONE / 2n, timestamp: Date.now(), blockNumber: 11 },
+        { id: 't2', marketId: 'M1', buyer: '0xC', seller: '0xc', amount: ONE, price: ONE / 2n, timestamp: Date.now(), blockNumber: 12 }
+      ]);
+      const { trace } = await bot.processMarketDataWithTrace(market, prediction);
+
+      expect(trace.stages.find(s => s.stage === 'STRATEGY')?.inputs).toMatchObject({ volume24h: ONE * 75n, reportedVolume24h: ONE * 100n });
+      expect(bot.getSnapshot().detectors.whale.volume24h.get('M1')).toBe(ONE * 75n);
+    });
+
+    it('should route spoofing alerts from order book events', async () => {
+      const logger = new AuditLogger({ mode: 'local' });
+      const bot = await startBot(logger);
+      const bookEvent = (type: OrderBookEvent['type'], orderId: string, side: 'BUY' | 'SELL', offsetMs: number): OrderBookEvent => ({
+        type, orderId, marketId: 'M1', trader: '0xSPOOF', side, price: ONE / 2n, amount: ONE * 2n, timestamp: Date.now() + offsetMs
+      });
+
+      const signals = await bot.ingestOrderBookEvents([
+        bookEvent('PLACE', 'bait', 'BUY', 0),
+        bookEvent('CANCEL', 'bait', 'BUY', 500),
+        bookEvent('FILL', 'hit', 'SELL', 1000)
+      ]);
+
+      expect(signals.map(s => [s.source, s.type, s.severity])).toEqual([
+        ['SPOOFING', 'SPOOFING', 'MEDIUM'],
+        ['SPOOFING', 'SPOOF_AND_FILL', 'CRITICAL']
+      ]);
+      expect(bot.getMarketRiskVerdict('M1').action).toBe('BLOCK');
+      expect(logger.getEntries({ type: 'SECURITY_ALERT' }).map(e => e.data.alertType)).toEqual(['SPOOFING', 'SPOOF_AND_FILL']);
+      expect(bot.getSnapshot().detectors.spoofing?.recentCancels.size).toBe(0);
+    });
+
+    it('should block a market pushed just before resolution', async () => {
+      const logger = new AuditLogger({ mode: 'local' });
+      const bot = await startBot(logger);
+      const resolutionTime = Date.now() + 3600000;
+      const trade = (id: string, buyer: string, amount: bigint, timestamp: number, blockNumber: number): Trade => ({
+        id, marketId: 'M1', buyer, seller: `0xS-${id}`, amount, price: ONE / 2n, timestamp, blockNumber
+      });
+
+      await bot.ingestTrades(Array.from({ length: 10 }, (_, i) => trade(`base${i}`, `0xB${i}`, ONE, Date.now() - (10 - i) * 3600000, 20 + i * 10)));
+      await bot.processMarketData({ ...market, resolutionTime }, { ...prediction, confidence: 0 });
+      await bot.ingestTrades([trade('p1', '0xP1', ONE * 5n, Date.now(), 200), trade('p2', '0xP2', ONE * 5n, Date.now(), 210)]);
+      const { trace } = await bot.processMarketDataWithTrace({ ...market, currentPrice: ONE * 65n / 100n, resolutionTime }, prediction);
+
+      expect(trace.blockedBy).toBe('MANIPULATION');
+      expect(trace.stages.find(s => s.stage === 'MANIPULATION')?.inputs.signals).toContainEqual({ type: 'RESOLUTION_PUSH', severity: 'HIGH' });
+      expect(logger.getEntries({ type: 'SECURITY_ALERT' }).map(e => e.data.alertType)).toContain('RESOLUTION_PUSH');
+    });
+
+    it('should reduce entries in a market with whale orders', async () => {
+      const policy: RiskPolicyConfig = { bySeverity: { HIGH: 'REDUCE' } };
+      const clean = await (await startBot(new AuditLogger({ mode: 'local' }), policy)).processMarketData(market, prediction);
+      const bot = await startBot(new AuditLogger({ mode: 'local' }), policy);
+
+      const signals = await bot.ingestOrders([order(ONE * 2n)]);
+      const { decision, trace } = await bot.processMarketDataWithTrace(market, prediction);
+
+      expect(signals).toMatchObject([{ source: 'WHALE', type: 'WHALE_ORDER', severity: 'HIGH' }]);
+      expect(trace.stages.find(s => s.stage === 'MANIPULATION')?.outcome).toBe('ADJUST');
+      expect(decision!.amount).toBe(clean!.amount / 2n);
+    });
+
+    it('should follow a configured policy', async () => {
+      const bot = await startBot(new AuditLogger({ mode: 'local' }), { bySeverity: { HIGH: 'ALLOW' } });
+
+      await bot.ingestOrders([order(ONE * 2n)]);
+
+      expect(bot.getMarketRiskVerdict('M1').action).toBe('ALLOW');
+    });
+
+    it('should halt a market for the rule\'s duration and log the evaluation', async () => {
+      const clock = new SimulatedClock(Date.now());
+      const logger = new AuditLogger({ mode: 'local', validation: 'strict', clock });
+      const bot = new ConservativeBot({ wallet: { address: '0x' + '1'.repeat(40), balance: ONE * 10n }, auditLogger: logger, clock });
+      bot.updateOraclePrices({ chainlink: ONE / 2n, uniswap: ONE / 2n, binance: ONE / 2n }, clock.now());
+      await bot.start();
+
+      const trade = (i: number): Trade => ({
+        id: `t${i}`, marketId: 'M1', buyer: i % 2 ? '0xA' : '0xB', seller: i % 2 ? '0xB' : '0xA',
+        amount: ONE / 10n, price: ONE / 2n, timestamp: clock.now(), blockNumber: 1
+      });
+      await bot.ingestTrades([trade(1), trade(2), trade(3)]);
+
+      const [evaluation] = logger.getEntries({ type: 'RISK_POLICY_EVALUATED' });
+      expect(evaluation!.data.alertType).toBe('CIRCULAR_TRADING');
+      expect(evaluation!.data.evaluations.map(e => [e.rule, e.matched])).toEqual([
+        ['halt-on-wash-trading', true],
+        ['halve-on-price-impact', false],
+        ['private-on-sandwich', false]
+      ]);
+      expect(bot.getMarketRiskVerdict('M1').reasons[1]).toContain('halt-on-wash-trading: market halted until');
+
+      // The alert leaves the signal window after 1h; the halt lasts 2h
+      clock.advance(5400000);
+      expect(bot.getMarketRiskVerdict('M1')).toMatchObject({ action: 'BLOCK', signals: [] });
+      clock.advance(1800000);
+      expect(bot.getMarketRiskVerdict('M1').action).toBe('ALLOW');
+    });
+
+    it('should submit privately after a sandwich', async () => {
+      const bot = await startBot(new AuditLogger({ mode: 'local' }), { byType: { SANDWICH_ATTACK: 'ALLOW' } });
+      const submitted: OrderRequest[] = [];
+      const venue = new PaperTradingVenue({ initialBalance: ONE * 10n, fillModel: new MidPriceFillModel() });
+      const submit = venue.submitOrder.bind(venue);
+      venue.submitOrder = async (request: OrderRequest) => { submitted.push(request); return submit(request); };
+      bot.setVenue(venue);
+      await bot.processMarketData(market, { ...prediction, confidence: 0 });
+
+      const leg = (id: string, buyer: string, seller: string, blockNumber: number): Trade => ({
+        id, marketId: 'M1', buyer, seller, amount: ONE / 10n, price: ONE / 2n, timestamp: Date.now(), blockNumber
+      });
+      await bot.ingestTrades([leg('front', '0xVICTIM', '0xMEV', 20), leg('victim', '0xVICTIM', '0xPOOL', 21), leg('back', '0xVICTIM', '0xMEV', 21)]);
+
+      const decision = await bot.processMarketData(market, prediction);
+      await bot.executeTrade(decision!);
+
+      expect(bot.getMarketRiskVerdict('M1').privateSubmission).toBe(true);
+      expect(decision!.privateSubmission).toBe(true);
+      expect(submitted[0]!.privateSubmission).toBe(true);
+    });
+
+    it('should ship distinct policies per bot', () => {
+      expect(CONSERVATIVE_RISK_POLICY).not.toEqual(BALANCED_RISK_POLICY);
+      expect(BALANCED_RISK_POLICY).not.toEqual(AGGRESSIVE_RISK_POLICY);
+      expect(() => new MarketRiskAssessor({ rules: [{ name: 'bad', action: 'SCALE_SIZE', durationMs: 1000 }] }))
+        .toThrow('Rule bad needs a size multiplier between 0 and 1');
+    });
+  });
 });
\ No newline at end of file
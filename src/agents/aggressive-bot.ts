@@ -11,21 +11,60 @@
 
 import { BaseAgent, AgentConfig, MarketData, Prediction, TradeDecision } from './base-agent';
 import { AuditLogger } from '../audit/audit-trail';
+import { ReplayResult } from '../audit/replay';
+import { Clock } from '../utils/clock';
+import { RiskPolicyConfig, mergeRiskPolicy } from '../security/market-risk';
+import { PortfolioBalancer } from '../risk/position-sizing';
+import { OutcomeId, findOutcomeQuote } from '../markets/outcome-shares';
 
 export interface AggressiveConfig {
   wallet: { address: string; balance: bigint };
   auditLogger: AuditLogger;
+  clock?: Clock;
   customParams?: {
     confidenceThreshold?: number;
     maxPositionPercent?: number;
     stopLossPercent?: number;
+    feeBps?: number;
+    riskPolicy?: RiskPolicyConfig;
     maxPositions?: number;
   };
 }
 
+/**
+ * Default manipulation responses: trades through most alerts, blocking only on
+ * CRITICAL alerts and self-trading, with short-lived responses
+ */
+export const AGGRESSIVE_RISK_POLICY: RiskPolicyConfig = {
+  bySeverity: { HIGH: 'ALLOW' },
+  byType: { SANDWICH_ATTACK: 'REDUCE' },
+  rules: [
+    {
+      name: 'halt-on-self-trading',
+      alertTypes: ['SELF_TRADING'],
+      action: 'HALT_MARKET',
+      durationMs: 1800000 // 30 minutes
+    },
+    {
+      name: 'trim-on-price-impact',
+      alertTypes: ['PRICE_IMPACT'],
+      minSeverity: 'HIGH',
+      action: 'SCALE_SIZE',
+      sizeMultiplier: 0.75,
+      durationMs: 900000 // 15 minutes
+    },
+    {
+      name: 'private-on-sandwich',
+      alertTypes: ['SANDWICH_ATTACK', 'SANDWICH_RISK'],
+      action: 'PRIVATE_SUBMISSION',
+      durationMs: 3600000 // 1 hour
+    }
+  ]
+};
+
 export class AggressiveBot extends BaseAgent {
   private maxPositions: number;
-  private activeTrades: Map<string, { entryTime: number; entryPrice: bigint }> = new Map();
+  private activeTrades: Map<string, { entryTime: number; entryPrice: bigint; outcome: OutcomeId }> = new Map();
 
   constructor(config: AggressiveConfig) {
     const agentConfig: AgentConfig = {
@@ -39,10 +78,12 @@ export class AggressiveBot extends BaseAgent {
       maxTotalDrawdownPercent: 0.50, // 50% total limit (very loose)
       rebalanceThreshold: 0.10,
       whaleThreshold: BigInt('10000000000000000000'), // 10 ETH
-      tradingEnabled: true
+      tradingEnabled: true,
+      feeBps: config.customParams?.feeBps,
+      riskPolicy: mergeRiskPolicy(AGGRESSIVE_RISK_POLICY, config.customParams?.riskPolicy)
     };
 
-    super(agentConfig, config.wallet, config.auditLogger);
+    super(agentConfig, config.wallet, config.auditLogger, config.clock);
 
     // Aggressive allocations - tilted toward speculative
     this.portfolioBalancer = new PortfolioBalancer(
@@ -76,10 +117,10 @@ export class AggressiveBot extends BaseAgent {
 
     return {
       marketId: marketData.marketId,
-      outcome: combinedSignal > 0,
+      outcome: combinedSignal > 0 ? 'YES' : 'NO',
       confidence,
       expectedValue: combinedSignal * 2, // Aggressive EV
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -93,21 +134,28 @@ export class AggressiveBot extends BaseAgent {
       return null;
     }
 
+    const target = this.selectOutcome(marketData, prediction);
+    if (!target) {
+      return null;
+    }
+
     const existingPosition = this.getPositionSize(marketData.marketId);
     const activeTrade = this.activeTrades.get(marketData.marketId);
 
     // Check if we should exit existing position
     if (existingPosition > 0n && activeTrade) {
-      const timeHeld = Date.now() - activeTrade.entryTime;
-      const priceChange = Number(marketData.currentPrice - activeTrade.entryPrice) / 
+      const timeHeld = this.clock.now() - activeTrade.entryTime;
+      const heldPrice = findOutcomeQuote(marketData, activeTrade.outcome)?.price ?? activeTrade.entryPrice;
+      const priceChange = Number(heldPrice - activeTrade.entryPrice) / 
                          Number(activeTrade.entryPrice);
 
       // Quick exit if prediction flips
-      if (!prediction.outcome) {
+      if (target.outcome !== activeTrade.outcome) {
         return {
           action: 'SELL',
           amount: existingPosition,
           marketId: marketData.marketId,
+          outcome: activeTrade.outcome,
           reason: `Quick flip exit: ${(prediction.confidence * 100).toFixed(1)}% confidence`,
           confidence: prediction.confidence
         };
@@ -119,6 +167,7 @@ export class AggressiveBot extends BaseAgent {
           action: 'SELL',
           amount: existingPosition,
           marketId: marketData.marketId,
+          outcome: activeTrade.outcome,
           reason: `Scalp exit: ${(priceChange * 100).toFixed(2)}% in ${(timeHeld / 1000).toFixed(0)}s`,
           confidence: 1.0
         };
@@ -128,30 +177,37 @@ export class AggressiveBot extends BaseAgent {
     // Check position limits
     if (this.portfolio.positions.length >= this.maxPositions && existingPosition === 0n) {
       await this.logEvent('MAX_POSITIONS_REACHED', { 
+        marketId: marketData.marketId,
         current: this.portfolio.positions.length 
       });
       return null;
     }
 
     // Enter new position
-    if (prediction.outcome && existingPosition === 0n) {
+    if (existingPosition === 0n) {
+      if (!this.isEntrySignal(prediction, target)) {
+        return null;
+      }
+
       return {
         action: 'BUY',
         amount: 0n, // Will be sized by risk management
         marketId: marketData.marketId,
+        outcome: target.outcome,
         reason: `Aggressive entry: trend=${this.calculateTrend(marketData).toFixed(2)}, vol=${marketData.volatility.toFixed(2)}`,
-        confidence: prediction.confidence
+        confidence: target.probability
       };
     }
 
     // Scale into existing position if very confident
-    if (prediction.outcome && existingPosition > 0n && prediction.confidence > 0.70) {
+    if (activeTrade?.outcome === target.outcome && target.probability > 0.70) {
       return {
         action: 'BUY',
         amount: 0n,
         marketId: marketData.marketId,
-        reason: `Scaling in: high confidence ${(prediction.confidence * 100).toFixed(1)}%`,
-        confidence: prediction.confidence
+        outcome: target.outcome,
+        reason: `Scaling in: high confidence ${(target.probability * 100).toFixed(1)}%`,
+        confidence: target.probability
       };
     }
 
@@ -162,21 +218,23 @@ export class AggressiveBot extends BaseAgent {
     try {
       await this.logEvent('EXECUTING_TRADE', { decision });
 
-      const price = BigInt(1000); // Mock price
+      const { price, amount } = await this.executeOnVenue(decision);
       const isBuy = decision.action === 'BUY';
       
       await this.updatePosition(
         decision.marketId,
-        decision.amount,
+        amount,
         price,
-        isBuy
+        isBuy,
+        decision.outcome
       );
 
       // Track active trades
       if (isBuy) {
         this.activeTrades.set(decision.marketId, {
-          entryTime: Date.now(),
-          entryPrice: price
+          entryTime: this.clock.now(),
+          entryPrice: price,
+          outcome: decision.outcome
         });
       } else {
         this.activeTrades.delete(decision.marketId);
@@ -185,6 +243,7 @@ export class AggressiveBot extends BaseAgent {
       await this.logEvent('TRADE_EXECUTED', { 
         decision,
         price,
+        amount,
         activeTrades: this.activeTrades.size 
       });
 
@@ -231,6 +290,7 @@ export class AggressiveBot extends BaseAgent {
         action: 'SELL',
         amount: position.position,
         marketId: position.marketId,
+        outcome: position.outcome || 'YES',
         reason: 'Emergency close all',
         confidence: 1.0
       };
@@ -245,6 +305,41 @@ export class AggressiveBot extends BaseAgent {
     });
   }
 
+  /**
+   * Rebuild active trades from replayed fills of still open positions
+   */
+  protected onRecovered(result: ReplayResult): void {
+    this.activeTrades.clear();
+    for (const trade of result.trades) {
+      const { decision, price } = trade.data;
+      if (decision.action === 'BUY') {
+        this.activeTrades.set(decision.marketId, { entryTime: trade.timestamp, entryPrice: price, outcome: decision.outcome });
+      } else {
+        this.activeTrades.delete(decision.marketId);
+      }
+    }
+
+    for (const marketId of this.activeTrades.keys()) {
+      if (this.getPositions(marketId).length === 0) {
+        this.activeTrades.delete(marketId);
+      }
+    }
+  }
+
+  /**
+   * Active trades travel with snapshots
+   */
+  protected getSnapshotExtension(): Record<string, any> {
+    return { activeTrades: new Map(Array.from(this.activeTrades, ([marketId, trade]) => [marketId, { ...trade }])) };
+  }
+
+  /**
+   * Restore active trades from a snapshot
+   */
+  protected restoreSnapshotExtension(extension: Record<string, any>): void {
+    this.activeTrades = new Map(Array.from(extension.activeTrades || [], ([marketId, trade]: [string, any]) => [marketId, { ...trade }]));
+  }
+
   /**
    * Get active trade statistics
    */
@@ -253,7 +348,7 @@ export class AggressiveBot extends BaseAgent {
     avgHoldTime: number;
     unrealizedPnl: number;
   } {
-    const now = Date.now();
+    const now = this.clock.now();
     let totalHoldTime = 0;
     let unrealizedPnl = 0;
 
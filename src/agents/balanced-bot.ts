@@ -11,19 +11,55 @@
 
 import { BaseAgent, AgentConfig, MarketData, Prediction, TradeDecision } from './base-agent';
 import { AuditLogger } from '../audit/audit-trail';
-import { calculateVolatilityAdjusted } from '../risk/position-sizing';
+import { Clock } from '../utils/clock';
+import { RiskPolicyConfig, mergeRiskPolicy } from '../security/market-risk';
+import { PortfolioBalancer, calculateVolatilityAdjusted } from '../risk/position-sizing';
+import { PRICE_SCALE, sharesForNotional } from '../markets/outcome-shares';
 
 export interface BalancedConfig {
   wallet: { address: string; balance: bigint };
   auditLogger: AuditLogger;
+  clock?: Clock;
   customParams?: {
     confidenceThreshold?: number;
     maxPositionPercent?: number;
     stopLossPercent?: number;
+    feeBps?: number;
+    riskPolicy?: RiskPolicyConfig;
     volatilityTarget?: number;
   };
 }
 
+/**
+ * Default manipulation responses: strong wash trading halts the market for 2h,
+ * price impact halves size and sandwiches switch to private submission
+ */
+export const BALANCED_RISK_POLICY: RiskPolicyConfig = {
+  rules: [
+    {
+      name: 'halt-on-circular-trading',
+      alertTypes: ['CIRCULAR_TRADING', 'SELF_TRADING'],
+      minSeverity: 'HIGH',
+      action: 'HALT_MARKET',
+      durationMs: 7200000 // 2 hours
+    },
+    {
+      name: 'halve-on-price-impact',
+      alertTypes: ['PRICE_IMPACT'],
+      minSeverity: 'MEDIUM',
+      action: 'SCALE_SIZE',
+      sizeMultiplier: 0.5,
+      durationMs: 1800000 // 30 minutes
+    },
+    {
+      name: 'private-on-sandwich',
+      alertTypes: ['SANDWICH_ATTACK', 'SANDWICH_RISK'],
+      action: 'PRIVATE_SUBMISSION',
+      durationMs: 21600000 // 6 hours
+    }
+  ]
+};
+
 export class BalancedBot extends BaseAgent {
   private lastRebalance: number = 0;
   private rebalanceIntervalMs: number = 604800000; // 7 days
@@ -41,10 +77,12 @@ export class BalancedBot extends BaseAgent {
       maxTotalDrawdownPercent: 0.20, // 20% total limit
       rebalanceThreshold: 0.05,
       whaleThreshold: BigInt('5000000000000000000'), // 5 ETH
-      tradingEnabled: true
+      tradingEnabled: true,
+      feeBps: config.customParams?.feeBps,
+      riskPolicy: mergeRiskPolicy(BALANCED_RISK_POLICY, config.customParams?.riskPolicy)
     };
 
-    super(agentConfig, config.wallet, config.auditLogger);
+    super(agentConfig, config.wallet, config.auditLogger, config.clock);
 
     // Balanced allocations
     this.portfolioBalancer = new PortfolioBalancer(
@@ -66,10 +104,10 @@ export class BalancedBot extends BaseAgent {
     if (marketData.volatility > 0.5) {
       return {
         marketId: marketData.marketId,
-        outcome: false,
+        outcome: 'NO',
         confidence: 0,
         expectedValue: 0,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       };
     }
 
@@ -83,10 +121,10 @@ export class BalancedBot extends BaseAgent {
 
     return {
       marketId: marketData.marketId,
-      outcome: signal > 0,
+      outcome: signal > 0 ? 'YES' : 'NO',
       confidence,
       expectedValue: confidence * signal,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -108,24 +146,37 @@ export class BalancedBot extends BaseAgent {
     // Skip if volatility too high after adjustment
     if (marketData.volatility > this.volatilityTarget * 2) {
       await this.logEvent('VOLATILITY_SKIP', { 
+        marketId: marketData.marketId,
         volatility: marketData.volatility 
       });
       return null;
     }
 
-    const existingPosition = this.getPositionSize(marketData.marketId);
+    const target = this.selectOutcome(marketData, prediction);
+    if (!target) {
+      return null;
+    }
 
-    if (prediction.outcome && prediction.confidence >= this.config.minConfidenceThreshold) {
+    const heldOutcome = this.getHeldOutcome(marketData.marketId);
+    const existingPosition = heldOutcome ? this.getPositionSize(marketData.marketId, heldOutcome) : 0n;
+
+    if (!heldOutcome && !this.isEntrySignal(prediction, target)) {
+      return null;
+    }
+
+    if ((!heldOutcome || heldOutcome === target.outcome) &&
+        target.probability >= this.config.minConfidenceThreshold) {
       // Buy signal
       if (existingPosition > 0n) {
         // Consider adding if high confidence
-        if (prediction.confidence > 0.65) {
+        if (target.probability > 0.65) {
           return {
             action: 'BUY',
             amount: 0n,
             marketId: marketData.marketId,
-            reason: `Adding to position: ${(prediction.confidence * 100).toFixed(1)}% confidence`,
-            confidence: prediction.confidence
+            outcome: target.outcome,
+            reason: `Adding to position: ${(target.probability * 100).toFixed(1)}% confidence`,
+            confidence: target.probability
           };
         }
         return null;
@@ -135,20 +186,22 @@ export class BalancedBot extends BaseAgent {
         action: 'BUY',
         amount: 0n,
         marketId: marketData.marketId,
-        reason: `New position: ${(prediction.confidence * 100).toFixed(1)}% confidence, vol-adjusted`,
-        confidence: prediction.confidence
+        outcome: target.outcome,
+        reason: `New ${target.outcome} position: ${(target.probability * 100).toFixed(1)}% confidence, vol-adjusted`,
+        confidence: target.probability
       };
-    } else if (!prediction.outcome && existingPosition > 0n) {
+    } else if (heldOutcome && heldOutcome !== target.outcome) {
       // Sell signal
-      const shouldExit = prediction.confidence < this.config.minConfidenceThreshold * 0.8;
+      const shouldExit = target.probability < this.config.minConfidenceThreshold * 0.8;
       
       if (shouldExit) {
         return {
           action: 'SELL',
           amount: existingPosition,
           marketId: marketData.marketId,
+          outcome: heldOutcome,
           reason: `Exit: confidence below threshold`,
-          confidence: 1 - prediction.confidence
+          confidence: 1 - target.probability
         };
       }
     }
@@ -160,18 +213,20 @@ export class BalancedBot extends BaseAgent {
     try {
       await this.logEvent('EXECUTING_TRADE', { decision });
 
-      const price = BigInt(1000); // Mock price
+      const { price, amount } = await this.executeOnVenue(decision);
       
       await this.updatePosition(
         decision.marketId,
-        decision.amount,
+        amount,
         price,
-        decision.action === 'BUY'
+        decision.action === 'BUY',
+        decision.outcome
       );
 
       await this.logEvent('TRADE_EXECUTED', { 
         decision,
-        price 
+        price,
+        amount
       });
 
       return true;
@@ -192,13 +247,13 @@ export class BalancedBot extends BaseAgent {
   }
 
   private calculateMeanReversion(marketData: MarketData): number {
-    // Simplified mean reversion
-    const priceRelative = Number(marketData.currentPrice) / 1000;
-    return -Math.tanh(priceRelative - 1) * 0.5;
+    // Simplified mean reversion toward even odds
+    const probability = Number(marketData.currentPrice) / Number(PRICE_SCALE);
+    return -Math.tanh((probability - 0.5) * 4) * 0.5;
   }
 
   private async checkRebalance(): Promise<void> {
-    const now = Date.now();
+    const now = this.clock.now();
     
     if (now - this.lastRebalance < this.rebalanceIntervalMs) {
       return;
@@ -211,10 +266,17 @@ export class BalancedBot extends BaseAgent {
     const trades = this.portfolioBalancer.calculateRebalanceTrades(this.portfolio);
     
     for (const trade of trades) {
+      const outcome = trade.outcome || 'YES';
+      const position = this.getPositions(trade.marketId).find(p => p.outcome === outcome);
+
+      // Rebalance amounts are values; sells are sized in shares
       const decision: TradeDecision = {
         action: trade.action,
-        amount: trade.amount,
+        amount: trade.action === 'SELL' && position && position.currentPrice > 0n
+          ? sharesForNotional(trade.amount, position.currentPrice)
+          : trade.amount,
         marketId: trade.marketId,
+        outcome,
         reason: 'Scheduled rebalancing',
         confidence: 0.9
       };
@@ -5,13 +5,16 @@
 
 import {
   calculateKellyCriterion,
+  calculateMarketKelly,
   calculateFixedFractional,
+  effectiveSharePrice,
   StopLossManager,
   PortfolioBalancer,
   DrawdownProtector,
   PositionSizingParams,
   StopLossParams,
   PortfolioState,
+  PortfolioPosition,
   DrawdownConfig
 } from '../risk/position-sizing';
 
@@ -25,10 +28,34 @@ import {
   WhaleAlert,
   WashTradingAlert,
   OracleStatus,
-  SandwichAlert
+  SandwichAlert,
+  FundingTransfer,
+  AddressCluster
 } from '../security/anti-manipulation';
+import { MarketRiskAssessor, MarketRiskVerdict, RiskPolicyConfig, RiskSignal, toRiskSignal } from '../security/market-risk';
+import { OrderBookEvent, SpoofingAlert, SpoofingDetector } from '../security/spoofing';
+import { PumpAndDumpAlert, PumpAndDumpDetector } from '../security/pump-and-dump';
 
-import { AuditLogger, AuditEntry } from '../audit/audit-trail';
+import { AuditLogger, AuditEntry, AuditVerifier } from '../audit/audit-trail';
+import { AuditEventPayloads, AuditEventType } from '../audit/events';
+import { AuditReplayer, ReplayResult } from '../audit/replay';
+import { AgentSnapshot, SNAPSHOT_VERSION, hashSnapshot } from './snapshot';
+import { Clock, systemClock } from '../utils/clock';
+import { ExecutionVenue, PaperTradingVenue, OrderRequest, Fill } from '../execution/venues';
+import {
+  OutcomeId,
+  OutcomeQuote,
+  MarketResolution,
+  Settlement,
+  PRICE_SCALE,
+  findOutcomeQuote,
+  hasValidQuotes,
+  isValidDistribution,
+  marketOutcomes,
+  settleShares,
+  shareValue,
+  sharesForNotional
+} from '../markets/outcome-shares';
 
 export interface AgentConfig {
   name: string;
@@ -42,21 +69,26 @@ export interface AgentConfig {
   rebalanceThreshold: number;
   whaleThreshold: bigint;
   tradingEnabled: boolean;
+  feeBps?: number; // Trading fee assumed when sizing
+  riskPolicy?: RiskPolicyConfig; // Block/reduce/allow per alert severity and type
 }
 
 export interface MarketData {
   marketId: string;
-  currentPrice: bigint;
+  currentPrice: bigint; // YES share price in PRICE_SCALE units
   liquidity: bigint;
   volume24h: bigint;
   volatility: number;
   timestamp: number;
+  outcomes?: OutcomeQuote[]; // Categorical markets: price and liquidity per outcome
+  resolutionTime?: number; // When the market resolves, or a news deadline it hinges on
 }
 
 export interface Prediction {
   marketId: string;
-  outcome: boolean;
+  outcome: OutcomeId; // Predicted winning outcome
   confidence: number;
+  distribution?: Record<OutcomeId, number>; // Probability of each outcome
   expectedValue: number;
   timestamp: number;
 }
@@ -65,8 +97,35 @@ export interface TradeDecision {
   action: 'BUY' | 'SELL' | 'HOLD';
   amount: bigint;
   marketId: string;
+  outcome: OutcomeId; // Outcome shares to trade
   reason: string;
   confidence: number;
+  privateSubmission?: boolean; // Submit privately rather than through the public mempool
+}
+
+export type DecisionStageName =
+  | 'DRAWDOWN'
+  | 'ORACLE'
+  | 'MANIPULATION'
+  | 'STRATEGY'
+  | 'CONFIDENCE'
+  | 'KELLY_SIZE'
+  | 'POSITION_CAP'
+  | 'STOP_LOSS';
+
+export interface DecisionStage {
+  stage: DecisionStageName;
+  outcome: 'PASS' | 'BLOCK' | 'ADJUST' | 'SKIP'; // ADJUST: the stage changed the decision
+  inputs: Record<string, any>;
+  result?: Record<string, any>;
+}
+
+export interface DecisionTrace {
+  marketId: string;
+  timestamp: number;
+  stages: DecisionStage[]; // In pipeline order, up to the stage that ended it
+  decision: TradeDecision | null;
+  blockedBy?: DecisionStageName | 'INVALID_MARKET_DATA' | 'NOT_TRADING' | 'ERROR';
 }
 
 export abstract class BaseAgent {
@@ -80,25 +139,35 @@ export abstract class BaseAgent {
   protected washTradingDetector: WashTradingDetector;
   protected oracleMonitor: OracleMonitor;
   protected sandwichProtector: SandwichProtector;
+  protected spoofingDetector: SpoofingDetector;
+  protected pumpAndDumpDetector: PumpAndDumpDetector;
+  protected marketRisk: MarketRiskAssessor;
   protected auditLogger: AuditLogger;
+  protected clock: Clock;
   protected isRunning: boolean = false;
   protected alertHandlers: Array<(alert: any) => void> = [];
+  protected venue: ExecutionVenue;
+  protected latestMarketData: Map<string, MarketData> = new Map();
+  protected resolvedMarkets: Map<string, MarketResolution> = new Map();
+  private pendingOrders: Map<string, Order> = new Map();
 
   constructor(
     config: AgentConfig,
     wallet: { address: string; balance: bigint },
-    auditLogger: AuditLogger
+    auditLogger: AuditLogger,
+    clock: Clock = systemClock
   ) {
     this.config = config;
     this.wallet = wallet;
     this.auditLogger = auditLogger;
+    this.clock = clock;
     
     // Initialize portfolio
     this.portfolio = {
       totalValue: wallet.balance,
       positions: [],
       cash: wallet.balance,
-      lastRebalance: Date.now()
+      lastRebalance: this.clock.now()
     };
 
     // Initialize risk management
@@ -108,7 +177,7 @@ export abstract class BaseAgent {
       cooldownPeriodMs: 3600000, // 1 hour
       pauseOnTrigger: true
     };
-    this.drawdownProtector = new DrawdownProtector(drawdownConfig, wallet.balance);
+    this.drawdownProtector = new DrawdownProtector(drawdownConfig, wallet.balance, clock);
 
     // Initialize portfolio balancer
     this.portfolioBalancer = new PortfolioBalancer(
@@ -117,12 +186,18 @@ export abstract class BaseAgent {
     );
 
     // Initialize security systems
-    this.whaleDetector = new WhaleDetector(config.whaleThreshold);
-    this.washTradingDetector = new WashTradingDetector();
-    this.oracleMonitor = new OracleMonitor(['chainlink', 'uniswap', 'binance']);
-    this.sandwichProtector = new SandwichProtector();
+    this.whaleDetector = new WhaleDetector(config.whaleThreshold, 0.02, 86400000, clock);
+    this.washTradingDetector = new WashTradingDetector(3, 3600000, clock);
+    this.oracleMonitor = new OracleMonitor(['chainlink', 'uniswap', 'binance'], 300000, 0.02, clock);
+    this.sandwichProtector = new SandwichProtector(2, 0.01, clock);
+    this.spoofingDetector = new SpoofingDetector({ minOrderSize: config.whaleThreshold }, clock);
+    this.pumpAndDumpDetector = new PumpAndDumpDetector({}, clock);
+    this.marketRisk = new MarketRiskAssessor(config.riskPolicy, clock);
 
     this.stopLossManagers = new Map();
+
+    // Paper trading until a live venue is configured
+    this.venue = new PaperTradingVenue({ initialBalance: wallet.balance, clock });
   }
 
   /**
@@ -134,8 +209,8 @@ export abstract class BaseAgent {
     await this.auditLogger.log({
       type: 'AGENT_START',
       agent: this.config.name,
-      data: { config: this.config },
-      timestamp: Date.now()
+      data: { config: this.config, balance: this.wallet.balance },
+      timestamp: this.clock.now()
     });
 
     console.log(`[${this.config.name}] Agent started`);
@@ -151,64 +226,320 @@ export abstract class BaseAgent {
       type: 'AGENT_STOP',
       agent: this.config.name,
       data: { finalPortfolio: this.portfolio },
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     });
 
     console.log(`[${this.config.name}] Agent stopped`);
   }
 
+  /**
+   * Rebuild positions, stop losses and drawdown state by replaying the
+   * persisted audit trail, archived segments included, e.g. after a crash.
+   * Throws when the replayed totals do not match the last logged portfolio snapshot.
+   */
+  async recoverFromAuditTrail(entries: AuditEntry[] = this.auditLogger.getTrail()): Promise<ReplayResult> {
+    const result = new AuditReplayer({
+      agent: this.config.name,
+      stopLoss: {
+        stopLossPercent: this.config.stopLossPercent,
+        takeProfitPercent: this.config.takeProfitPercent
+      },
+      drawdown: this.drawdownProtector.getConfig()
+    }).replay(entries);
+
+    const [mismatch] = result.mismatches;
+    if (mismatch) {
+      throw new Error(
+        `Replayed state does not match snapshot ${result.snapshot?.sequence}: ` +
+        `${mismatch.field} replayed ${mismatch.replayed}, logged ${mismatch.logged}`
+      );
+    }
+
+    this.portfolio = result.portfolio;
+    this.stopLossManagers = new Map(result.stopLosses.map(s => [positionKey(s.marketId, s.outcome), s.manager]));
+    this.drawdownProtector.restoreState(result.drawdown);
+    this.resolvedMarkets = new Map(result.resolvedMarkets.map(r => [r.marketId, r]));
+    this.onRecovered(result);
+    this.syncVenue();
+
+    await this.logEvent('STATE_RECOVERED', {
+      replayed: result.replayed,
+      snapshotSequence: result.snapshot?.sequence ?? null,
+      portfolio: this.portfolio
+    });
+
+    return result;
+  }
+
+  /**
+   * Restore subclass state from a replayed trail
+   */
+  protected onRecovered(result: ReplayResult): void {
+    // Nothing beyond the base state by default
+  }
+
+  /**
+   * Capture the agent's full state as a versioned snapshot
+   */
+  getSnapshot(): AgentSnapshot {
+    const stopLosses: AgentSnapshot['stopLosses'] = [];
+    for (const position of this.portfolio.positions) {
+      const outcome = position.outcome || 'YES';
+      const manager = this.stopLossManagers.get(positionKey(position.marketId, outcome));
+      if (manager) {
+        stopLosses.push({ marketId: position.marketId, outcome, state: manager.getState() });
+      }
+    }
+
+    return {
+      version: SNAPSHOT_VERSION,
+      agent: this.config.name,
+      takenAt: this.clock.now(),
+      portfolio: { ...this.portfolio, positions: this.portfolio.positions.map(p => ({ ...p })) },
+      stopLosses,
+      drawdown: this.drawdownProtector.getState(),
+      resolvedMarkets: Array.from(this.resolvedMarkets.values()),
+      detectors: {
+        whale: this.whaleDetector.getState(),
+        washTrading: this.washTradingDetector.getState(),
+        oracle: this.oracleMonitor.getState(),
+        sandwich: this.sandwichProtector.getState(),
+        spoofing: this.spoofingDetector.getState(),
+        pumpAndDump: this.pumpAndDumpDetector.getState()
+      },
+      extension: this.getSnapshotExtension()
+    };
+  }
+
+  /**
+   * Snapshot the agent and record the snapshot's hash in the audit trail
+   */
+  async checkpoint(): Promise<{ snapshot: AgentSnapshot; hash: string }> {
+    const snapshot = this.getSnapshot();
+    const hash = hashSnapshot(snapshot);
+
+    await this.logEvent('CHECKPOINT', { version: snapshot.version, hash, takenAt: snapshot.takenAt });
+    return { snapshot, hash };
+  }
+
+  /**
+   * Restore a snapshot, proving it against a checkpoint in the audit trail,
+   * archived segments included. Throws if no checkpoint matches or positions
+   * changed after it.
+   */
+  async restoreSnapshot(snapshot: AgentSnapshot, entries: AuditEntry[] = this.auditLogger.getTrail()): Promise<AuditEntry> {
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${snapshot.version}`);
+    }
+    if (snapshot.agent !== this.config.name) {
+      throw new Error(`Snapshot of ${snapshot.agent} cannot restore ${this.config.name}`);
+    }
+
+    const verification = AuditVerifier.verifyTrail(entries);
+    if (!verification.valid) {
+      throw new Error(`Audit trail failed verification: ${verification.issues[0]}`);
+    }
+
+    const hash = hashSnapshot(snapshot);
+    const own = entries.filter(e => e.agent === this.config.name);
+    const index = own.findIndex(e => e.type === 'CHECKPOINT' && e.data.hash === hash);
+    const checkpoint = own[index];
+    if (!checkpoint) {
+      throw new Error(`Snapshot ${hash} does not match a logged checkpoint`);
+    }
+
+    const changes = own.slice(index + 1).filter(e => e.type === 'POSITION_UPDATE' || e.type === 'MARKET_RESOLVED');
+    if (changes.length > 0) {
+      throw new Error(`Checkpoint ${checkpoint.sequence} is stale: ${changes.length} position changes logged since`);
+    }
+
+    this.portfolio = { ...snapshot.portfolio, positions: snapshot.portfolio.positions.map(p => ({ ...p })) };
+    this.stopLossManagers = new Map(snapshot.stopLosses.map(s => [
+      positionKey(s.marketId, s.outcome),
+      StopLossManager.fromState(s.state)
+    ]));
+    this.drawdownProtector.restoreState(snapshot.drawdown);
+    this.resolvedMarkets = new Map(snapshot.resolvedMarkets.map(r => [r.marketId, r]));
+    this.whaleDetector.restoreState(snapshot.detectors.whale);
+    this.washTradingDetector.restoreState(snapshot.detectors.washTrading);
+    this.oracleMonitor.restoreState(snapshot.detectors.oracle);
+    this.sandwichProtector.restoreState(snapshot.detectors.sandwich);
+    if (snapshot.detectors.spoofing) {
+      this.spoofingDetector.restoreState(snapshot.detectors.spoofing);
+    }
+    if (snapshot.detectors.pumpAndDump) {
+      this.pumpAndDumpDetector.restoreState(snapshot.detectors.pumpAndDump);
+    }
+    this.restoreSnapshotExtension(snapshot.extension);
+    this.syncVenue();
+
+    await this.logEvent('STATE_RESTORED', { hash, checkpointSequence: checkpoint.sequence ?? null });
+    return checkpoint;
+  }
+
+  /**
+   * Subclass state to include in snapshots
+   */
+  protected getSnapshotExtension(): Record<string, any> {
+    return {};
+  }
+
+  /**
+   * Restore subclass state from a snapshot
+   */
+  protected restoreSnapshotExtension(extension: Record<string, any>): void {
+    // Nothing beyond the base state by default
+  }
+
   /**
    * Main decision loop - called for each market update
    */
   async processMarketData(marketData: MarketData, prediction: Prediction): Promise<TradeDecision | null> {
-    if (!this.isRunning || !this.config.tradingEnabled) {
-      return null;
+    return (await this.processMarketDataWithTrace(marketData, prediction)).decision;
+  }
+
+  /**
+   * Run the decision loop and also return the trace of each stage it passed through
+   */
+  async processMarketDataWithTrace(
+    marketData: MarketData,
+    prediction: Prediction
+  ): Promise<{ decision: TradeDecision | null; trace: DecisionTrace }> {
+    const trace: DecisionTrace = {
+      marketId: marketData.marketId,
+      timestamp: this.clock.now(),
+      stages: [],
+      decision: null
+    };
+
+    if (!hasValidQuotes(marketData)) {
+      trace.blockedBy = 'INVALID_MARKET_DATA';
+      await this.logEvent('INVALID_MARKET_DATA', {
+        marketId: marketData.marketId,
+        currentPrice: marketData.currentPrice,
+        outcomes: marketData.outcomes
+      });
+      return { decision: null, trace };
     }
 
-    try {
-      // 1. Check drawdown protection
-      const drawdownStatus = this.drawdownProtector.updateValue(this.portfolio.totalValue);
-      if (!drawdownStatus.canTrade) {
-        await this.logEvent('DRAWDOWN_HALT', { status: drawdownStatus });
-        return null;
-      }
+    this.latestMarketData.set(marketData.marketId, marketData);
+    this.venue.updateMarket?.(marketData);
+    this.markToMarket(marketData);
+    this.whaleDetector.updateVolume(marketData.marketId, this.organicVolume(marketData));
 
-      // 2. Check oracle health
-      const oracleHealth = this.oracleMonitor.checkHealth();
-      if (!oracleHealth.healthy) {
-        await this.logEvent('ORACLE_UNHEALTHY', { issues: oracleHealth.issues });
-        return null;
-      }
+    // Pushes before resolution count against the market in the manipulation check
+    const pumpAlert = this.pumpAndDumpDetector.updateMarket(marketData);
+    if (pumpAlert) {
+      await this.recordAlert(pumpAlert);
+    }
 
-      // 3. Check for manipulation
-      const manipulationCheck = await this.checkForManipulation(marketData);
-      if (manipulationCheck.alert) {
-        await this.handleAlert(manipulationCheck.alert);
-        if (manipulationCheck.blockTrade) {
-          return null;
-        }
-      }
+    if (!this.isRunning) {
+      trace.blockedBy = 'NOT_TRADING';
+      return { decision: null, trace };
+    }
+    if (!this.config.tradingEnabled || this.resolvedMarkets.has(marketData.marketId)) {
+      trace.blockedBy = 'NOT_TRADING';
+      await this.logEvent('NO_TRADE', { marketId: marketData.marketId, blockedBy: trace.blockedBy, trace });
+      return { decision: null, trace };
+    }
 
-      // 4. Make trading decision
-      const decision = await this.makeTradingDecision(marketData, prediction);
-      if (!decision || decision.action === 'HOLD') {
-        return null;
-      }
+    try {
+      const decision = await this.evaluatePipeline(marketData, prediction, trace);
+      trace.decision = decision;
 
-      // 5. Validate with risk management
-      const validatedDecision = await this.validateWithRiskManagement(decision, marketData);
-      if (!validatedDecision) {
-        return null;
+      if (decision) {
+        await this.logEvent('TRADE_DECISION', { decision, trace });
+      } else {
+        trace.blockedBy = trace.stages.find(s => s.outcome === 'BLOCK')?.stage;
+        await this.logEvent('NO_TRADE', { marketId: marketData.marketId, blockedBy: trace.blockedBy ?? null, trace });
       }
-
-      // 6. Log and return
-      await this.logEvent('TRADE_DECISION', { decision: validatedDecision });
-      return validatedDecision;
+      return { decision, trace };
 
     } catch (error) {
+      trace.blockedBy = 'ERROR';
       await this.logEvent('ERROR', { error: (error as Error).message });
+      return { decision: null, trace };
+    }
+  }
+
+  /**
+   * The decision pipeline, recording each stage into the trace
+   */
+  private async evaluatePipeline(
+    marketData: MarketData,
+    prediction: Prediction,
+    trace: DecisionTrace
+  ): Promise<TradeDecision | null> {
+    // 1. Check drawdown protection
+    const totalValue = this.portfolio.totalValue;
+    const drawdownStatus = this.drawdownProtector.updateValue(totalValue);
+    trace.stages.push({
+      stage: 'DRAWDOWN',
+      outcome: drawdownStatus.canTrade ? 'PASS' : 'BLOCK',
+      inputs: { totalValue },
+      result: drawdownStatus
+    });
+    if (!drawdownStatus.canTrade) {
+      await this.logEvent('DRAWDOWN_HALT', { marketId: marketData.marketId, status: drawdownStatus });
+      return null;
+    }
+
+    // 2. Check oracle health
+    const oracleHealth = this.oracleMonitor.checkHealth();
+    trace.stages.push({
+      stage: 'ORACLE',
+      outcome: oracleHealth.healthy ? 'PASS' : 'BLOCK',
+      inputs: {},
+      result: { healthy: oracleHealth.healthy, issues: oracleHealth.issues }
+    });
+    if (!oracleHealth.healthy) {
+      await this.logEvent('ORACLE_UNHEALTHY', { marketId: marketData.marketId, issues: oracleHealth.issues });
+      return null;
+    }
+
+    // 3. Check for manipulation
+    const verdict = this.checkForManipulation(marketData);
+    trace.stages.push({
+      stage: 'MANIPULATION',
+      outcome: verdict.action === 'BLOCK' ? 'BLOCK' : verdict.action === 'REDUCE' ? 'ADJUST' : 'PASS',
+      inputs: { signals: verdict.signals.map(s => ({ type: s.type, severity: s.severity })) },
+      result: {
+        action: verdict.action,
+        sizeMultiplier: verdict.sizeMultiplier,
+        privateSubmission: verdict.privateSubmission,
+        responses: verdict.responses.map(r => r.rule),
+        reasons: verdict.reasons
+      }
+    });
+    if (verdict.action === 'BLOCK') {
       return null;
     }
+
+    // 4. Make trading decision on organic volume
+    const volume24h = this.organicVolume(marketData);
+    const decision = await this.makeTradingDecision({ ...marketData, volume24h }, prediction);
+    trace.stages.push({
+      stage: 'STRATEGY',
+      outcome: decision && decision.action !== 'HOLD' ? 'PASS' : 'BLOCK',
+      inputs: {
+        outcome: prediction.outcome,
+        confidence: prediction.confidence,
+        expectedValue: prediction.expectedValue,
+        volume24h,
+        reportedVolume24h: marketData.volume24h
+      },
+      result: { decision }
+    });
+    if (!decision || decision.action === 'HOLD') {
+      return null;
+    }
+
+    // 5. Validate with risk management
+    const validated = await this.validateWithRiskManagement(decision, marketData, prediction, verdict, trace);
+    if (validated && verdict.privateSubmission) {
+      validated.privateSubmission = true;
+    }
+    return validated;
   }
 
   /**
@@ -230,30 +561,176 @@ export abstract class BaseAgent {
   ): Promise<TradeDecision | null>;
 
   /**
-   * Check for market manipulation
+   * Check for market manipulation: the market's verdict from ingested
+   * order and trade flow, oracle consensus and the mempool ahead of a trade
    */
-  private async checkForManipulation(marketData: MarketData): Promise<{
-    alert: WhaleAlert | WashTradingAlert | SandwichAlert | null;
-    blockTrade: boolean;
-  }> {
-    // Create dummy order for whale detection
-    const dummyOrder: Order = {
+  private checkForManipulation(marketData: MarketData): MarketRiskVerdict {
+    const current: RiskSignal[] = [];
+
+    const oracleSignal = this.marketRisk.oracleSignal(marketData.marketId, this.oracleMonitor.getConsensusPrice());
+    if (oracleSignal) {
+      current.push(oracleSignal);
+    }
+
+    // Probe sized like a typical entry to check pending orders for sandwich risk
+    const probe: Order = {
       id: 'check',
       marketId: marketData.marketId,
       trader: this.wallet.address,
       side: 'BUY',
       amount: marketData.liquidity / 100n,
       price: marketData.currentPrice,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       blockNumber: 0
     };
+    const preTrade = this.sandwichProtector.preTradeCheck(probe);
+    if (!preTrade.safe) {
+      current.push({
+        source: 'SANDWICH',
+        type: 'SANDWICH_RISK',
+        severity: 'HIGH',
+        marketId: marketData.marketId,
+        message: preTrade.warning || 'Sandwich risk',
+        timestamp: this.clock.now()
+      });
+    }
+
+    return this.marketRisk.assess(marketData.marketId, current);
+  }
+
+  /**
+   * Feed observed orders, e.g. from the mempool or an order stream
+   */
+  async ingestOrders(orders: Order[]): Promise<RiskSignal[]> {
+    const signals: RiskSignal[] = [];
+
+    for (const order of orders) {
+      this.sandwichProtector.addPendingTx(order.id, order);
+      this.pendingOrders.set(order.id, order);
 
-    const whaleAlert = this.whaleDetector.analyzeOrder(dummyOrder, marketData.liquidity);
-    if (whaleAlert && whaleAlert.severity === 'CRITICAL') {
-      return { alert: whaleAlert, blockTrade: true };
+      // Price impact needs the market's liquidity
+      const marketData = this.latestMarketData.get(order.marketId);
+      if (!marketData) {
+        continue;
+      }
+
+      const alert = this.whaleDetector.analyzeOrder(order, marketData.liquidity);
+      if (alert) {
+        signals.push(await this.recordAlert(alert));
+      }
     }
 
-    return { alert: null, blockTrade: false };
+    return signals;
+  }
+
+  /**
+   * Feed executed trades from a market's trade stream
+   */
+  async ingestTrades(trades: Trade[]): Promise<RiskSignal[]> {
+    const signals: RiskSignal[] = [];
+    if (trades.length === 0) {
+      return signals;
+    }
+
+    const washAlert = this.washTradingDetector.analyzeTrades(trades);
+    this.pumpAndDumpDetector.recordTrades(trades);
+    if (washAlert) {
+      // Volume inflation spans markets; it counts against each market traded here
+      const markets = washAlert.marketId === 'multiple'
+        ? Array.from(new Set(trades.map(t => t.marketId)))
+        : [washAlert.marketId];
+      for (const marketId of markets) {
+        signals.push(await this.recordAlert({ ...washAlert, marketId }));
+      }
+    }
+
+    for (const trade of trades) {
+      const pending = Array.from(this.pendingOrders.values()).filter(o => o.marketId === trade.marketId);
+      const whaleAlert = this.whaleDetector.analyzeTrade(trade, pending, []);
+      if (whaleAlert) {
+        signals.push(await this.recordAlert(whaleAlert));
+      }
+    }
+
+    const blocks = Array.from(new Set(trades.map(t => t.blockNumber))).sort((a, b) => a - b);
+    for (const blockNumber of blocks) {
+      const sandwichAlert = this.sandwichProtector.analyzeBlock(trades.filter(t => t.blockNumber === blockNumber), blockNumber);
+      if (sandwichAlert) {
+        signals.push(await this.recordAlert(sandwichAlert));
+      }
+    }
+
+    // Orders up to the latest block have been mined or dropped
+    const latestBlock = blocks[blocks.length - 1]!;
+    for (const [id, order] of this.pendingOrders) {
+      if (order.blockNumber <= latestBlock) {
+        this.sandwichProtector.removePendingTx(id);
+        this.pendingOrders.delete(id);
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Feed order book events (place, modify, cancel, fill) to watch for spoofing and layering
+   */
+  async ingestOrderBookEvents(events: OrderBookEvent[]): Promise<RiskSignal[]> {
+    const signals: RiskSignal[] = [];
+    for (const alert of this.spoofingDetector.analyzeEvents(events)) {
+      signals.push(await this.recordAlert(alert));
+    }
+    return signals;
+  }
+
+  /**
+   * Feed transfers that fund trading addresses, so wash trading spread across wallets clusters
+   */
+  ingestTransfers(transfers: FundingTransfer[]): void {
+    this.washTradingDetector.recordTransfers(transfers);
+  }
+
+  /**
+   * Linked address clusters and their evidence, e.g. to block with a ReputationGuard
+   */
+  getAddressClusters(marketId?: string): AddressCluster[] {
+    return this.washTradingDetector.getClusters(marketId);
+  }
+
+  /**
+   * A market's 24h volume less the share of ingested trades flagged as wash trading
+   */
+  protected organicVolume(marketData: MarketData): bigint {
+    return this.washTradingDetector.organicVolume(marketData.marketId, marketData.volume24h);
+  }
+
+  /**
+   * Current risk verdict for a market
+   */
+  getMarketRiskVerdict(marketId: string): MarketRiskVerdict {
+    const oracleSignal = this.marketRisk.oracleSignal(marketId, this.oracleMonitor.getConsensusPrice());
+    return this.marketRisk.assess(marketId, oracleSignal ? [oracleSignal] : []);
+  }
+
+  /**
+   * Record an alert against its market and raise it
+   */
+  private async recordAlert(
+    alert: WhaleAlert | WashTradingAlert | SandwichAlert | SpoofingAlert | PumpAndDumpAlert
+  ): Promise<RiskSignal> {
+    const signal = toRiskSignal(alert);
+    const evaluations = this.marketRisk.record(signal);
+    await this.handleAlert(alert);
+
+    if (evaluations.length > 0) {
+      await this.logEvent('RISK_POLICY_EVALUATED', {
+        marketId: signal.marketId,
+        alertType: signal.type,
+        severity: signal.severity,
+        evaluations
+      });
+    }
+    return signal;
   }
 
   /**
@@ -261,63 +738,295 @@ export abstract class BaseAgent {
    */
   private async validateWithRiskManagement(
     decision: TradeDecision,
-    marketData: MarketData
+    marketData: MarketData,
+    prediction: Prediction,
+    verdict: MarketRiskVerdict,
+    trace: DecisionTrace
   ): Promise<TradeDecision | null> {
     
     // Check confidence threshold
-    if (decision.confidence < this.config.minConfidenceThreshold) {
+    const confident = decision.confidence >= this.config.minConfidenceThreshold;
+    trace.stages.push({
+      stage: 'CONFIDENCE',
+      outcome: confident ? 'PASS' : 'BLOCK',
+      inputs: { confidence: decision.confidence, threshold: this.config.minConfidenceThreshold }
+    });
+    if (!confident) {
       await this.logEvent('LOW_CONFIDENCE', { 
+        marketId: decision.marketId,
         confidence: decision.confidence,
         threshold: this.config.minConfidenceThreshold 
       });
       return null;
     }
 
-    // Calculate position size using Kelly criterion
-    const kellyParams: PositionSizingParams = {
-      bankroll: this.portfolio.totalValue,
-      winProbability: decision.confidence,
-      winLossRatio: 1.5, // Assumed
-      kellyFraction: this.config.kellyFraction,
-      maxPositionPercent: this.config.maxPositionPercent
-    };
+    // Exits unwind the held quantity rather than a fresh Kelly stake
+    let positionSize = this.getPositionSize(decision.marketId, decision.outcome);
+    if (decision.action === 'SELL' && decision.amount > 0n && decision.amount < positionSize) {
+      positionSize = decision.amount;
+    }
+    if (decision.action === 'SELL') {
+      trace.stages.push({ stage: 'KELLY_SIZE', outcome: 'SKIP', inputs: { action: 'SELL', requested: decision.amount } });
+    }
 
-    const kellySize = calculateKellyCriterion(kellyParams);
-    const maxPosition = (this.portfolio.totalValue * 
-      BigInt(Math.floor(this.config.maxPositionPercent * 10000))) / 10000n;
-    
-    const positionSize = kellySize < maxPosition ? kellySize : maxPosition;
+    if (decision.action === 'BUY') {
+      // Calculate position size using Kelly criterion
+      const feeBps = this.config.feeBps || 0;
+      const quote = findOutcomeQuote(marketData, decision.outcome);
+      const kellyParams: PositionSizingParams = {
+        bankroll: this.portfolio.totalValue,
+        winProbability: decision.confidence,
+        winLossRatio: 1.5, // Assumed when no market price is known
+        kellyFraction: this.config.kellyFraction,
+        maxPositionPercent: this.config.maxPositionPercent
+      };
+      const kellyInputs: Record<string, any> = {
+        method: 'assumed-odds',
+        bankroll: this.portfolio.totalValue,
+        probability: decision.confidence,
+        kellyFraction: this.config.kellyFraction,
+        feeBps
+      };
+
+      let kellySize: bigint;
+      if (prediction.distribution) {
+        // A predicted distribution sizes against every outcome's price
+        kellyParams.outcomes = marketOutcomes(marketData)
+          .map(q => ({
+            outcome: q.outcome,
+            probability: prediction.distribution![q.outcome] || 0,
+            price: effectiveSharePrice(q.price, feeBps)
+          }))
+          .filter(o => o.price > 0 && o.price < 1);
+        kellyParams.outcome = decision.outcome;
+        kellySize = calculateKellyCriterion(kellyParams);
+        kellyInputs.method = 'distribution';
+        kellyInputs.outcomes = kellyParams.outcomes;
+      } else if (quote && quote.price > 0n && quote.price < PRICE_SCALE) {
+        // Payoff odds are implied by the share price
+        kellySize = calculateMarketKelly({
+          bankroll: this.portfolio.totalValue,
+          probability: decision.confidence,
+          price: quote.price,
+          feeBps,
+          kellyFraction: this.config.kellyFraction,
+          maxPositionPercent: this.config.maxPositionPercent
+        });
+        kellyInputs.method = 'market';
+        kellyInputs.price = quote.price;
+      } else {
+        kellySize = calculateKellyCriterion(kellyParams);
+      }
+      trace.stages.push({ stage: 'KELLY_SIZE', outcome: 'PASS', inputs: kellyInputs, result: { size: kellySize } });
+
+      const maxPosition = (this.portfolio.totalValue * 
+        BigInt(Math.floor(this.config.maxPositionPercent * 10000))) / 10000n;
+      
+      positionSize = kellySize < maxPosition ? kellySize : maxPosition;
+
+      // Manipulation risk that does not block scales entries down
+      if (verdict.sizeMultiplier < 1) {
+        positionSize = (positionSize * BigInt(Math.floor(verdict.sizeMultiplier * 10000))) / 10000n;
+      }
+      trace.stages.push({
+        stage: 'POSITION_CAP',
+        outcome: positionSize <= 0n ? 'BLOCK' : kellySize > positionSize ? 'ADJUST' : 'PASS',
+        inputs: {
+          size: kellySize,
+          maxPosition,
+          maxPositionPercent: this.config.maxPositionPercent,
+          riskMultiplier: verdict.sizeMultiplier
+        },
+        result: { size: positionSize }
+      });
+    } else {
+      trace.stages.push({
+        stage: 'POSITION_CAP',
+        outcome: positionSize <= 0n ? 'BLOCK' : 'PASS',
+        inputs: { size: positionSize, held: this.getPositionSize(decision.marketId, decision.outcome) },
+        result: { size: positionSize }
+      });
+    }
 
     if (positionSize <= 0n) {
       return null;
     }
 
-    // Check existing stop losses
-    const existingSL = this.stopLossManagers.get(decision.marketId);
-    if (existingSL) {
-      const slCheck = existingSL.updatePrice(marketData.currentPrice);
+    // Check existing stop losses on every outcome held in this market
+    const checkedStops: Array<{ outcome: OutcomeId; price: bigint }> = [];
+    for (const position of this.getPositions(decision.marketId)) {
+      const outcome = position.outcome || 'YES';
+      const existingSL = this.stopLossManagers.get(positionKey(decision.marketId, outcome));
+      if (!existingSL) {
+        continue;
+      }
+
+      const quote = findOutcomeQuote(marketData, outcome);
+      if (!quote) {
+        continue;
+      }
+
+      const slCheck = existingSL.updatePrice(quote.price);
+      checkedStops.push({ outcome, price: quote.price });
       if (slCheck.shouldExit) {
+        trace.stages.push({
+          stage: 'STOP_LOSS',
+          outcome: 'ADJUST',
+          inputs: { checked: checkedStops },
+          result: { outcome, reason: slCheck.reason, amount: position.position }
+        });
         await this.logEvent('STOP_LOSS_TRIGGERED', { 
           marketId: decision.marketId,
+          outcome,
           reason: slCheck.reason 
         });
         // Override decision to sell
         return {
           action: 'SELL',
-          amount: this.getPositionSize(decision.marketId),
+          amount: position.position,
           marketId: decision.marketId,
+          outcome,
           reason: `Stop loss: ${slCheck.reason}`,
           confidence: 1.0
         };
       }
     }
 
+    trace.stages.push({ stage: 'STOP_LOSS', outcome: checkedStops.length > 0 ? 'PASS' : 'SKIP', inputs: { checked: checkedStops } });
+
     return {
       ...decision,
       amount: positionSize
     };
   }
 
+  /**
+   * Execute a decision on the venue, returning what actually filled
+   */
+  protected async executeOnVenue(decision: TradeDecision): Promise<Fill> {
+    const order: OrderRequest = {
+      marketId: decision.marketId,
+      outcome: decision.outcome,
+      side: decision.action === 'BUY' ? 'BUY' : 'SELL',
+      amount: decision.action === 'BUY' ? this.toQuantity(decision) : decision.amount
+    };
+    if (decision.privateSubmission) {
+      order.privateSubmission = true;
+    }
+
+    const orderId = await this.venue.submitOrder(order);
+    let report = await this.venue.getFill(orderId);
+
+    if (report.status === 'OPEN' || report.status === 'PARTIALLY_FILLED') {
+      // Keep what filled, cancel the remainder
+      await this.venue.cancelOrder(orderId);
+      report = await this.venue.getFill(orderId);
+    }
+
+    if (report.filledAmount <= 0n) {
+      throw new Error(`Order ${orderId} not filled: ${report.reason || report.status}`);
+    }
+
+    return { price: report.averagePrice, amount: report.filledAmount };
+  }
+
+  /**
+   * Convert a BUY decision's notional stake into shares at the outcome's price
+   */
+  private toQuantity(decision: TradeDecision): bigint {
+    const marketData = this.latestMarketData.get(decision.marketId);
+    const price = marketData ? findOutcomeQuote(marketData, decision.outcome)?.price || 0n : 0n;
+    if (price <= 0n) {
+      throw new Error(`No market price for ${decision.marketId}`);
+    }
+    return sharesForNotional(decision.amount, price);
+  }
+
+  /**
+   * Set the venue used for trade execution
+   */
+  setVenue(venue: ExecutionVenue): void {
+    this.venue = venue;
+  }
+
+  /**
+   * Get the venue used for trade execution
+   */
+  getVenue(): ExecutionVenue {
+    return this.venue;
+  }
+
+  /**
+   * Seed a simulated venue's balance and holdings from the agent's book,
+   * so recovered or restored positions can be sold
+   */
+  syncVenue(): void {
+    this.venue.syncAccount?.(this.portfolio.cash, this.portfolio.positions.map(p => ({
+      marketId: p.marketId,
+      outcome: p.outcome || 'YES',
+      shares: p.position
+    })));
+  }
+
+  /**
+   * Get the clock the agent was built with
+   */
+  getClock(): Clock {
+    return this.clock;
+  }
+
+  /**
+   * Revalue open positions at the latest market price
+   */
+  protected markToMarket(marketData: MarketData): void {
+    const positions = this.getPositions(marketData.marketId);
+    if (positions.length === 0) {
+      return;
+    }
+
+    for (const position of positions) {
+      const quote = findOutcomeQuote(marketData, position.outcome || 'YES');
+      if (quote) {
+        position.currentPrice = quote.price;
+      }
+    }
+    this.updateTotalValue();
+  }
+
+  /**
+   * Settle every position in a resolved market to cash
+   */
+  async resolveMarket(resolution: MarketResolution): Promise<Settlement[]> {
+    if (this.resolvedMarkets.has(resolution.marketId)) {
+      throw new Error(`Market already resolved: ${resolution.marketId}`);
+    }
+    this.resolvedMarkets.set(resolution.marketId, resolution);
+
+    const settlements: Settlement[] = [];
+    for (const position of this.getPositions(resolution.marketId)) {
+      const outcome = position.outcome || 'YES';
+      const settlement = settleShares(resolution, outcome, position.position, position.entryPrice);
+
+      this.portfolio.cash += settlement.payout;
+      this.stopLossManagers.get(positionKey(resolution.marketId, outcome))?.deactivate();
+      this.stopLossManagers.delete(positionKey(resolution.marketId, outcome));
+      settlements.push(settlement);
+    }
+
+    this.portfolio.positions = this.portfolio.positions.filter(p => p.marketId !== resolution.marketId);
+    await this.venue.settleMarket?.(resolution);
+    this.updateTotalValue();
+
+    await this.logEvent('MARKET_RESOLVED', {
+      resolution,
+      settlements,
+      realizedPnl: settlements.reduce((total, s) => total + s.realizedPnl, 0n),
+      portfolio: this.portfolio
+    });
+
+    return settlements;
+  }
+
   /**
    * Update position after trade
    */
@@ -325,9 +1034,12 @@ export abstract class BaseAgent {
     marketId: string,
     amount: bigint,
     price: bigint,
-    isBuy: boolean
+    isBuy: boolean,
+    outcome: OutcomeId
   ): Promise<void> {
-    const existingPosition = this.portfolio.positions.find(p => p.marketId === marketId);
+    const existingPosition = this.getPositions(marketId).find(p => p.outcome === outcome);
+    const key = positionKey(marketId, outcome);
+    let realizedPnl: bigint | null = null;
 
     if (isBuy) {
       if (existingPosition) {
@@ -339,10 +1051,11 @@ export abstract class BaseAgent {
       } else {
         this.portfolio.positions.push({
           marketId,
+          outcome,
           position: amount,
           entryPrice: price,
           currentPrice: price,
-          timestamp: Date.now()
+          timestamp: this.clock.now()
         });
       }
 
@@ -350,21 +1063,23 @@ export abstract class BaseAgent {
       const slParams: StopLossParams = {
         entryPrice: price,
         stopLossPercent: this.config.stopLossPercent,
-        takeProfitPercent: this.config.takeProfitPercent
+        takeProfitPercent: this.config.takeProfitPercent,
+        outcome
       };
-      this.stopLossManagers.set(marketId, new StopLossManager(slParams));
+      this.stopLossManagers.set(key, new StopLossManager(slParams));
 
-      this.portfolio.cash -= amount * price;
+      this.portfolio.cash -= shareValue(amount, price);
 
     } else {
       if (existingPosition) {
+        realizedPnl = shareValue(amount, price) - shareValue(amount, existingPosition.entryPrice);
         existingPosition.position -= amount;
         if (existingPosition.position <= 0n) {
-          this.portfolio.positions = this.portfolio.positions.filter(p => p.marketId !== marketId);
-          this.stopLossManagers.delete(marketId);
+          this.portfolio.positions = this.portfolio.positions.filter(p => p !== existingPosition);
+          this.stopLossManagers.delete(key);
         }
       }
-      this.portfolio.cash += amount * price;
+      this.portfolio.cash += shareValue(amount, price);
     }
 
     // Update total value
@@ -372,9 +1087,11 @@ export abstract class BaseAgent {
 
     await this.logEvent('POSITION_UPDATE', { 
       marketId, 
+      outcome,
       amount, 
       price, 
       isBuy,
+      realizedPnl,
       portfolio: this.portfolio 
     });
   }
@@ -385,31 +1102,110 @@ export abstract class BaseAgent {
   protected updateTotalValue(): void {
     let positionValue = 0n;
     for (const pos of this.portfolio.positions) {
-      positionValue += pos.position * pos.currentPrice;
+      positionValue += shareValue(pos.position, pos.currentPrice);
     }
     this.portfolio.totalValue = this.portfolio.cash + positionValue;
   }
 
   /**
-   * Get current position size in a market
+   * Get current position size in a market, for one outcome or all of them
+   */
+  protected getPositionSize(marketId: string, outcome?: OutcomeId): bigint {
+    return this.getPositions(marketId)
+      .filter(p => !outcome || p.outcome === outcome)
+      .reduce((total, p) => total + p.position, 0n);
+  }
+
+  /**
+   * Get the outcome whose shares are held in a market, if any
+   */
+  protected getHeldOutcome(marketId: string): OutcomeId | null {
+    return this.getPositions(marketId)[0]?.outcome || null;
+  }
+
+  /**
+   * Whether a prediction is a call to open a position in the selected outcome.
+   * A binary NO prediction without a distribution only says to stay out, as a
+   * false outcome did before outcome shares; backing NO takes a distribution.
    */
-  protected getPositionSize(marketId: string): bigint {
-    const pos = this.portfolio.positions.find(p => p.marketId === marketId);
-    return pos?.position || 0n;
+  protected isEntrySignal(prediction: Prediction, target: { outcome: OutcomeId }): boolean {
+    return prediction.distribution !== undefined || target.outcome !== 'NO';
+  }
+
+  /**
+   * Pick the outcome to back: the predicted outcome, or with a distribution
+   * the outcome whose probability most exceeds its price
+   */
+  protected selectOutcome(
+    marketData: MarketData,
+    prediction: Prediction
+  ): { outcome: OutcomeId; probability: number } | null {
+    const quotes = marketOutcomes(marketData);
+
+    if (!prediction.distribution) {
+      return quotes.some(q => q.outcome === prediction.outcome)
+        ? { outcome: prediction.outcome, probability: prediction.confidence }
+        : null;
+    }
+
+    if (!isValidDistribution(prediction.distribution)) {
+      return null;
+    }
+
+    let best: { outcome: OutcomeId; probability: number } | null = null;
+    let bestEdge = 0;
+    for (const quote of quotes) {
+      const probability = prediction.distribution[quote.outcome] || 0;
+      const edge = probability - Number(quote.price) / Number(PRICE_SCALE);
+      if (edge > bestEdge) {
+        best = { outcome: quote.outcome, probability };
+        bestEdge = edge;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Get open positions in a market
+   */
+  protected getPositions(marketId: string): PortfolioPosition[] {
+    return this.portfolio.positions.filter(p => p.marketId === marketId);
   }
 
   /**
    * Log event to audit trail
    */
-  protected async logEvent(type: string, data: any): Promise<void> {
+  protected async logEvent<K extends AuditEventType>(type: K, data: AuditEventPayloads[K]): Promise<void> {
     await this.auditLogger.log({
       type,
       agent: this.config.name,
       data,
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     });
   }
 
+  /**
+   * Feed a round of oracle price readings
+   */
+  updateOraclePrices(prices: Record<string, bigint>, timestamp: number): void {
+    this.oracleMonitor.updatePrices(prices, timestamp);
+  }
+
+  /**
+   * Get oracle sources the agent monitors
+   */
+  getOracleSources(): string[] {
+    return this.oracleMonitor.getSources();
+  }
+
+  /**
+   * Get current portfolio state
+   */
+  getPortfolio(): PortfolioState {
+    return this.portfolio;
+  }
+
   /**
    * Register alert handler
    */
@@ -424,7 +1220,12 @@ export abstract class BaseAgent {
     for (const handler of this.alertHandlers) {
       handler(alert);
     }
-    await this.logEvent('SECURITY_ALERT', alert);
+    await this.auditLogger.logSecurityAlert({
+      agent: this.config.name,
+      alertType: alert.type,
+      severity: 'severity' in alert ? alert.severity : 'HIGH', // Sandwich alerts carry no severity
+      details: alert
+    });
   }
 
   /**
@@ -445,4 +1246,11 @@ export abstract class BaseAgent {
       positions: this.portfolio.positions.length
     };
   }
+}
+
+/**
+ * Key for per-outcome state within a market
+ */
+function positionKey(marketId: string, outcome: OutcomeId): string {
+  return `${marketId}:${outcome}`;
 }
\ No newline at end of file
@@ -11,19 +11,55 @@
 
 import { BaseAgent, AgentConfig, MarketData, Prediction, TradeDecision } from './base-agent';
 import { AuditLogger } from '../audit/audit-trail';
+import { Clock } from '../utils/clock';
+import { RiskPolicyConfig, mergeRiskPolicy } from '../security/market-risk';
 import { calculateVolatilityAdjusted, PortfolioBalancer } from '../risk/position-sizing';
 
 export interface ConservativeConfig {
   wallet: { address: string; balance: bigint };
   auditLogger: AuditLogger;
+  clock?: Clock;
   customParams?: {
     confidenceThreshold?: number;
     maxPositionPercent?: number;
     stopLossPercent?: number;
+    feeBps?: number;
+    riskPolicy?: RiskPolicyConfig;
     maxVolatility?: number;
   };
 }
 
+/**
+ * Default manipulation responses: wash trading halts the market for 2h,
+ * MEDIUM alerts reduce size and HIGH alerts block
+ */
+export const CONSERVATIVE_RISK_POLICY: RiskPolicyConfig = {
+  bySeverity: { MEDIUM: 'REDUCE', HIGH: 'BLOCK' },
+  rules: [
+    {
+      name: 'halt-on-wash-trading',
+      alertTypes: ['CIRCULAR_TRADING', 'SELF_TRADING', 'VOLUME_INFLATION'],
+      minSeverity: 'MEDIUM',
+      action: 'HALT_MARKET',
+      durationMs: 7200000 // 2 hours
+    },
+    {
+      name: 'halve-on-price-impact',
+      alertTypes: ['PRICE_IMPACT'],
+      minSeverity: 'MEDIUM',
+      action: 'SCALE_SIZE',
+      sizeMultiplier: 0.5,
+      durationMs: 3600000 // 1 hour
+    },
+    {
+      name: 'private-on-sandwich',
+      alertTypes: ['SANDWICH_ATTACK', 'FRONT_RUN', 'BACK_RUN', 'SANDWICH_RISK'],
+      action: 'PRIVATE_SUBMISSION',
+      durationMs: 86400000 // 24 hours
+    }
+  ]
+};
+
 export class ConservativeBot extends BaseAgent {
   constructor(config: ConservativeConfig) {
     const agentConfig: AgentConfig = {
@@ -37,10 +73,12 @@ export class ConservativeBot extends BaseAgent {
       maxTotalDrawdownPercent: 0.10, // 10% total limit
       rebalanceThreshold: 0.02,
       whaleThreshold: BigInt('1000000000000000000'), // 1 ETH
-      tradingEnabled: true
+      tradingEnabled: true,
+      feeBps: config.customParams?.feeBps,
+      riskPolicy: mergeRiskPolicy(CONSERVATIVE_RISK_POLICY, config.customParams?.riskPolicy)
     };
 
-    super(agentConfig, config.wallet, config.auditLogger);
+    super(agentConfig, config.wallet, config.auditLogger, config.clock);
     
     // Set conservative allocations
     this.portfolioBalancer = new PortfolioBalancer(
@@ -64,10 +102,10 @@ export class ConservativeBot extends BaseAgent {
     if (marketData.volatility > this.maxVolatility) {
       return {
         marketId: marketData.marketId,
-        outcome: false,
+        outcome: 'NO',
         confidence: 0,
         expectedValue: 0,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       };
     }
 
@@ -79,19 +117,19 @@ export class ConservativeBot extends BaseAgent {
     if (confidence < this.config.minConfidenceThreshold) {
       return {
         marketId: marketData.marketId,
-        outcome: false,
+        outcome: 'NO',
         confidence: 0,
         expectedValue: 0,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       };
     }
 
     return {
       marketId: marketData.marketId,
-      outcome: priceChange < 0, // Buy if price dropped
+      outcome: priceChange < 0 ? 'YES' : 'NO', // Back YES if price dropped
       confidence,
       expectedValue: confidence * 0.5, // Conservative EV estimate
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     };
   }
 
@@ -100,7 +138,7 @@ export class ConservativeBot extends BaseAgent {
     prediction: Prediction
   ): Promise<TradeDecision | null> {
     
-    // Additional safety checks for conservative bot
+    // Additional safety checks for conservative bot; no view comes with zero confidence
     if (prediction.confidence < this.config.minConfidenceThreshold) {
       return null;
     }
@@ -114,61 +152,69 @@ export class ConservativeBot extends BaseAgent {
     // Check for recent volatility spike
     if (marketData.volatility > this.maxVolatility) {
       await this.logEvent('HIGH_VOLATILITY_SKIP', { 
+        marketId: marketData.marketId,
         volatility: marketData.volatility,
         max: this.maxVolatility 
       });
       return null;
     }
 
-    const existingPosition = this.getPositionSize(marketData.marketId);
+    const target = this.selectOutcome(marketData, prediction);
+    if (!target) {
+      return null;
+    }
 
-    if (prediction.outcome) {
-      // Buy signal
-      if (existingPosition > 0n) {
-        return null; // Already holding
+    const heldOutcome = this.getHeldOutcome(marketData.marketId);
+
+    if (!heldOutcome) {
+      if (!this.isEntrySignal(prediction, target)) {
+        return null;
       }
 
+      // Buy signal
       return {
         action: 'BUY',
         amount: 0n, // Will be set by risk management
         marketId: marketData.marketId,
-        reason: `High confidence buy signal: ${(prediction.confidence * 100).toFixed(1)}%`,
-        confidence: prediction.confidence
+        outcome: target.outcome,
+        reason: `High confidence ${target.outcome} signal: ${(target.probability * 100).toFixed(1)}%`,
+        confidence: target.probability
       };
-    } else {
-      // Sell signal
-      if (existingPosition <= 0n) {
-        return null;
-      }
+    }
 
-      return {
-        action: 'SELL',
-        amount: existingPosition,
-        marketId: marketData.marketId,
-        reason: `Exit signal: confidence dropped to ${(prediction.confidence * 100).toFixed(1)}%`,
-        confidence: prediction.confidence
-      };
+    if (heldOutcome === target.outcome) {
+      return null; // Already holding
     }
+
+    // Sell signal - prediction turned against the held outcome
+    return {
+      action: 'SELL',
+      amount: this.getPositionSize(marketData.marketId, heldOutcome),
+      marketId: marketData.marketId,
+      outcome: heldOutcome,
+      reason: `Exit signal: ${target.outcome} predicted at ${(target.probability * 100).toFixed(1)}%`,
+      confidence: prediction.confidence
+    };
   }
 
   async executeTrade(decision: TradeDecision): Promise<boolean> {
     try {
       await this.logEvent('EXECUTING_TRADE', { decision });
 
-      // Simulate trade execution
-      // In production, this would call the actual DEX/market contract
-      const price = BigInt(1000); // Mock price
+      const { price, amount } = await this.executeOnVenue(decision);
       
       await this.updatePosition(
         decision.marketId,
-        decision.amount,
+        amount,
         price,
-        decision.action === 'BUY'
+        decision.action === 'BUY',
+        decision.outcome
       );
 
       await this.logEvent('TRADE_EXECUTED', { 
         decision,
         price,
+        amount,
         newBalance: this.portfolio.cash 
       });
 
@@ -193,6 +239,7 @@ export class ConservativeBot extends BaseAgent {
         action: 'SELL',
         amount: position.position,
         marketId: position.marketId,
+        outcome: position.outcome || 'YES',
         reason: 'Emergency de-risking due to market conditions',
         confidence: 1.0
       };
@@ -36,7 +36,7 @@ async function main() {
   const markets: MarketData[] = [
     {
       marketId: 'ETH-USD-2024',
-      currentPrice: BigInt('250000000000'),
+      currentPrice: BigInt('550000000000000000'), // YES at 0.55
       liquidity: BigInt('5000000000000000000'),
       volume24h: BigInt('50000000000000000000'), // High volume
       volatility: 0.45, // High volatility
@@ -44,7 +44,7 @@ async function main() {
     },
     {
       marketId: 'SOL-USD-2024',
-      currentPrice: BigInt('10000000000'),
+      currentPrice: BigInt('300000000000000000'), // YES at 0.30
       liquidity: BigInt('2000000000000000000'),
       volume24h: BigInt('3000000000000000000'),
       volatility: 0.50,
@@ -52,7 +52,7 @@ async function main() {
     },
     {
       marketId: 'MEME-USD-2024',
-      currentPrice: BigInt('1000000'),
+      currentPrice: BigInt('80000000000000000'), // YES at 0.08
       liquidity: BigInt('1000000000000000000'),
       volume24h: BigInt('5000000000000000000'),
       volatility: 0.60,
@@ -63,7 +63,7 @@ async function main() {
   for (const market of markets) {
     console.log(`\nProcessing ${market.marketId} (vol: ${market.volatility})...`);
     const prediction = await bot.generatePrediction(market);
-    console.log(`  Prediction: ${prediction.outcome ? 'UP' : 'DOWN'} (${(prediction.confidence * 100).toFixed(1)}%)`);
+    console.log(`  Prediction: ${prediction.outcome} (${(prediction.confidence * 100).toFixed(1)}%)`);
     
     const decision = await bot.processMarketData(market, prediction);
     if (decision) {
@@ -35,7 +35,7 @@ async function main() {
   const markets: MarketData[] = [
     {
       marketId: 'ETH-USD-2024',
-      currentPrice: BigInt('250000000000'),
+      currentPrice: BigInt('550000000000000000'), // YES at 0.55
       liquidity: BigInt('5000000000000000000'),
       volume24h: BigInt('10000000000000000000'),
       volatility: 0.20,
@@ -43,7 +43,7 @@ async function main() {
     },
     {
       marketId: 'BTC-USD-2024',
-      currentPrice: BigInt('4500000000000'),
+      currentPrice: BigInt('420000000000000000'), // YES at 0.42
       liquidity: BigInt('10000000000000000000'),
       volume24h: BigInt('20000000000000000000'),
       volatility: 0.25,
@@ -54,7 +54,7 @@ async function main() {
   for (const market of markets) {
     console.log(`\nProcessing ${market.marketId}...`);
     const prediction = await bot.generatePrediction(market);
-    console.log(`  Prediction: ${prediction.outcome ? 'UP' : 'DOWN'} (${(prediction.confidence * 100).toFixed(1)}%)`);
+    console.log(`  Prediction: ${prediction.outcome} (${(prediction.confidence * 100).toFixed(1)}%)`);
     
     const decision = await bot.processMarketData(market, prediction);
     if (decision) {
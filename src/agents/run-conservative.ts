@@ -39,7 +39,7 @@ async function main() {
   // Simulate market data processing
   const mockMarketData: MarketData = {
     marketId: 'ETH-USD-2024',
-    currentPrice: BigInt('250000000000'),
+    currentPrice: BigInt('550000000000000000'), // YES at 0.55
     liquidity: BigInt('5000000000000000000'),
     volume24h: BigInt('10000000000000000000'),
     volatility: 0.15,
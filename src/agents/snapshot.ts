@@ -0,0 +1,70 @@
+/**
+ * Agent Snapshots
+ *
+ * Versioned captures of an agent's full state for fast restarts:
+ * - Portfolio, stop losses with their trailing extremes, drawdown state
+ * - Detector histories and subclass state
+ * - Canonical hashes, which checkpoints record in the audit trail
+ */
+
+import { ethers } from 'ethers';
+import { DrawdownState, PortfolioState, StopLossState } from '../risk/position-sizing';
+import {
+  WhaleDetectorState,
+  WashTradingState,
+  OracleMonitorState,
+  SandwichProtectorState
+} from '../security/anti-manipulation';
+import { SpoofingDetectorState } from '../security/spoofing';
+import { PumpAndDumpState } from '../security/pump-and-dump';
+import { MarketResolution, OutcomeId } from '../markets/outcome-shares';
+import { canonicalize, taggedReplacer, taggedReviver } from '../audit/canonical';
+
+/**
+ * Layout version written to new snapshots
+ */
+export const SNAPSHOT_VERSION = 1;
+
+export interface AgentSnapshot {
+  version: number;
+  agent: string;
+  takenAt: number;
+  portfolio: PortfolioState;
+  stopLosses: Array<{ marketId: string; outcome: OutcomeId; state: StopLossState }>;
+  drawdown: DrawdownState;
+  resolvedMarkets: MarketResolution[];
+  detectors: {
+    whale: WhaleDetectorState;
+    washTrading: WashTradingState;
+    oracle: OracleMonitorState;
+    sandwich: SandwichProtectorState;
+    spoofing?: SpoofingDetectorState; // Absent from older snapshots
+    pumpAndDump?: PumpAndDumpState; // Absent from older snapshots
+  };
+  extension: Record<string, any>; // Subclass state, e.g. active trades
+}
+
+/**
+ * Hash of a snapshot's canonical encoding, as logged by checkpoints
+ */
+export function hashSnapshot(snapshot: AgentSnapshot): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(canonicalize(snapshot)));
+}
+
+/**
+ * Encode a snapshot for storage
+ */
+export function serializeSnapshot(snapshot: AgentSnapshot): string {
+  return JSON.stringify(snapshot, taggedReplacer);
+}
+
+/**
+ * Decode a stored snapshot, rejecting layouts this version cannot restore
+ */
+export function parseSnapshot(json: string): AgentSnapshot {
+  const snapshot = JSON.parse(json, taggedReviver);
+  if (snapshot?.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${snapshot?.version}`);
+  }
+  return snapshot;
+}
\ No newline at end of file
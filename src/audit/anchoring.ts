@@ -0,0 +1,365 @@
+/**
+ * Audit Anchoring
+ *
+ * Publishes audit entries to the PredicGuardAudit contract:
+ * - Batches unanchored entries through logEntryBatch
+ * - Periodically anchors the Merkle root through updateMerkleRoot
+ * - Tracks per-entry status with transaction hash and block
+ * - Retries failed batches with exponential backoff
+ * - Defers entries timestamped after the latest block, and retries a reverted
+ *   batch entry by entry so one rejected entry cannot hold back the rest
+ */
+
+import { ethers, isError } from 'ethers';
+import { AuditEntry } from './audit-trail';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Transaction as returned by an ethers contract call
+ */
+export interface AnchorTransaction {
+  hash: string;
+  wait(confirmations?: number): Promise<{ hash: string; blockNumber: number; status?: number | null } | null>;
+}
+
+/**
+ * The parts of PredicGuardAudit the anchor uses
+ */
+export interface AnchorContract {
+  logEntryBatch(hashes: string[], timestamps: bigint[], entryTypes: string[]): Promise<AnchorTransaction>;
+  updateMerkleRoot(root: string): Promise<AnchorTransaction>;
+  getEntry(hash: string): Promise<[bigint, string, string, boolean]>;
+}
+
+export interface AnchorConfig {
+  batchSize?: number;
+  maxAttempts?: number; // Attempts per entry before it is marked FAILED
+  baseDelayMs?: number; // First retry delay, doubled on each failure
+  maxDelayMs?: number;
+  rootIntervalMs?: number; // Minimum time between Merkle root anchors
+  confirmations?: number;
+  clock?: Clock;
+  chainTime?: () => Promise<number>; // Latest block time in ms; entries after it are deferred
+}
+
+export type AnchorState = 'PENDING' | 'SUBMITTED' | 'ANCHORED' | 'FAILED';
+
+export interface AnchorStatus {
+  hash: string;
+  state: AnchorState;
+  attempts: number;
+  txHash?: string;
+  blockNumber?: number;
+  nextAttemptAt?: number;
+  error?: string;
+}
+
+export interface RootAnchor {
+  root: string;
+  entryCount: number;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface AnchorResult {
+  anchored: number;
+  failed: number;
+  root?: RootAnchor;
+}
+
+/**
+ * Audit Anchor
+ * Moves audit entries and Merkle roots on-chain
+ */
+export class AuditAnchor {
+  private contract: AnchorContract;
+  private clock: Clock;
+  private batchSize: number;
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private rootIntervalMs: number;
+  private confirmations: number;
+  private chainTime?: () => Promise<number>;
+  private queue: AuditEntry[] = [];
+  private statuses: Map<string, AnchorStatus> = new Map();
+  private unconfirmed: Set<string> = new Set(); // May already be on-chain
+  private roots: RootAnchor[] = [];
+  private rootAttempts: number = 0;
+  private rootRetryAt: number = 0;
+  private inFlight: Promise<AnchorResult> | null = null;
+
+  constructor(contract: AnchorContract, config: AnchorConfig = {}) {
+    this.contract = contract;
+    this.clock = config.clock || systemClock;
+    this.batchSize = config.batchSize || 50;
+    this.maxAttempts = config.maxAttempts || 5;
+    this.baseDelayMs = config.baseDelayMs || 1000;
+    this.maxDelayMs = config.maxDelayMs || 300000; // 5 minutes
+    this.rootIntervalMs = config.rootIntervalMs ?? 600000; // 10 minutes
+    this.confirmations = config.confirmations || 1;
+    this.chainTime = config.chainTime;
+
+    if (this.batchSize <= 0 || this.maxAttempts <= 0) {
+      throw new Error('Anchor batch size and attempts must be positive');
+    }
+  }
+
+  /**
+   * Queue an entry for anchoring. Entries reloaded from storage may
+   * already be on-chain and are checked before resubmission.
+   */
+  track(entry: AuditEntry, possiblyAnchored: boolean = false): void {
+    if (!entry.hash || this.statuses.has(entry.hash)) {
+      return;
+    }
+
+    this.statuses.set(entry.hash, { hash: entry.hash, state: 'PENDING', attempts: 0 });
+    this.queue.push(entry);
+    if (possiblyAnchored) {
+      this.unconfirmed.add(entry.hash);
+    }
+  }
+
+  /**
+   * Submit every due batch, then anchor the root if the interval has passed.
+   * Concurrent calls share the flush already in progress.
+   */
+  async flush(root: string, entryCount: number): Promise<AnchorResult> {
+    if (!this.inFlight) {
+      this.inFlight = this.runFlush(root, entryCount).finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Put entries that exhausted their attempts back in the queue
+   */
+  retryFailed(): number {
+    let count = 0;
+    for (const status of this.statuses.values()) {
+      if (status.state === 'FAILED') {
+        status.state = 'PENDING';
+        status.attempts = 0;
+        status.nextAttemptAt = undefined;
+        count++;
+      }
+    }
+    return count;
+  }
+
+  getStatus(hash: string): AnchorStatus | undefined {
+    const status = this.statuses.get(hash);
+    return status ? { ...status } : undefined;
+  }
+
+  getStatuses(): AnchorStatus[] {
+    return Array.from(this.statuses.values()).map(s => ({ ...s }));
+  }
+
+  getRootAnchors(): RootAnchor[] {
+    return [...this.roots];
+  }
+
+  getPendingCount(): number {
+    return this.queue.filter(e => this.statuses.get(e.hash!)?.state !== 'ANCHORED').length;
+  }
+
+  private async runFlush(root: string, entryCount: number): Promise<AnchorResult> {
+    const result: AnchorResult = { anchored: 0, failed: 0 };
+
+    let batch = this.dueBatch();
+    while (batch.length > 0) {
+      const { anchored, failed } = await this.submitBatch(batch);
+      result.anchored += anchored;
+      result.failed += failed;
+      if (anchored === 0 && failed > 0) {
+        break; // Back off rather than pushing later batches into a failing node
+      }
+      batch = this.dueBatch();
+    }
+
+    this.queue = this.queue.filter(e => this.statuses.get(e.hash!)?.state !== 'ANCHORED');
+
+    if (this.shouldAnchorRoot(root)) {
+      result.root = await this.anchorRoot(root, entryCount);
+    }
+
+    return result;
+  }
+
+  private dueBatch(): AuditEntry[] {
+    const now = this.clock.now();
+    return this.queue.filter(e => {
+      const status = this.statuses.get(e.hash!)!;
+      return status.state === 'PENDING' && (status.nextAttemptAt ?? 0) <= now;
+    }).slice(0, this.batchSize);
+  }
+
+  /**
+   * Submit one batch; returns how many entries ended up anchored and how many failed.
+   * Deferred entries count as neither.
+   */
+  private async submitBatch(batch: AuditEntry[]): Promise<{ anchored: number; failed: number }> {
+    let anchored = 0;
+    let due = batch;
+    const toSubmit: AuditEntry[] = [];
+    let reverted = false;
+    for (const entry of batch) {
+      this.statuses.get(entry.hash!)!.attempts++;
+    }
+
+    try {
+      // The contract rejects timestamps after the latest block, so those wait for the chain
+      if (this.chainTime) {
+        const chainNow = await this.chainTime();
+        due = batch.filter(e => Math.floor(e.timestamp / 1000) * 1000 <= chainNow);
+        for (const entry of batch) {
+          if (!due.includes(entry)) {
+            this.defer(entry, chainNow);
+          }
+        }
+      }
+
+      // A previous attempt may have landed without us seeing the receipt
+      for (const entry of due) {
+        if (this.unconfirmed.has(entry.hash!) && await this.isOnChain(entry.hash!)) {
+          this.markAnchored(entry.hash!);
+          anchored++;
+        } else {
+          toSubmit.push(entry);
+        }
+      }
+
+      if (toSubmit.length === 0) {
+        return { anchored, failed: 0 };
+      }
+
+      for (const entry of toSubmit) {
+        this.statuses.get(entry.hash!)!.state = 'SUBMITTED';
+      }
+
+      const tx = await this.contract.logEntryBatch(
+        toSubmit.map(e => e.hash!),
+        toSubmit.map(e => BigInt(Math.floor(e.timestamp / 1000))), // Contract stores seconds
+        toSubmit.map(e => e.type)
+      );
+      const receipt = await tx.wait(this.confirmations);
+      if (!receipt || receipt.status === 0) {
+        reverted = true;
+        throw new Error(`Anchoring transaction ${tx.hash} reverted`);
+      }
+
+      for (const entry of toSubmit) {
+        this.markAnchored(entry.hash!, receipt.hash, receipt.blockNumber);
+      }
+      return { anchored: anchored + toSubmit.length, failed: 0 };
+    } catch (error) {
+      // A revert names no entry, so retry each one alone; existing ones are then skipped
+      if (toSubmit.length > 1 && (reverted || isError(error, 'CALL_EXCEPTION'))) {
+        let failed = 0;
+        for (const entry of toSubmit) {
+          this.statuses.get(entry.hash!)!.attempts--; // Counted again by the single submission
+          this.unconfirmed.add(entry.hash!);
+          const single = await this.submitBatch([entry]);
+          anchored += single.anchored;
+          failed += single.failed;
+        }
+        return { anchored, failed };
+      }
+
+      const failed = due.filter(e => this.statuses.get(e.hash!)!.state !== 'ANCHORED');
+      this.markFailed(failed, error);
+      return { anchored, failed: failed.length };
+    }
+  }
+
+  /**
+   * Hold an entry timestamped after the chain until blocks catch up, without spending an attempt
+   */
+  private defer(entry: AuditEntry, chainNow: number): void {
+    const status = this.statuses.get(entry.hash!)!;
+    status.attempts--;
+    const wait = Math.min(Math.max(entry.timestamp - chainNow, this.baseDelayMs), this.maxDelayMs);
+    status.state = 'PENDING';
+    status.nextAttemptAt = this.clock.now() + wait;
+    status.error = `Timestamp ${entry.timestamp} is after the latest block at ${chainNow}`;
+  }
+
+  private async isOnChain(hash: string): Promise<boolean> {
+    const [timestamp] = await this.contract.getEntry(hash);
+    return timestamp !== 0n;
+  }
+
+  private markAnchored(hash: string, txHash?: string, blockNumber?: number): void {
+    const status = this.statuses.get(hash)!;
+    status.state = 'ANCHORED';
+    status.txHash = txHash;
+    status.blockNumber = blockNumber;
+    status.nextAttemptAt = undefined;
+    status.error = undefined;
+    this.unconfirmed.delete(hash);
+  }
+
+  private markFailed(batch: AuditEntry[], error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    for (const entry of batch) {
+      const status = this.statuses.get(entry.hash!)!;
+      if (status.state === 'ANCHORED') continue;
+
+      status.error = message;
+      this.unconfirmed.add(entry.hash!);
+      if (status.attempts >= this.maxAttempts) {
+        status.state = 'FAILED';
+        status.nextAttemptAt = undefined;
+      } else {
+        status.state = 'PENDING';
+        status.nextAttemptAt = this.clock.now() + this.backoff(status.attempts);
+      }
+    }
+  }
+
+  private shouldAnchorRoot(root: string): boolean {
+    if (root === ethers.ZeroHash || this.clock.now() < this.rootRetryAt) {
+      return false;
+    }
+
+    const last = this.roots[this.roots.length - 1];
+    return !last || (last.root !== root && this.clock.now() - last.timestamp >= this.rootIntervalMs);
+  }
+
+  private async anchorRoot(root: string, entryCount: number): Promise<RootAnchor | undefined> {
+    try {
+      const tx = await this.contract.updateMerkleRoot(root);
+      const receipt = await tx.wait(this.confirmations);
+      if (!receipt || receipt.status === 0) {
+        throw new Error(`Root anchoring transaction ${tx.hash} reverted`);
+      }
+
+      const anchor: RootAnchor = {
+        root,
+        entryCount,
+        txHash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        timestamp: this.clock.now()
+      };
+      this.roots.push(anchor);
+      this.rootAttempts = 0;
+      this.rootRetryAt = 0;
+      return anchor;
+    } catch (error) {
+      this.rootAttempts++;
+      this.rootRetryAt = this.clock.now() + this.backoff(this.rootAttempts);
+      console.error('Failed to anchor Merkle root:', error);
+      return undefined;
+    }
+  }
+
+  private backoff(attempts: number): number {
+    return Math.min(this.baseDelayMs * 2 ** (attempts - 1), this.maxDelayMs);
+  }
+}
\ No newline at end of file
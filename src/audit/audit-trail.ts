@@ -2,20 +2,103 @@
  * Audit Trail System
  * 
  * Provides tamper-proof logging of all agent activities.
- * Supports both local and on-chain logging for verification.
+ * Supports both local and on-chain logging for verification,
+ * with optional persistent storage that survives restarts.
  */
 
 import { ethers } from 'ethers';
+import { Clock, systemClock } from '../utils/clock';
+import { OutcomeId } from '../markets/outcome-shares';
+import { AuditStorage, JsonlFileStorage, RotationConfig } from './storage';
+import { CANONICAL_SCHEMA, bigintReplacer, canonicalize, taggedReplacer, taggedReviver } from './canonical';
+import { AuditEventType, EventSchema, TypedAuditEntry, entryMarketId, validateAuditEvent } from './events';
+import { AnchorConfig, AnchorContract, AnchorStatus, AuditAnchor, RootAnchor } from './anchoring';
 
 export interface AuditEntry {
   type: string;
   agent: string;
   data: any;
   timestamp: number;
+  schema?: number; // Hash encoding version; absent on entries from before canonical encoding
+  sequence?: number; // Position in the hash chain, starting at 0
+  prevHash?: string; // Hash of the preceding entry, zero for the first
+  flags?: string[]; // Validation problems found when the event was logged
   hash?: string;
   signature?: string;
 }
 
+/**
+ * Latest entry of a hash chain
+ */
+export interface ChainHead {
+  sequence: number;
+  hash: string;
+}
+
+/**
+ * Broken link in a hash chain
+ * - gap: sequence numbers skip, entries were removed
+ * - fork: a sequence number repeats or goes backwards
+ * - splice: consecutive sequence but prevHash names another entry
+ * - truncated: the trail stops short of its recorded chain head, or starts
+ *   mid-chain anywhere but at a rotated segment
+ */
+export interface ChainBreak {
+  index: number;
+  kind: 'gap' | 'fork' | 'splice' | 'truncated';
+  message: string;
+}
+
+/**
+ * Entry selection for getEntries and offline queries; all given fields must match
+ */
+export interface AuditEntryFilter {
+  type?: string;
+  agent?: string;
+  marketId?: string;
+  since?: number;
+  until?: number; // Inclusive
+  flagged?: boolean;
+}
+
+/**
+ * Proof that an entry's hash is a leaf of a Merkle root.
+ * Siblings run from the leaf level up; the index decides which side each sits on.
+ */
+export interface MerkleProof {
+  leaf: string;
+  index: number;
+  siblings: string[];
+  root: string; // Root at the time the proof was generated
+}
+
+/**
+ * Key trusted to sign an agent's entries, optionally only within a rotation window
+ */
+export interface SignerKey {
+  address: string;
+  validFrom?: number; // Inclusive
+  validUntil?: number; // Exclusive
+}
+
+/**
+ * Trusted keys by agent name; '*' applies to agents without their own keys
+ */
+export type SignerSet = Record<string, SignerKey[]>;
+
+export interface VerifyTrailOptions {
+  head?: ChainHead | null; // Recorded chain head, to catch truncation
+  signers?: SignerSet; // When set, every entry must be signed by a trusted key
+}
+
+export interface EntrySigner {
+  index: number;
+  agent: string;
+  signer: string | null; // Recovered address, null when unsigned or unrecoverable
+}
+
+export type LoggableEntry = Omit<AuditEntry, 'hash' | 'signature' | 'schema' | 'sequence' | 'prevHash' | 'flags'>;
+
 export interface AuditConfig {
   mode: 'local' | 'onchain' | 'both';
   localPath?: string;
@@ -23,6 +106,14 @@ export interface AuditConfig {
   contractAddress?: string;
   privateKey?: string;
   chainId?: number;
+  clock?: Clock;
+  storage?: AuditStorage; // Defaults to a JSONL file at localPath
+  rotation?: RotationConfig;
+  anchoring?: AnchorConfig;
+  anchorContract?: AnchorContract; // Use instead of connecting through rpcUrl
+  signingKey?: string; // Signs entries in any mode; defaults to the on-chain wallet
+  validation?: 'flag' | 'strict'; // Record problems on the entry, or reject the event
+  eventSchemas?: Record<string, EventSchema>; // Schemas for event types beyond the registry
 }
 
 export interface ChainConfig {
@@ -42,24 +133,80 @@ export class AuditLogger {
   private provider?: ethers.JsonRpcProvider;
   private wallet?: ethers.Wallet;
   private contract?: ethers.Contract;
-  private lastFlush: number = Date.now();
+  private clock: Clock;
+  private lastFlush: number;
   private flushIntervalMs: number = 60000; // 1 minute
   private merkleTree: string[] = [];
+  private storage?: AuditStorage;
+  private head: ChainHead | null = null;
+  private anchor?: AuditAnchor;
+  private signer?: ethers.Wallet;
+  private pending: Promise<unknown> = Promise.resolve(); // Tail of the queued log and rotate calls
 
-  // Simplified ABI for audit contract
+  // ABI for the PredicGuardAudit contract
   private static AUDIT_CONTRACT_ABI = [
-    'function logEntry(bytes32 hash, uint256 timestamp, string calldata entryType) external',
-    'function getEntry(bytes32 hash) external view returns (uint256, string memory, address)',
-    'function verifyEntry(bytes32 hash, bytes32 merkleRoot) external view returns (bool)',
-    'event EntryLogged(bytes32 indexed hash, uint256 timestamp, address indexed sender)'
+    'function logEntry(bytes32 hash, uint256 timestamp, string entryType) external returns (bool)',
+    'function logEntryBatch(bytes32[] hashes, uint256[] timestamps, string[] entryTypes) external returns (bool)',
+    'function updateMerkleRoot(bytes32 newRoot) external',
+    'function merkleRoot() external view returns (bytes32)',
+    'function getEntry(bytes32 hash) external view returns (uint256 timestamp, string entryType, address submitter, bool verified)',
+    'function verifyEntry(bytes32 hash, uint256 expectedTimestamp, address expectedSubmitter) external view returns (bool)',
+    'event EntryLogged(bytes32 indexed hash, uint256 timestamp, address indexed submitter, string entryType)',
+    'event MerkleRootUpdated(bytes32 newRoot)'
   ];
 
   constructor(config: AuditConfig) {
     this.config = config;
+    this.clock = config.clock || systemClock;
+    this.lastFlush = this.clock.now();
 
     if (config.mode === 'onchain' || config.mode === 'both') {
-      this.initializeOnChain(config as ChainConfig);
+      if (config.anchorContract) {
+        this.anchor = new AuditAnchor(config.anchorContract, { ...config.anchoring, clock: this.clock });
+      } else {
+        this.initializeOnChain(config as ChainConfig);
+      }
+    }
+
+    if (config.signingKey) {
+      this.signer = new ethers.Wallet(config.signingKey);
+    } else if (this.wallet) {
+      this.signer = this.wallet;
+    }
+
+    this.storage = config.storage ||
+      (config.localPath ? new JsonlFileStorage(config.localPath, config.rotation) : undefined);
+    if (this.storage) {
+      this.restore(this.storage);
+    }
+  }
+
+  /**
+   * Reload persisted entries, re-verify them and rebuild the Merkle tree
+   */
+  private restore(storage: AuditStorage): void {
+    const entries = storage.load();
+
+    entries.forEach((entry, index) => {
+      if (!this.verifyEntry(entry)) {
+        throw new Error(`Audit log failed verification at entry ${index}: hash mismatch`);
+      }
+    });
+
+    const [firstBreak] = AuditVerifier.verifyChain(entries);
+    if (firstBreak) {
+      throw new Error(`Audit log failed verification at entry ${firstBreak.index}: ${firstBreak.message}`);
+    }
+
+    this.entries = entries;
+    this.merkleTree = entries.map(e => e.hash!);
+
+    const last = entries[entries.length - 1];
+    if (last) {
+      this.head = { sequence: last.sequence ?? entries.length - 1, hash: last.hash! };
     }
+
+    entries.forEach(e => this.anchor?.track(e, true));
   }
 
   private initializeOnChain(config: ChainConfig): void {
@@ -71,6 +218,18 @@ export class AuditLogger {
         AuditLogger.AUDIT_CONTRACT_ABI,
         this.wallet
       );
+      const provider = this.provider;
+      this.anchor = new AuditAnchor(
+        this.contract as unknown as AnchorContract,
+        {
+          chainTime: async () => {
+            const block = await provider.getBlock('latest');
+            return block ? block.timestamp * 1000 : Infinity;
+          },
+          ...this.config.anchoring,
+          clock: this.clock
+        }
+      );
     } catch (error) {
       console.error('Failed to initialize on-chain logging:', error);
       // Fall back to local only
@@ -81,30 +240,84 @@ export class AuditLogger {
   /**
    * Log an entry
    */
-  async log(entry: Omit<AuditEntry, 'hash' | 'signature'>): Promise<AuditEntry> {
+  async log(entry: LoggableEntry): Promise<AuditEntry> {
+    const problems = validateAuditEvent(entry, this.config.eventSchemas);
+    if (problems.length > 0 && this.config.validation === 'strict') {
+      throw new Error(`Invalid audit event: ${problems.join('; ')}`);
+    }
+
+    return this.enqueue(() => this.append(entry, problems));
+  }
+
+  /**
+   * Run a log or rotate step once every earlier one has settled, so each
+   * entry links to the head the previous one left
+   */
+  private enqueue<T>(step: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(step);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async append(entry: LoggableEntry, problems: string[]): Promise<AuditEntry> {
+    const timestamp = entry.timestamp || this.clock.now();
+
+    // Start a new segment first so the entry lands after the carried-forward root
+    if (this.storage?.shouldRotate(timestamp)) {
+      await this.rotateSegment(timestamp);
+    }
+
+    const fullEntry = await this.seal(entry, timestamp, problems);
+
+    // Persist before acknowledging
+    this.storage?.append(fullEntry);
+    await this.commit(fullEntry);
+
+    return fullEntry;
+  }
+
+  /**
+   * Link an entry to the chain head, then hash and sign it
+   */
+  private async seal(entry: LoggableEntry, timestamp: number, problems: string[]): Promise<AuditEntry> {
+    // Link to the previous entry
     const fullEntry: AuditEntry = {
       ...entry,
-      timestamp: entry.timestamp || Date.now()
+      data: detach(entry.data),
+      timestamp,
+      schema: CANONICAL_SCHEMA,
+      sequence: this.head ? this.head.sequence + 1 : 0,
+      prevHash: this.head ? this.head.hash : ethers.ZeroHash
     };
+    if (problems.length > 0) {
+      fullEntry.flags = problems;
+    }
 
     // Generate hash
     fullEntry.hash = this.generateHash(fullEntry);
 
-    // Sign if on-chain mode
-    if (this.wallet) {
+    // Sign with the configured key or on-chain wallet
+    if (this.signer) {
       fullEntry.signature = await this.signEntry(fullEntry);
     }
 
+    return fullEntry;
+  }
+
+  /**
+   * Add a persisted entry to the current segment and advance the chain head
+   */
+  private async commit(fullEntry: AuditEntry): Promise<void> {
     // Store locally
     this.entries.push(fullEntry);
-    this.merkleTree.push(fullEntry.hash);
+    this.merkleTree.push(fullEntry.hash!);
+    this.head = { sequence: fullEntry.sequence!, hash: fullEntry.hash! };
+    this.anchor?.track(fullEntry);
 
     // Flush to chain if needed
     if (this.shouldFlush()) {
       await this.flush();
     }
-
-    return fullEntry;
   }
 
   /**
@@ -129,7 +342,7 @@ export class AuditLogger {
         value: (params.amount * params.price).toString(),
         reason: params.reason
       },
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     });
   }
 
@@ -139,7 +352,7 @@ export class AuditLogger {
   async logPrediction(params: {
     agent: string;
     marketId: string;
-    outcome: boolean;
+    outcome: OutcomeId;
     confidence: number;
     expectedValue: number;
   }): Promise<AuditEntry> {
@@ -152,7 +365,7 @@ export class AuditLogger {
         confidence: params.confidence,
         expectedValue: params.expectedValue
       },
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     });
   }
 
@@ -173,7 +386,7 @@ export class AuditLogger {
         severity: params.severity,
         details: params.details
       },
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     });
   }
 
@@ -194,42 +407,83 @@ export class AuditLogger {
         reason: params.reason,
         ...params.data
       },
-      timestamp: Date.now()
+      timestamp: this.clock.now()
     });
   }
 
   /**
-   * Get all entries
+   * Get all entries, typed by payload when filtering on a registered event type
    */
-  getEntries(filter?: { type?: string; agent?: string; since?: number }): AuditEntry[] {
-    let filtered = [...this.entries];
-
-    if (filter?.type) {
-      filtered = filtered.filter(e => e.type === filter.type);
-    }
-    if (filter?.agent) {
-      filtered = filtered.filter(e => e.agent === filter.agent);
-    }
-    if (filter?.since) {
-      filtered = filtered.filter(e => e.timestamp >= filter.since!);
-    }
+  getEntries<K extends AuditEventType>(filter: AuditEntryFilter & { type: K }): TypedAuditEntry<K>[];
+  getEntries(filter?: AuditEntryFilter): AuditEntry[];
+  getEntries(filter?: AuditEntryFilter): AuditEntry[] {
+    return filterAuditEntries(this.entries, filter);
+  }
 
-    return filtered;
+  /**
+   * Every persisted entry: the archived segments, oldest first, then the
+   * current segment. Without storage this is the current segment alone.
+   */
+  getTrail(): AuditEntry[] {
+    return [...(this.storage?.loadArchived() ?? []), ...this.entries];
   }
 
   /**
    * Verify entry integrity
    */
   verifyEntry(entry: AuditEntry): boolean {
-    const computedHash = this.generateHash(entry);
-    return computedHash === entry.hash;
+    try {
+      return this.generateHash(entry) === entry.hash;
+    } catch {
+      return false; // Unsupported schema
+    }
   }
 
   /**
    * Get Merkle root of all entries
    */
   getMerkleRoot(): string {
-    return this.computeMerkleRoot(this.merkleTree);
+    return merkleRoot(this.merkleTree);
+  }
+
+  /**
+   * Inclusion proof for an entry in the current segment, by hash or index
+   */
+  getInclusionProof(ref: string | number): MerkleProof {
+    const index = typeof ref === 'number' ? ref : this.merkleTree.indexOf(ref);
+    if (!Number.isInteger(index) || index < 0 || index >= this.merkleTree.length) {
+      throw new Error(`Audit entry not found: ${ref}`);
+    }
+
+    const siblings: string[] = [];
+    let level = this.merkleTree;
+    let position = index;
+
+    while (level.length > 1) {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      siblings.push(level[sibling] ?? level[position]!);
+
+      const nextLevel: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        nextLevel.push(hashPair(level[i]!, level[i + 1] ?? level[i]!));
+      }
+      level = nextLevel;
+      position = Math.floor(position / 2);
+    }
+
+    return {
+      leaf: this.merkleTree[index]!,
+      index,
+      siblings,
+      root: this.getMerkleRoot()
+    };
+  }
+
+  /**
+   * Latest entry of the hash chain, carried across rotations
+   */
+  getChainHead(): ChainHead | null {
+    return this.head ? { ...this.head } : null;
   }
 
   /**
@@ -239,70 +493,205 @@ export class AuditLogger {
     return JSON.stringify({
       entries: this.entries,
       merkleRoot: this.getMerkleRoot(),
-      exportedAt: Date.now()
-    }, null, 2);
+      chainHead: this.head,
+      exportedAt: this.clock.now()
+    }, taggedReplacer, 2);
   }
 
   /**
-   * Flush entries to on-chain storage
+   * Archive the active segment and open a new one whose first entry
+   * carries forward the Merkle root of everything logged so far.
+   * The storage persists that entry before archiving the old segment.
    */
-  private async flush(): Promise<void> {
-    if (!this.contract || this.config.mode === 'local') {
-      return;
+  async rotate(timestamp: number = this.clock.now()): Promise<string> {
+    if (!this.storage) {
+      throw new Error('Audit storage not configured');
     }
+    return this.enqueue(() => this.rotateSegment(timestamp));
+  }
 
-    try {
-      const unflushed = this.entries.filter(e => !e.signature);
-      
-      for (const entry of unflushed.slice(0, 10)) { // Batch 10 at a time
-        const tx = await this.contract.logEntry(
-          entry.hash,
-          entry.timestamp,
-          entry.type
-        );
-        await tx.wait();
-      }
+  private async rotateSegment(timestamp: number): Promise<string> {
+    if (!this.storage) {
+      throw new Error('Audit storage not configured');
+    }
 
-      this.lastFlush = Date.now();
-    } catch (error) {
-      console.error('Failed to flush to chain:', error);
+    const previousRoot = this.getMerkleRoot();
+    const previousEntries = this.entries.length;
+    let marker: AuditEntry | undefined;
+    const archive = await this.storage.rotate(timestamp, async location => {
+      marker = await this.seal({
+        type: 'LOG_ROTATED',
+        agent: 'AuditLogger',
+        data: { previousRoot, previousEntries, archive: location },
+        timestamp
+      }, timestamp, []);
+      return marker;
+    });
+
+    this.entries = [];
+    this.merkleTree = [];
+    await this.commit(marker!);
+
+    return archive;
+  }
+
+  /**
+   * Release the storage backend
+   */
+  close(): void {
+    this.storage?.close();
+  }
+
+  /**
+   * Anchor pending entries and the Merkle root on-chain
+   */
+  async flush(): Promise<void> {
+    if (!this.anchor || this.config.mode === 'local') {
+      return;
+    }
+
+    const result = await this.anchor.flush(this.getMerkleRoot(), this.entries.length);
+    if (result.failed > 0) {
+      console.error(`Failed to anchor ${result.failed} audit entries, retrying with backoff`);
     }
+    this.lastFlush = this.clock.now();
+  }
+
+  /**
+   * Address entries are signed with, if signing is enabled
+   */
+  getSignerAddress(): string | undefined {
+    return this.signer?.address;
+  }
+
+  /**
+   * On-chain anchoring status of an entry
+   */
+  getAnchorStatus(hash: string): AnchorStatus | undefined {
+    return this.anchor?.getStatus(hash);
+  }
+
+  /**
+   * Merkle roots anchored on-chain so far
+   */
+  getRootAnchors(): RootAnchor[] {
+    return this.anchor?.getRootAnchors() || [];
   }
 
   private shouldFlush(): boolean {
-    return Date.now() - this.lastFlush > this.flushIntervalMs;
+    return this.clock.now() - this.lastFlush > this.flushIntervalMs;
   }
 
   private generateHash(entry: Omit<AuditEntry, 'hash' | 'signature'>): string {
-    const data = JSON.stringify({
-      type: entry.type,
-      agent: entry.agent,
-      data: entry.data,
-      timestamp: entry.timestamp
-    });
-    return ethers.keccak256(ethers.toUtf8Bytes(data));
+    return hashEntry(entry);
   }
 
   private async signEntry(entry: AuditEntry): Promise<string> {
-    if (!this.wallet) return '';
+    if (!this.signer) return '';
     
     const message = ethers.toUtf8Bytes(entry.hash!);
-    return await this.wallet.signMessage(message);
+    return await this.signer.signMessage(message);
   }
+}
 
-  private computeMerkleRoot(hashes: string[]): string {
-    if (hashes.length === 0) return ethers.ZeroHash;
-    if (hashes.length === 1) return hashes[0];
+/**
+ * Select entries the way getEntries does, for trails loaded outside a logger
+ */
+export function filterAuditEntries(entries: AuditEntry[], filter?: AuditEntryFilter): AuditEntry[] {
+  let filtered = [...entries];
 
-    const nextLevel: string[] = [];
-    for (let i = 0; i < hashes.length; i += 2) {
-      const left = hashes[i];
-      const right = hashes[i + 1] || left;
-      nextLevel.push(ethers.keccak256(ethers.concat([left, right])));
-    }
+  if (filter?.flagged !== undefined) {
+    filtered = filtered.filter(e => (e.flags !== undefined) === filter.flagged);
+  }
+  if (filter?.type) {
+    filtered = filtered.filter(e => e.type === filter.type);
+  }
+  if (filter?.agent) {
+    filtered = filtered.filter(e => e.agent === filter.agent);
+  }
+  if (filter?.marketId) {
+    filtered = filtered.filter(e => entryMarketId(e) === filter.marketId);
+  }
+  if (filter?.since) {
+    filtered = filtered.filter(e => e.timestamp >= filter.since!);
+  }
+  if (filter?.until) {
+    filtered = filtered.filter(e => e.timestamp <= filter.until!);
+  }
+
+  return filtered;
+}
 
-    return this.computeMerkleRoot(nextLevel);
+/**
+ * Earliest and latest timestamps, in one pass so long trails do not overflow the stack
+ */
+export function entryTimeRange(entries: AuditEntry[]): { start: number; end: number } | null {
+  if (entries.length === 0) {
+    return null;
+  }
+  return entries.reduce(
+    (range, e) => ({ start: Math.min(range.start, e.timestamp), end: Math.max(range.end, e.timestamp) }),
+    { start: Infinity, end: -Infinity }
+  );
+}
+
+/**
+ * Hash an entry's content together with its chain link, in the encoding
+ * named by its schema marker. Unchained entries omit sequence and prevHash,
+ * and unmarked entries use plain JSON, so older trails hash as before.
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash' | 'signature'>): string {
+  const content = {
+    type: entry.type,
+    agent: entry.agent,
+    data: entry.data,
+    timestamp: entry.timestamp,
+    sequence: entry.sequence,
+    prevHash: entry.prevHash,
+    flags: entry.flags
+  };
+
+  let data: string;
+  if (entry.schema === undefined) {
+    data = JSON.stringify(content, bigintReplacer);
+  } else if (entry.schema === CANONICAL_SCHEMA) {
+    data = canonicalize({ schema: entry.schema, ...content });
+  } else {
+    throw new Error(`Unsupported audit schema: ${entry.schema}`);
+  }
+  return ethers.keccak256(ethers.toUtf8Bytes(data));
+}
+
+/**
+ * Copy a payload as it will be stored, so later changes to live objects
+ * such as the portfolio cannot alter a logged entry
+ */
+function detach(data: any): any {
+  return data === undefined ? data : JSON.parse(JSON.stringify(data, taggedReplacer), taggedReviver);
+}
+
+/**
+ * Parent node of two Merkle tree nodes
+ */
+function hashPair(left: string, right: string): string {
+  return ethers.keccak256(ethers.concat([left, right]));
+}
+
+/**
+ * Merkle root of a segment's entry hashes, duplicating the last node of odd levels
+ */
+function merkleRoot(hashes: string[]): string {
+  if (hashes.length === 0) return ethers.ZeroHash;
+  if (hashes.length === 1) return hashes[0]!;
+
+  const nextLevel: string[] = [];
+  for (let i = 0; i < hashes.length; i += 2) {
+    const left = hashes[i]!;
+    const right = hashes[i + 1] || left;
+    nextLevel.push(hashPair(left, right));
   }
+
+  return merkleRoot(nextLevel);
 }
 
 /**
@@ -311,25 +700,34 @@ export class AuditLogger {
  */
 export class AuditVerifier {
   /**
-   * Verify a complete audit trail
+   * Verify a complete audit trail, optionally against its recorded
+   * chain head and a set of trusted signing keys
    */
-  static verifyTrail(entries: AuditEntry[]): {
+  static verifyTrail(entries: AuditEntry[], options: VerifyTrailOptions = {}): {
     valid: boolean;
     invalidCount: number;
     issues: string[];
+    firstBrokenLink?: ChainBreak;
+    signers: EntrySigner[];
   } {
     const issues: string[] = [];
+    const signers: EntrySigner[] = [];
     let invalidCount = 0;
 
-    for (const entry of entries) {
+    for (let index = 0; index < entries.length; index++) {
+      const entry = entries[index]!;
+      const signer: EntrySigner = { index, agent: entry.agent, signer: null };
+      signers.push(signer);
+
       // Verify hash
-      const data = JSON.stringify({
-        type: entry.type,
-        agent: entry.agent,
-        data: entry.data,
-        timestamp: entry.timestamp
-      });
-      const computedHash = ethers.keccak256(ethers.toUtf8Bytes(data));
+      let computedHash: string;
+      try {
+        computedHash = hashEntry(entry);
+      } catch (error) {
+        issues.push(`Entry ${entry.hash}: ${(error as Error).message}`);
+        invalidCount++;
+        continue;
+      }
 
       if (computedHash !== entry.hash) {
         issues.push(`Entry ${entry.hash}: Hash mismatch`);
@@ -340,21 +738,28 @@ export class AuditVerifier {
       // Verify signature if present
       if (entry.signature) {
         try {
-          const recovered = ethers.verifyMessage(
+          signer.signer = ethers.verifyMessage(
             ethers.toUtf8Bytes(entry.hash),
             entry.signature
           );
-          // Signature valid (we could check against expected signer)
         } catch {
           issues.push(`Entry ${entry.hash}: Invalid signature`);
           invalidCount++;
         }
       }
 
+      // Verify signer identity
+      if (options.signers) {
+        const problem = this.checkSigner(entry, signer.signer, options.signers);
+        if (problem) {
+          issues.push(`Entry ${entry.hash}: ${problem}`);
+          invalidCount++;
+        }
+      }
+
       // Verify timestamp ordering
-      const index = entries.indexOf(entry);
       if (index > 0) {
-        const prevEntry = entries[index - 1];
+        const prevEntry = entries[index - 1]!;
         if (entry.timestamp < prevEntry.timestamp) {
           issues.push(`Entry ${entry.hash}: Timestamp out of order`);
           invalidCount++;
@@ -362,17 +767,141 @@ export class AuditVerifier {
       }
     }
 
+    // Verify chain links
+    const breaks = this.verifyChain(entries, options.head);
+    for (const link of breaks) {
+      issues.push(`Entry ${link.index}: ${link.message}`);
+      invalidCount++;
+    }
+
     return {
       valid: invalidCount === 0,
       invalidCount,
-      issues
+      issues,
+      firstBrokenLink: breaks[0],
+      signers
     };
   }
 
+  /**
+   * Check the recovered signer was trusted for the entry's agent when it was logged
+   */
+  private static checkSigner(entry: AuditEntry, signer: string | null, signerSet: SignerSet): string | null {
+    if (!signer) {
+      return entry.signature ? null : 'Missing signature'; // Invalid signatures are already reported
+    }
+
+    const keys = (signerSet[entry.agent] || signerSet['*'] || [])
+      .filter(k => k.address.toLowerCase() === signer.toLowerCase());
+    if (keys.length === 0) {
+      return `Signed by unknown key ${signer}`;
+    }
+
+    const active = keys.some(k =>
+      (k.validFrom === undefined || entry.timestamp >= k.validFrom) &&
+      (k.validUntil === undefined || entry.timestamp < k.validUntil)
+    );
+    return active ? null : `Key ${signer} not valid for ${entry.agent} at ${entry.timestamp}`;
+  }
+
+  /**
+   * Check a single entry is included under a published Merkle root,
+   * without access to the rest of the log
+   */
+  static verifyInclusion(entry: AuditEntry, proof: MerkleProof, root: string): boolean {
+    try {
+      if (hashEntry(entry) !== entry.hash || entry.hash !== proof.leaf) {
+        return false;
+      }
+    } catch {
+      return false; // Unsupported schema
+    }
+
+    let node = proof.leaf;
+    let position = proof.index;
+    for (const sibling of proof.siblings) {
+      node = position % 2 === 0 ? hashPair(node, sibling) : hashPair(sibling, node);
+      position = Math.floor(position / 2);
+    }
+
+    return position === 0 && node === root;
+  }
+
+  /**
+   * Check each chained entry links to the one before it.
+   * The first entry may start mid-chain only as the LOG_ROTATED entry that
+   * opens a rotated segment; later rotation markers must carry forward the
+   * entry count and Merkle root of the segment before them.
+   */
+  static verifyChain(entries: AuditEntry[], head?: ChainHead | null): ChainBreak[] {
+    const breaks: ChainBreak[] = [];
+    let segmentStart = 0;
+
+    entries.forEach((entry, index) => {
+      const prev = entries[index - 1];
+      if (entry.sequence === undefined) {
+        return;
+      }
+
+      if (!prev) {
+        if (entry.sequence === 0 && entry.prevHash !== ethers.ZeroHash) {
+          breaks.push({ index, kind: 'splice', message: 'Genesis entry links to a previous hash' });
+        } else if (entry.sequence > 0 && !this.opensSegment(entry)) {
+          breaks.push({ index, kind: 'truncated', message: `Trail starts mid-chain at sequence ${entry.sequence}` });
+        }
+        return;
+      }
+
+      if (entry.type === 'LOG_ROTATED' && entry.agent === 'AuditLogger') {
+        const segment = entries.slice(segmentStart, index);
+        segmentStart = index;
+        if (entry.data?.previousEntries !== segment.length || entry.data?.previousRoot !== merkleRoot(segment.map(e => e.hash!))) {
+          breaks.push({ index, kind: 'splice', message: `Rotation marker does not match the ${segment.length} entries before it` });
+        }
+      }
+
+      if (prev.sequence === undefined) {
+        return;
+      }
+
+      if (entry.sequence <= prev.sequence) {
+        breaks.push({ index, kind: 'fork', message: `Sequence ${entry.sequence} follows ${prev.sequence}` });
+      } else if (entry.sequence > prev.sequence + 1) {
+        breaks.push({ index, kind: 'gap', message: `Missing sequence ${prev.sequence + 1} to ${entry.sequence - 1}` });
+      } else if (entry.prevHash !== prev.hash) {
+        breaks.push({ index, kind: 'splice', message: `Previous hash does not match entry ${index - 1}` });
+      }
+    });
+
+    if (head) {
+      const last = entries[entries.length - 1];
+      if (!last || last.sequence === undefined || last.sequence < head.sequence) {
+        breaks.push({ index: entries.length, kind: 'truncated', message: `Trail ends before chain head ${head.sequence}` });
+      } else if (last.sequence > head.sequence || last.hash !== head.hash) {
+        breaks.push({ index: entries.length - 1, kind: 'fork', message: `Trail diverges from chain head ${head.sequence}` });
+      }
+    }
+
+    return breaks;
+  }
+
+  /**
+   * A rotation marker whose carried-forward count fits its place in the chain
+   */
+  private static opensSegment(entry: AuditEntry): boolean {
+    const previousEntries = entry.data?.previousEntries;
+    return entry.type === 'LOG_ROTATED' &&
+      entry.agent === 'AuditLogger' &&
+      typeof entry.data.previousRoot === 'string' &&
+      Number.isInteger(previousEntries) &&
+      previousEntries > 0 &&
+      previousEntries <= entry.sequence!;
+  }
+
   /**
    * Generate verification report
    */
-  static generateReport(entries: AuditEntry[]): string {
+  static generateReport(entries: AuditEntry[], clock: Clock = systemClock): string {
     const verification = this.verifyTrail(entries);
     
     const stats = {
@@ -385,16 +914,13 @@ export class AuditVerifier {
         acc[e.agent] = (acc[e.agent] || 0) + 1;
         return acc;
       }, {} as Record<string, number>),
-      timeRange: {
-        start: Math.min(...entries.map(e => e.timestamp)),
-        end: Math.max(...entries.map(e => e.timestamp))
-      }
+      timeRange: entryTimeRange(entries) ?? { start: Infinity, end: -Infinity }
     };
 
     return JSON.stringify({
       verification,
       statistics: stats,
-      generatedAt: Date.now()
+      generatedAt: clock.now()
     }, null, 2);
   }
 }
\ No newline at end of file
@@ -0,0 +1,135 @@
+/**
+ * Canonical Encoding
+ *
+ * Deterministic serialization of audit data for hashing:
+ * - Object keys sorted, undefined members dropped as in JSON
+ * - bigint encoded explicitly as {"$bigint":"<decimal>"}
+ * - Numbers in shortest round-trip form, -0 as 0, non-finite values tagged
+ * - Map and Set tagged, with members sorted by their encoding
+ *
+ * Tags are themselves canonical JSON, so an entry re-encodes to the same
+ * bytes whether or not a reader revives them.
+ */
+
+/**
+ * Hash encoding version stamped on new entries. Entries without a
+ * schema marker were hashed with plain JSON and bigints as strings.
+ */
+export const CANONICAL_SCHEMA = 2;
+
+/**
+ * Encode a value canonically
+ */
+export function canonicalize(value: unknown): string {
+  return encode(value, new Set()) ?? 'null';
+}
+
+/**
+ * JSON replacer producing the canonical tags, for storage and export
+ */
+export function taggedReplacer(key: string, value: any): any {
+  if (typeof value === 'bigint') {
+    return { $bigint: value.toString() };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    return { $number: String(value) };
+  }
+  if (value instanceof Map) {
+    return { $map: sortByEncoding(Array.from(value.entries()), e => e[0]) };
+  }
+  if (value instanceof Set) {
+    return { $set: sortByEncoding(Array.from(value.values()), v => v) };
+  }
+  return value;
+}
+
+/**
+ * JSON reviver restoring values tagged by taggedReplacer
+ */
+export function taggedReviver(key: string, value: any): any {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return value;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length !== 1) {
+    return value;
+  }
+  if (typeof value.$bigint === 'string') {
+    return BigInt(value.$bigint);
+  }
+  if (typeof value.$number === 'string') {
+    return Number(value.$number);
+  }
+  if (Array.isArray(value.$map)) {
+    return new Map(value.$map);
+  }
+  if (Array.isArray(value.$set)) {
+    return new Set(value.$set);
+  }
+  return value;
+}
+
+/**
+ * JSON replacer that encodes bigint values as decimal strings,
+ * the encoding of entries without a schema marker
+ */
+export function bigintReplacer(key: string, value: any): any {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function encode(value: unknown, seen: Set<object>): string | undefined {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'object' && typeof (value as any).toJSON === 'function') {
+    value = (value as any).toJSON();
+  }
+
+  switch (typeof value) {
+    case 'bigint':
+      return `{"$bigint":"${value.toString()}"}`;
+    case 'number':
+      if (!Number.isFinite(value)) return `{"$number":"${String(value)}"}`;
+      return Object.is(value, -0) ? '0' : JSON.stringify(value);
+    case 'string':
+      return JSON.stringify(value);
+    case 'boolean':
+      return value ? 'true' : 'false';
+    case 'object':
+      break;
+    default:
+      return undefined; // undefined, functions and symbols, as in JSON
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+  if (seen.has(value as object)) {
+    throw new Error('Cannot canonically encode a circular structure');
+  }
+  seen.add(value as object);
+
+  let encoded: string;
+  if (Array.isArray(value)) {
+    encoded = '[' + value.map(v => encode(v, seen) ?? 'null').join(',') + ']';
+  } else if (value instanceof Map || value instanceof Set) {
+    encoded = encode(taggedReplacer('', value), seen)!;
+  } else {
+    const members = Object.keys(value as object).sort()
+      .map(k => [k, encode((value as any)[k], seen)] as const)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${JSON.stringify(k)}:${v}`);
+    encoded = '{' + members.join(',') + '}';
+  }
+
+  seen.delete(value as object);
+  return encoded;
+}
+
+function sortByEncoding<T>(items: T[], key: (item: T) => unknown): T[] {
+  return items
+    .map(item => ({ item, encoded: canonicalize(key(item)) }))
+    .sort((a, b) => (a.encoded < b.encoded ? -1 : a.encoded > b.encoded ? 1 : 0))
+    .map(e => e.item);
+}
\ No newline at end of file
@@ -0,0 +1,208 @@
+/**
+ * Audit Events
+ *
+ * Registry of audit event kinds and their payloads:
+ * - Payload types per event, combined into a discriminated union
+ * - Runtime field schemas used to validate events as they are logged
+ * - Type guards for reading typed events back out of a trail
+ */
+
+import { AgentConfig, DecisionTrace, TradeDecision } from '../agents/base-agent';
+import { DrawdownProtector, PortfolioState } from '../risk/position-sizing';
+import { MarketResolution, OutcomeId, OutcomeQuote, Settlement } from '../markets/outcome-shares';
+import { RuleEvaluation } from '../security/market-risk';
+import { AuditEntry } from './audit-trail';
+
+export type DrawdownStatus = ReturnType<DrawdownProtector['updateValue']>;
+
+/**
+ * Payload of each registered event type
+ */
+export interface AuditEventPayloads {
+  // Agent lifecycle
+  AGENT_START: { config: AgentConfig; balance?: bigint };
+  AGENT_STOP: { finalPortfolio: PortfolioState };
+  STATE_RECOVERED: { replayed: number; snapshotSequence: number | null; portfolio: PortfolioState };
+  CHECKPOINT: { version: number; hash: string; takenAt: number };
+  STATE_RESTORED: { hash: string; checkpointSequence: number | null };
+  ERROR: { error: string };
+
+  // Pipeline checks
+  INVALID_MARKET_DATA: { marketId: string; currentPrice: bigint; outcomes?: OutcomeQuote[] };
+  DRAWDOWN_HALT: { marketId?: string; status: DrawdownStatus };
+  ORACLE_UNHEALTHY: { marketId?: string; issues: string[] };
+  LOW_CONFIDENCE: { marketId?: string; confidence: number; threshold: number };
+  LOW_LIQUIDITY: { marketId: string };
+  HIGH_VOLATILITY_SKIP: { marketId?: string; volatility: number; max: number };
+  VOLATILITY_SKIP: { marketId?: string; volatility: number };
+  MAX_POSITIONS_REACHED: { marketId?: string; current: number };
+  STOP_LOSS_TRIGGERED: { marketId: string; outcome: OutcomeId; reason?: string };
+  SECURITY_ALERT: { alertType: string; severity: string; details: any };
+  NO_TRADE: { marketId: string; blockedBy: string | null; trace: DecisionTrace };
+  RISK_POLICY_EVALUATED: { marketId: string; alertType: string; severity: string; evaluations: RuleEvaluation[] };
+
+  // Trading
+  TRADE_DECISION: { decision: TradeDecision; trace?: DecisionTrace };
+  EXECUTING_TRADE: { decision: TradeDecision };
+  TRADE_EXECUTED: { decision: TradeDecision; price: bigint; amount: bigint; newBalance?: bigint; activeTrades?: number };
+  TRADE_FAILED: { decision: TradeDecision; error: string };
+  POSITION_UPDATE: {
+    marketId: string;
+    outcome: OutcomeId;
+    amount: bigint;
+    price: bigint;
+    isBuy: boolean;
+    realizedPnl: bigint | null;
+    portfolio: PortfolioState;
+  };
+  MARKET_RESOLVED: { resolution: MarketResolution; settlements: Settlement[]; realizedPnl: bigint; portfolio: PortfolioState };
+
+  // Portfolio management
+  EMERGENCY_DERISK_START: Record<string, never>;
+  EMERGENCY_DERISK_COMPLETE: { finalCash: bigint };
+  SCHEDULED_REBALANCE: { lastRebalance: number };
+  REBALANCE_COMPLETE: { tradesExecuted: number };
+  CLOSING_ALL_POSITIONS: { count: number };
+  ALL_POSITIONS_CLOSED: { finalCash: bigint };
+
+  // AuditLogger helpers
+  TRADE: { marketId: string; action: 'BUY' | 'SELL'; amount: string; price: string; value: string; reason: string };
+  PREDICTION: { marketId: string; outcome: OutcomeId; confidence: number; expectedValue: number };
+  RISK_ACTION: { action: string; reason: string; [key: string]: any };
+  LOG_ROTATED: { previousRoot: string; previousEntries: number; archive: string };
+}
+
+export type AuditEventType = keyof AuditEventPayloads;
+
+/**
+ * An audit entry narrowed to one event type
+ */
+export type TypedAuditEntry<K extends AuditEventType = AuditEventType> = {
+  [T in K]: Omit<AuditEntry, 'type' | 'data'> & { type: T; data: AuditEventPayloads[T] };
+}[K];
+
+/**
+ * Field type for a payload schema: a base type, '?' for optional, '|null' for nullable
+ */
+export type FieldSpec = string;
+
+export type EventSchema = Record<string, FieldSpec>;
+
+/**
+ * Runtime schema of each registered event's top-level payload fields
+ */
+export const AUDIT_EVENT_SCHEMAS: { [K in AuditEventType]: EventSchema } = {
+  AGENT_START: { config: 'object', balance: 'bigint?' },
+  AGENT_STOP: { finalPortfolio: 'object' },
+  STATE_RECOVERED: { replayed: 'number', snapshotSequence: 'number|null', portfolio: 'object' },
+  CHECKPOINT: { version: 'number', hash: 'string', takenAt: 'number' },
+  STATE_RESTORED: { hash: 'string', checkpointSequence: 'number|null' },
+  ERROR: { error: 'string' },
+
+  INVALID_MARKET_DATA: { marketId: 'string', currentPrice: 'bigint', outcomes: 'array?' },
+  DRAWDOWN_HALT: { marketId: 'string?', status: 'object' },
+  ORACLE_UNHEALTHY: { marketId: 'string?', issues: 'array' },
+  LOW_CONFIDENCE: { marketId: 'string?', confidence: 'number', threshold: 'number' },
+  LOW_LIQUIDITY: { marketId: 'string' },
+  HIGH_VOLATILITY_SKIP: { marketId: 'string?', volatility: 'number', max: 'number' },
+  VOLATILITY_SKIP: { marketId: 'string?', volatility: 'number' },
+  MAX_POSITIONS_REACHED: { marketId: 'string?', current: 'number' },
+  STOP_LOSS_TRIGGERED: { marketId: 'string', outcome: 'string', reason: 'string?' },
+  SECURITY_ALERT: { alertType: 'string', severity: 'string', details: 'any' },
+  NO_TRADE: { marketId: 'string', blockedBy: 'string|null', trace: 'object' },
+  RISK_POLICY_EVALUATED: { marketId: 'string', alertType: 'string', severity: 'string', evaluations: 'array' },
+
+  TRADE_DECISION: { decision: 'object', trace: 'object?' },
+  EXECUTING_TRADE: { decision: 'object' },
+  TRADE_EXECUTED: { decision: 'object', price: 'bigint', amount: 'bigint', newBalance: 'bigint?', activeTrades: 'number?' },
+  TRADE_FAILED: { decision: 'object', error: 'string' },
+  POSITION_UPDATE: {
+    marketId: 'string',
+    outcome: 'string',
+    amount: 'bigint',
+    price: 'bigint',
+    isBuy: 'boolean',
+    realizedPnl: 'bigint|null',
+    portfolio: 'object'
+  },
+  MARKET_RESOLVED: { resolution: 'object', settlements: 'array', realizedPnl: 'bigint', portfolio: 'object' },
+
+  EMERGENCY_DERISK_START: {},
+  EMERGENCY_DERISK_COMPLETE: { finalCash: 'bigint' },
+  SCHEDULED_REBALANCE: { lastRebalance: 'number' },
+  REBALANCE_COMPLETE: { tradesExecuted: 'number' },
+  CLOSING_ALL_POSITIONS: { count: 'number' },
+  ALL_POSITIONS_CLOSED: { finalCash: 'bigint' },
+
+  TRADE: { marketId: 'string', action: 'string', amount: 'string', price: 'string', value: 'string', reason: 'string' },
+  PREDICTION: { marketId: 'string', outcome: 'string', confidence: 'number', expectedValue: 'number' },
+  RISK_ACTION: { action: 'string', reason: 'string' },
+  LOG_ROTATED: { previousRoot: 'string', previousEntries: 'number', archive: 'string' }
+};
+
+/**
+ * Problems with an event's type or payload; empty when it matches its schema
+ */
+export function validateAuditEvent(
+  entry: { type: string; data: any },
+  extraSchemas: Record<string, EventSchema> = {}
+): string[] {
+  const hasOwn = (schemas: object) => Object.prototype.hasOwnProperty.call(schemas, entry.type);
+  const schema = hasOwn(extraSchemas)
+    ? extraSchemas[entry.type]
+    : hasOwn(AUDIT_EVENT_SCHEMAS) ? (AUDIT_EVENT_SCHEMAS as Record<string, EventSchema>)[entry.type] : undefined;
+  if (!schema) {
+    return [`Unknown event type ${entry.type}`];
+  }
+  if (entry.data === null || typeof entry.data !== 'object' || Array.isArray(entry.data)) {
+    return [`${entry.type} payload must be an object`];
+  }
+
+  const problems: string[] = [];
+  for (const [field, spec] of Object.entries(schema)) {
+    if (!matchesSpec(entry.data[field], spec)) {
+      problems.push(`${entry.type}.${field} must be ${spec}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Narrow an entry to a registered event type
+ */
+export function isAuditEvent<K extends AuditEventType>(entry: AuditEntry, type: K): entry is AuditEntry & TypedAuditEntry<K> {
+  return entry.type === type;
+}
+
+/**
+ * Market an entry concerns, wherever its payload records it
+ */
+export function entryMarketId(entry: { data: any }): string | undefined {
+  const data = entry.data;
+  if (data === null || typeof data !== 'object') {
+    return undefined;
+  }
+  return data.marketId ?? data.decision?.marketId ?? data.resolution?.marketId ?? data.details?.marketId;
+}
+
+function matchesSpec(value: unknown, spec: FieldSpec): boolean {
+  const optional = spec.endsWith('?');
+  const [base, nullable] = (optional ? spec.slice(0, -1) : spec).split('|');
+
+  if (value === undefined) return optional;
+  if (value === null) return nullable === 'null';
+
+  switch (base) {
+    case 'any':
+      return true;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    case 'bigint':
+      // Also accept the canonical tag, as found in exported trails read without a reviver
+      return typeof value === 'bigint' || typeof (value as any)?.$bigint === 'string';
+    default:
+      return typeof value === base;
+  }
+}
\ No newline at end of file
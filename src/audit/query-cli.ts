@@ -0,0 +1,23 @@
+#!/usr/bin/env ts-node
+/**
+ * Audit Query CLI
+ * 
+ * Usage: ts-node query-cli.ts [list|summary|verify|report] <trail...> [options]
+ * Example: npm run audit:query -- summary ./audit/agent.jsonl --agent ConservativeBot --market ETH-USD --since 24h
+ */
+
+import { runAuditQuery } from './query';
+
+function main() {
+  try {
+    const result = runAuditQuery(process.argv.slice(2));
+    result.warnings.forEach(warning => console.error(`Warning: ${warning}`));
+    console.log(result.output);
+    process.exitCode = result.exitCode;
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 2;
+  }
+}
+
+main();
@@ -0,0 +1,357 @@
+/**
+ * Audit Queries
+ *
+ * Offline analysis of exported or persisted audit trails:
+ * - Loading JSONL logs and exportToJson files
+ * - Filtering by agent, type, market and time range
+ * - Summaries of halts, alerts and trades
+ * - Table, JSON and CSV output, driven by the audit-query CLI
+ */
+
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { Clock, systemClock } from '../utils/clock';
+import { AuditEntry, AuditEntryFilter, AuditVerifier, entryTimeRange, filterAuditEntries } from './audit-trail';
+import { JsonlFileStorage } from './storage';
+import { bigintReplacer, taggedReplacer, taggedReviver } from './canonical';
+import { entryMarketId } from './events';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export type QueryCommand = 'list' | 'summary' | 'verify' | 'report';
+
+/**
+ * Events logged when the pipeline declines to trade
+ */
+export const HALT_EVENT_TYPES = [
+  'INVALID_MARKET_DATA',
+  'DRAWDOWN_HALT',
+  'ORACLE_UNHEALTHY',
+  'LOW_CONFIDENCE',
+  'LOW_LIQUIDITY',
+  'HIGH_VOLATILITY_SKIP',
+  'VOLATILITY_SKIP',
+  'MAX_POSITIONS_REACHED'
+];
+
+/**
+ * Risk stages that can end the pipeline; a NO_TRADE they end counts as a halt
+ * unless a halt event above was already logged for the same decision
+ */
+const RISK_STAGES = ['DRAWDOWN', 'ORACLE', 'MANIPULATION', 'CONFIDENCE', 'KELLY_SIZE', 'POSITION_CAP', 'STOP_LOSS'];
+
+export interface AuditSummary {
+  entries: number;
+  timeRange: { start: number; end: number } | null;
+  byAgent: Record<string, number>;
+  halts: Record<string, number>; // By event type
+  alerts: { total: number; byType: Record<string, number>; bySeverity: Record<string, number> };
+  trades: { decisions: number; executed: number; failed: number; buys: number; sells: number; realizedPnl: bigint };
+  markets: Record<string, { halts: number; alerts: number; executed: number }>;
+}
+
+export interface QueryResult {
+  output: string;
+  warnings: string[];
+  exitCode: number;
+}
+
+const USAGE = `Usage: audit-query [list|summary|verify|report] <trail...> [options]
+
+Trails are persisted .jsonl logs or exportToJson files, given oldest first.
+
+Options:
+  --agent <name>       Only entries of this agent
+  --type <types>       Only these event types, comma-separated
+  --market <id>        Only entries concerning this market
+  --since <time>       From this time: ISO date, epoch ms, or an age such as 24h or 7d
+  --until <time>       Up to this time, inclusive
+  --flagged            Only entries logged with validation problems
+  --verify             Also verify the whole trail and warn when it fails
+  --format <format>    table (default), json or csv`;
+
+const DURATION_UNITS: Record<string, number> = { m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Read entries from persisted logs and exports, in the order given
+ */
+export function loadTrail(paths: string[]): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  for (const path of paths) {
+    if (path.endsWith('.jsonl')) {
+      entries.push(...JsonlFileStorage.readEntries(path));
+      continue;
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(path, 'utf8'), taggedReviver);
+    const exported = Array.isArray(parsed) ? parsed : parsed?.entries;
+    if (!Array.isArray(exported)) {
+      throw new Error(`Unrecognized audit trail: ${path}`);
+    }
+    entries.push(...exported);
+  }
+  return entries;
+}
+
+/**
+ * Count halts, alerts and trades, overall and per market
+ */
+export function summarizeEntries(entries: AuditEntry[]): AuditSummary {
+  const summary: AuditSummary = {
+    entries: entries.length,
+    timeRange: entryTimeRange(entries),
+    byAgent: {},
+    halts: {},
+    alerts: { total: 0, byType: {}, bySeverity: {} },
+    trades: { decisions: 0, executed: 0, failed: 0, buys: 0, sells: 0, realizedPnl: 0n },
+    markets: {}
+  };
+  const halted = new Set<string>(); // Agent and market of halt events awaiting their NO_TRADE
+
+  for (const entry of entries) {
+    summary.byAgent[entry.agent] = (summary.byAgent[entry.agent] || 0) + 1;
+
+    const marketId = entryMarketId(entry);
+    const market = marketId === undefined
+      ? null
+      : summary.markets[marketId] ??= { halts: 0, alerts: 0, executed: 0 };
+
+    const decisionKey = `${entry.agent}:${marketId}`;
+    if (HALT_EVENT_TYPES.includes(entry.type)) {
+      summary.halts[entry.type] = (summary.halts[entry.type] || 0) + 1;
+      if (market) market.halts++;
+      // Invalid market data ends the loop before a NO_TRADE is logged
+      if (entry.type !== 'INVALID_MARKET_DATA') halted.add(decisionKey);
+      continue;
+    }
+    if (entry.type === 'NO_TRADE') {
+      if (!halted.delete(decisionKey) && RISK_STAGES.includes(entry.data.blockedBy)) {
+        summary.halts.NO_TRADE = (summary.halts.NO_TRADE || 0) + 1;
+        if (market) market.halts++;
+      }
+      continue;
+    }
+
+    switch (entry.type) {
+      case 'SECURITY_ALERT':
+        summary.alerts.total++;
+        summary.alerts.byType[entry.data.alertType] = (summary.alerts.byType[entry.data.alertType] || 0) + 1;
+        summary.alerts.bySeverity[entry.data.severity] = (summary.alerts.bySeverity[entry.data.severity] || 0) + 1;
+        if (market) market.alerts++;
+        break;
+      case 'TRADE_DECISION':
+        summary.trades.decisions++;
+        halted.delete(decisionKey);
+        break;
+      case 'TRADE_EXECUTED':
+        summary.trades.executed++;
+        if (entry.data.decision?.action === 'BUY') summary.trades.buys++;
+        if (entry.data.decision?.action === 'SELL') summary.trades.sells++;
+        if (market) market.executed++;
+        break;
+      case 'TRADE_FAILED':
+        summary.trades.failed++;
+        break;
+      case 'POSITION_UPDATE':
+      case 'MARKET_RESOLVED':
+        if (typeof entry.data.realizedPnl === 'bigint') {
+          summary.trades.realizedPnl += entry.data.realizedPnl;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Render entries; JSON output loads back with loadTrail
+ */
+export function formatEntries(entries: AuditEntry[], format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, taggedReplacer, 2);
+  }
+
+  const header = ['time', 'sequence', 'agent', 'type', 'market', 'details'];
+  const rows = entries.map(e => [
+    new Date(e.timestamp).toISOString(),
+    e.sequence?.toString() ?? '',
+    e.agent,
+    e.type,
+    entryMarketId(e) ?? '',
+    describeData(e.data)
+  ]);
+  return format === 'csv' ? toCsv([header, ...rows]) : toTable(header, rows, 80);
+}
+
+/**
+ * Render a summary
+ */
+export function formatSummary(summary: AuditSummary, format: OutputFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(summary, bigintReplacer, 2);
+  }
+
+  const rows: string[][] = [['entries', '', String(summary.entries)]];
+  if (summary.timeRange) {
+    rows.push(['time', 'start', new Date(summary.timeRange.start).toISOString()]);
+    rows.push(['time', 'end', new Date(summary.timeRange.end).toISOString()]);
+  }
+  for (const [agent, count] of Object.entries(summary.byAgent)) rows.push(['agent', agent, String(count)]);
+  for (const [type, count] of Object.entries(summary.halts)) rows.push(['halt', type, String(count)]);
+  rows.push(['alerts', 'total', String(summary.alerts.total)]);
+  for (const [type, count] of Object.entries(summary.alerts.byType)) rows.push(['alert', type, String(count)]);
+  for (const [severity, count] of Object.entries(summary.alerts.bySeverity)) rows.push(['severity', severity, String(count)]);
+  for (const [field, value] of Object.entries(summary.trades)) rows.push(['trades', field, String(value)]);
+  for (const [marketId, counts] of Object.entries(summary.markets)) {
+    rows.push(['market', marketId, `halts=${counts.halts} alerts=${counts.alerts} executed=${counts.executed}`]);
+  }
+
+  const header = ['section', 'key', 'value'];
+  return format === 'csv' ? toCsv([header, ...rows]) : toTable(header, rows);
+}
+
+/**
+ * Parse a time option: ISO date, epoch milliseconds, or an age such as 24h
+ */
+export function parseTime(value: string, clock: Clock = systemClock): number {
+  if (/^\d+$/.test(value)) {
+    return Number(value);
+  }
+
+  const age = /^(\d+)([mhd])$/.exec(value);
+  if (age) {
+    return clock.now() - Number(age[1]) * DURATION_UNITS[age[2]!]!;
+  }
+
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Run an audit-query command line, returning what to print
+ */
+export function runAuditQuery(args: string[], clock: Clock = systemClock): QueryResult {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      agent: { type: 'string' },
+      type: { type: 'string' },
+      market: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      flagged: { type: 'boolean' },
+      verify: { type: 'boolean' },
+      format: { type: 'string', default: 'table' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    return { output: USAGE, warnings: [], exitCode: 0 };
+  }
+
+  const commands: QueryCommand[] = ['list', 'summary', 'verify', 'report'];
+  const command: QueryCommand = commands.includes(positionals[0] as QueryCommand)
+    ? positionals.shift() as QueryCommand
+    : 'list';
+  const format = values.format as OutputFormat;
+  if (!['table', 'json', 'csv'].includes(format)) {
+    throw new Error(`Unknown format: ${format}`);
+  }
+  if (positionals.length === 0) {
+    throw new Error(`No audit trail given\n\n${USAGE}`);
+  }
+
+  const trail = loadTrail(positionals);
+
+  if (command === 'verify') {
+    // Integrity covers the whole trail; filtering would break the chain
+    const verification = AuditVerifier.verifyTrail(trail);
+    let output: string;
+    if (format === 'json') {
+      output = JSON.stringify(verification, null, 2);
+    } else {
+      const rows = verification.issues.map(issue => [issue]);
+      output = format === 'csv'
+        ? toCsv([['issue'], ...rows])
+        : `${verification.valid ? 'VALID' : 'INVALID'}: ${trail.length} entries, ${verification.invalidCount} issues` +
+          (rows.length > 0 ? '\n' + rows.map(r => `  ${r[0]}`).join('\n') : '');
+    }
+    return { output, warnings: [], exitCode: verification.valid ? 0 : 1 };
+  }
+
+  // Other commands only verify when asked, as it reads every entry of a long trail
+  const warnings: string[] = [];
+  if (values.verify) {
+    const verification = AuditVerifier.verifyTrail(trail);
+    if (!verification.valid) {
+      warnings.push(`Audit trail failed verification: ${verification.invalidCount} issues, first: ${verification.issues[0]}`);
+    }
+  }
+
+  const filter: AuditEntryFilter = {
+    agent: values.agent,
+    marketId: values.market,
+    since: values.since !== undefined ? parseTime(values.since, clock) : undefined,
+    until: values.until !== undefined ? parseTime(values.until, clock) : undefined,
+    flagged: values.flagged ? true : undefined
+  };
+  let entries = filterAuditEntries(trail, filter);
+  if (values.type) {
+    const types = values.type.split(',').map(t => t.trim());
+    entries = entries.filter(e => types.includes(e.type));
+  }
+
+  switch (command) {
+    case 'summary':
+      return { output: formatSummary(summarizeEntries(entries), format), warnings, exitCode: 0 };
+    case 'report':
+      return { output: AuditVerifier.generateReport(entries, clock), warnings, exitCode: 0 };
+    default:
+      return { output: formatEntries(entries, format), warnings, exitCode: 0 };
+  }
+}
+
+/**
+ * One-line description of a payload: scalar fields, and one level into objects
+ */
+function describeData(data: any, prefix: string = ''): string {
+  if (data === null || typeof data !== 'object') {
+    return data === undefined ? '' : String(data);
+  }
+
+  const parts: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      parts.push(`${prefix}${key}=[${value.length}]`);
+    } else if (value !== null && typeof value === 'object') {
+      if (!prefix) parts.push(describeData(value, `${key}.`));
+    } else {
+      parts.push(`${prefix}${key}=${String(value)}`);
+    }
+  }
+  return parts.filter(p => p).join(' ');
+}
+
+function toCsv(rows: string[][]): string {
+  return rows
+    .map(row => row.map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(','))
+    .join('\n');
+}
+
+function toTable(header: string[], rows: string[][], maxWidth: number = Infinity): string {
+  const clip = (cell: string) => cell.length > maxWidth ? cell.slice(0, maxWidth - 3) + '...' : cell;
+  const clipped = [header, ...rows].map(row => row.map(clip));
+  const widths = header.map((_, i) => clipped.reduce((width, row) => Math.max(width, row[i]!.length), 0));
+  const line = (row: string[]) => row.map((cell, i) => cell.padEnd(widths[i]!)).join('  ').trimEnd();
+
+  return [line(clipped[0]!), widths.map(w => '-'.repeat(w)).join('  '), ...clipped.slice(1).map(line)].join('\n');
+}
\ No newline at end of file
@@ -0,0 +1,202 @@
+/**
+ * Audit Reconciliation
+ *
+ * Confirms the chain holds what the local log says was anchored:
+ * - Reads the submitting wallet's EntryLogged events and getAgentEntries from PredicGuardAudit
+ * - Matches them to local entry hashes, reading index-only entries with bounded parallelism
+ * - Reports missing, unknown and mismatched entries
+ */
+
+import { ethers } from 'ethers';
+import { AuditEntry } from './audit-trail';
+import { Clock, systemClock } from '../utils/clock';
+
+export interface OnChainEntry {
+  hash: string;
+  timestamp: number; // Seconds, as stored by the contract
+  entryType: string;
+  submitter: string;
+  blockNumber?: number;
+  txHash?: string;
+}
+
+/**
+ * Read access to anchored entries
+ */
+export interface OnChainAuditSource {
+  getLoggedEntries(options: { submitter?: string; fromBlock?: number; toBlock?: number }): Promise<OnChainEntry[]>;
+  getAgentEntries(submitter: string): Promise<string[]>;
+  getEntry(hash: string): Promise<OnChainEntry | null>;
+}
+
+export interface ReconcileOptions {
+  submitter: string; // Wallet that anchored the log; other wallets' entries are not compared
+  fromBlock?: number;
+  toBlock?: number;
+  until?: number; // Ignore local entries logged after this time, e.g. not yet flushed
+  concurrency?: number; // getEntry reads in flight at once, default 16
+}
+
+export interface FieldMismatch {
+  hash: string;
+  field: 'timestamp' | 'type';
+  local: string | number;
+  onChain: string | number;
+}
+
+export interface ReconciliationReport {
+  consistent: boolean;
+  submitter: string;
+  localCount: number;
+  onChainCount: number;
+  matched: number;
+  missingOnChain: Array<{ hash: string; sequence?: number; type: string; timestamp: number }>;
+  unknownOnChain: OnChainEntry[];
+  mismatches: FieldMismatch[];
+  generatedAt: number;
+}
+
+/**
+ * Contract Audit Source
+ * Reads PredicGuardAudit through an ethers provider
+ */
+export class ContractAuditSource implements OnChainAuditSource {
+  private contract: ethers.Contract;
+
+  private static ABI = [
+    'function getAgentEntries(address agent) external view returns (bytes32[])',
+    'function getEntry(bytes32 hash) external view returns (uint256 timestamp, string entryType, address submitter, bool verified)',
+    'event EntryLogged(bytes32 indexed hash, uint256 timestamp, address indexed submitter, string entryType)'
+  ];
+
+  constructor(address: string, runner: ethers.ContractRunner) {
+    this.contract = new ethers.Contract(address, ContractAuditSource.ABI, runner);
+  }
+
+  async getLoggedEntries(options: { submitter?: string; fromBlock?: number; toBlock?: number }): Promise<OnChainEntry[]> {
+    const filter = this.contract.getEvent('EntryLogged')(null, options.submitter ?? null);
+    const events = await this.contract.queryFilter(filter, options.fromBlock ?? 0, options.toBlock ?? 'latest');
+
+    return events
+      .filter((e): e is ethers.EventLog => 'args' in e)
+      .map(e => ({
+        hash: e.args.hash,
+        timestamp: Number(e.args.timestamp),
+        entryType: e.args.entryType,
+        submitter: e.args.submitter,
+        blockNumber: e.blockNumber,
+        txHash: e.transactionHash
+      }));
+  }
+
+  async getAgentEntries(submitter: string): Promise<string[]> {
+    return [...await this.contract.getFunction('getAgentEntries')(submitter)];
+  }
+
+  async getEntry(hash: string): Promise<OnChainEntry | null> {
+    const [timestamp, entryType, submitter] = await this.contract.getFunction('getEntry')(hash);
+    if (timestamp === 0n) {
+      return null;
+    }
+    return { hash, timestamp: Number(timestamp), entryType, submitter };
+  }
+}
+
+/**
+ * Audit Reconciler
+ * Compares a local audit log with its on-chain anchors
+ */
+export class AuditReconciler {
+  private source: OnChainAuditSource;
+  private clock: Clock;
+
+  constructor(source: OnChainAuditSource, clock: Clock = systemClock) {
+    this.source = source;
+    this.clock = clock;
+  }
+
+  /**
+   * Match local entries to the submitter's on-chain entries by hash
+   */
+  async reconcile(entries: AuditEntry[], options: ReconcileOptions): Promise<ReconciliationReport> {
+    const onChain = new Map<string, OnChainEntry>();
+    const logged = await this.source.getLoggedEntries(options);
+    for (const entry of logged) {
+      onChain.set(entry.hash.toLowerCase(), entry);
+    }
+
+    // The contract's per-submitter index also covers blocks outside the event range
+    const indexed = await this.source.getAgentEntries(options.submitter);
+    const unseen = indexed.filter(hash => !onChain.has(hash.toLowerCase()));
+    const fetched = await this.readEntries(unseen, options.concurrency || 16);
+    unseen.forEach((hash, i) => {
+      const entry = fetched[i];
+      if (entry) onChain.set(hash.toLowerCase(), entry);
+    });
+
+    const local = entries.filter(e => e.hash && (options.until === undefined || e.timestamp <= options.until));
+    const missingOnChain: ReconciliationReport['missingOnChain'] = [];
+    const mismatches: FieldMismatch[] = [];
+    let matched = 0;
+
+    for (const entry of local) {
+      const anchored = onChain.get(entry.hash!.toLowerCase());
+      if (!anchored) {
+        missingOnChain.push({ hash: entry.hash!, sequence: entry.sequence, type: entry.type, timestamp: entry.timestamp });
+        continue;
+      }
+
+      matched++;
+      const seconds = Math.floor(entry.timestamp / 1000);
+      if (anchored.timestamp !== seconds) {
+        mismatches.push({ hash: entry.hash!, field: 'timestamp', local: seconds, onChain: anchored.timestamp });
+      }
+      if (anchored.entryType !== entry.type) {
+        mismatches.push({ hash: entry.hash!, field: 'type', local: entry.type, onChain: anchored.entryType });
+      }
+    }
+
+    // Entries logged locally after the cutoff are not expected on-chain, but are still known
+    const known = new Set(entries.filter(e => e.hash).map(e => e.hash!.toLowerCase()));
+    const unknownOnChain = Array.from(onChain.entries())
+      .filter(([hash]) => !known.has(hash))
+      .map(([, entry]) => entry);
+
+    return {
+      consistent: missingOnChain.length === 0 && unknownOnChain.length === 0 && mismatches.length === 0,
+      submitter: options.submitter,
+      localCount: local.length,
+      onChainCount: onChain.size,
+      matched,
+      missingOnChain,
+      unknownOnChain,
+      mismatches,
+      generatedAt: this.clock.now()
+    };
+  }
+
+  /**
+   * Read entries with at most `concurrency` getEntry calls in flight, keeping input order
+   */
+  private async readEntries(hashes: string[], concurrency: number): Promise<Array<OnChainEntry | null>> {
+    const results: Array<OnChainEntry | null> = new Array(hashes.length).fill(null);
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < hashes.length) {
+        const i = next++;
+        results[i] = await this.source.getEntry(hashes[i]!);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, hashes.length) }, worker));
+    return results;
+  }
+
+  /**
+   * Generate reconciliation report
+   */
+  async generateReport(entries: AuditEntry[], options: ReconcileOptions): Promise<string> {
+    return JSON.stringify(await this.reconcile(entries, options), null, 2);
+  }
+}
\ No newline at end of file
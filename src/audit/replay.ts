@@ -0,0 +1,313 @@
+/**
+ * Audit Replay
+ *
+ * Rebuilds an agent's trading state from its persisted audit trail:
+ * - Positions and cash from POSITION_UPDATE and MARKET_RESOLVED
+ * - Stop losses for open positions, with trailing extremes from logged marks
+ * - Drawdown peak, daily start and cooldowns from logged values and halts
+ * - A check of the result against the last logged portfolio snapshot
+ */
+
+import { TradeDecision } from '../agents/base-agent';
+import {
+  DrawdownConfig,
+  DrawdownState,
+  PortfolioState,
+  StopLossManager,
+  StopLossParams
+} from '../risk/position-sizing';
+import { MarketResolution, OutcomeId, Settlement, shareValue } from '../markets/outcome-shares';
+import { AuditEntry, AuditVerifier } from './audit-trail';
+import { AuditEventPayloads, TypedAuditEntry } from './events';
+
+export interface ReplayOptions {
+  agent: string;
+  stopLoss: Omit<StopLossParams, 'entryPrice' | 'outcome'>;
+  drawdown: DrawdownConfig;
+  initialBalance?: bigint; // Opening cash; defaults to the balance logged by the first AGENT_START
+  verify?: boolean; // Check hashes and chain links before replaying (default: true)
+}
+
+export interface RecoveredStopLoss {
+  marketId: string;
+  outcome: OutcomeId;
+  manager: StopLossManager;
+}
+
+export interface SnapshotMismatch {
+  field: string;
+  replayed: string;
+  logged: string;
+}
+
+export interface ReplayResult {
+  portfolio: PortfolioState;
+  stopLosses: RecoveredStopLoss[];
+  drawdown: DrawdownState;
+  resolvedMarkets: MarketResolution[];
+  trades: TypedAuditEntry<'TRADE_EXECUTED'>[];
+  triggeredStops: Array<{ marketId: string; outcome: OutcomeId; reason?: string }>; // Fired but the position is still open
+  unconfirmedTrades: TradeDecision[]; // Started but never logged as executed or failed
+  replayed: number;
+  snapshot: { type: string; sequence?: number; timestamp: number } | null;
+  mismatches: SnapshotMismatch[];
+  consistent: boolean;
+}
+
+const DAY_MS = 86400000;
+
+/**
+ * Audit Replayer
+ * Folds one agent's logged events back into its portfolio and risk state
+ */
+export class AuditReplayer {
+  private options: ReplayOptions;
+
+  constructor(options: ReplayOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Replay a trail from its first entry
+   */
+  replay(entries: AuditEntry[]): ReplayResult {
+    if (this.options.verify !== false) {
+      const verification = AuditVerifier.verifyTrail(entries);
+      if (!verification.valid) {
+        throw new Error(`Audit trail failed verification: ${verification.issues[0]}`);
+      }
+    }
+
+    const own = entries.filter(e => e.agent === this.options.agent);
+    const start = own.find(e => e.type === 'AGENT_START') as TypedAuditEntry<'AGENT_START'> | undefined;
+    const balance = this.options.initialBalance ?? start?.data.balance;
+    if (balance === undefined) {
+      const rotated = entries[0]?.type === 'LOG_ROTATED';
+      throw new Error(
+        `No opening balance logged for ${this.options.agent}` +
+        (rotated ? '; the trail starts at a rotated segment, include the archived segments before it' : '')
+      );
+    }
+
+    const openedAt = own[0]?.timestamp ?? 0;
+    const state = {
+      portfolio: { totalValue: balance, positions: [], cash: balance, lastRebalance: openedAt } as PortfolioState,
+      stopLosses: new Map<string, RecoveredStopLoss>(),
+      drawdown: {
+        peakValue: balance,
+        currentValue: balance,
+        dailyStartValue: balance,
+        lastReset: openedAt,
+        inCooldown: false,
+        cooldownEnd: 0,
+        triggeredCount: 0
+      } as DrawdownState,
+      triggered: new Map<string, { marketId: string; outcome: OutcomeId; reason?: string }>()
+    };
+
+    const resolvedMarkets: MarketResolution[] = [];
+    const trades: TypedAuditEntry<'TRADE_EXECUTED'>[] = [];
+    const executing: TradeDecision[] = [];
+    let snapshot: { entry: AuditEntry; portfolio: PortfolioState } | null = null;
+
+    for (const entry of own) {
+      const event = entry as TypedAuditEntry;
+      switch (event.type) {
+        case 'POSITION_UPDATE':
+          this.applyUpdate(state, event.data, entry.timestamp);
+          this.observe(state, event.data.portfolio, entry.timestamp);
+          snapshot = { entry, portfolio: event.data.portfolio };
+          break;
+        case 'MARKET_RESOLVED':
+          this.applySettlements(state, event.data.resolution.marketId, event.data.settlements);
+          resolvedMarkets.push(event.data.resolution);
+          this.observe(state, event.data.portfolio, entry.timestamp);
+          snapshot = { entry, portfolio: event.data.portfolio };
+          break;
+        case 'AGENT_STOP':
+          this.mark(state, event.data.finalPortfolio);
+          snapshot = { entry, portfolio: event.data.finalPortfolio };
+          break;
+        case 'STATE_RECOVERED':
+          this.mark(state, event.data.portfolio);
+          snapshot = { entry, portfolio: event.data.portfolio };
+          break;
+        case 'STOP_LOSS_TRIGGERED':
+          state.triggered.set(stateKey(event.data.marketId, event.data.outcome), event.data);
+          break;
+        case 'DRAWDOWN_HALT':
+          this.applyHalt(state.drawdown, event.data, entry.timestamp);
+          break;
+        case 'REBALANCE_COMPLETE':
+          state.portfolio.lastRebalance = entry.timestamp;
+          break;
+        case 'EXECUTING_TRADE':
+          executing.push(event.data.decision);
+          break;
+        case 'TRADE_EXECUTED':
+        case 'TRADE_FAILED': {
+          const index = executing.findIndex(d => sameDecision(d, event.data.decision));
+          if (index >= 0) executing.splice(index, 1);
+          if (event.type === 'TRADE_EXECUTED') trades.push(event);
+          break;
+        }
+        default:
+          break;
+      }
+    }
+
+    const mismatches = snapshot ? compareSnapshot(state.portfolio, snapshot.portfolio) : [];
+
+    return {
+      portfolio: state.portfolio,
+      stopLosses: Array.from(state.stopLosses.values()),
+      drawdown: state.drawdown,
+      resolvedMarkets,
+      trades,
+      triggeredStops: Array.from(state.triggered.values()),
+      unconfirmedTrades: executing,
+      replayed: own.length,
+      snapshot: snapshot
+        ? { type: snapshot.entry.type, sequence: snapshot.entry.sequence, timestamp: snapshot.entry.timestamp }
+        : null,
+      mismatches,
+      consistent: mismatches.length === 0
+    };
+  }
+
+  /**
+   * Apply a fill the way the agent's updatePosition did
+   */
+  private applyUpdate(state: ReplayState, update: AuditEventPayloads['POSITION_UPDATE'], timestamp: number): void {
+    const { marketId, outcome, amount, price, isBuy } = update;
+    const key = stateKey(marketId, outcome);
+    const portfolio = state.portfolio;
+    const existing = portfolio.positions.find(p => p.marketId === marketId && p.outcome === outcome);
+
+    if (isBuy) {
+      if (existing) {
+        const totalValue = (existing.position * existing.entryPrice) + (amount * price);
+        existing.position += amount;
+        existing.entryPrice = totalValue / existing.position;
+      } else {
+        portfolio.positions.push({ marketId, outcome, position: amount, entryPrice: price, currentPrice: price, timestamp });
+      }
+
+      const params: StopLossParams = { ...this.options.stopLoss, entryPrice: price, outcome };
+      state.stopLosses.set(key, { marketId, outcome, manager: new StopLossManager(params) });
+      portfolio.cash -= shareValue(amount, price);
+    } else {
+      if (existing) {
+        existing.position -= amount;
+        if (existing.position <= 0n) {
+          portfolio.positions = portfolio.positions.filter(p => p !== existing);
+          state.stopLosses.delete(key);
+          state.triggered.delete(key);
+        }
+      }
+      portfolio.cash += shareValue(amount, price);
+    }
+  }
+
+  /**
+   * Pay out a resolved market and drop its positions
+   */
+  private applySettlements(state: ReplayState, marketId: string, settlements: Settlement[]): void {
+    for (const settlement of settlements) {
+      state.portfolio.cash += settlement.payout;
+      state.stopLosses.delete(stateKey(marketId, settlement.outcome));
+      state.triggered.delete(stateKey(marketId, settlement.outcome));
+    }
+    state.portfolio.positions = state.portfolio.positions.filter(p => p.marketId !== marketId);
+  }
+
+  /**
+   * Take the marks of a logged snapshot and feed its value to the drawdown state
+   */
+  private observe(state: ReplayState, snapshot: PortfolioState, timestamp: number): void {
+    this.mark(state, snapshot);
+
+    const drawdown = state.drawdown;
+    const value = state.portfolio.totalValue;
+    drawdown.currentValue = value;
+    if (value > drawdown.peakValue) {
+      drawdown.peakValue = value;
+    }
+    if (timestamp - drawdown.lastReset > DAY_MS) {
+      drawdown.dailyStartValue = value;
+      drawdown.lastReset = timestamp;
+    }
+    if (drawdown.inCooldown && timestamp >= drawdown.cooldownEnd) {
+      drawdown.inCooldown = false;
+    }
+  }
+
+  /**
+   * Revalue replayed positions at a snapshot's prices, which also moves stop loss extremes
+   */
+  private mark(state: ReplayState, snapshot: PortfolioState): void {
+    let positionValue = 0n;
+    for (const position of state.portfolio.positions) {
+      const logged = snapshot.positions.find(p => p.marketId === position.marketId && p.outcome === position.outcome);
+      if (logged) {
+        position.currentPrice = logged.currentPrice;
+        state.stopLosses.get(stateKey(position.marketId, position.outcome || 'YES'))?.manager.updatePrice(logged.currentPrice);
+      }
+      positionValue += shareValue(position.position, position.currentPrice);
+    }
+    state.portfolio.totalValue = state.portfolio.cash + positionValue;
+  }
+
+  /**
+   * A CRITICAL halt is where the protector started a cooldown
+   */
+  private applyHalt(drawdown: DrawdownState, halt: AuditEventPayloads['DRAWDOWN_HALT'], timestamp: number): void {
+    if (drawdown.inCooldown && timestamp >= drawdown.cooldownEnd) {
+      drawdown.inCooldown = false;
+    }
+    if (halt.status.status === 'CRITICAL') {
+      drawdown.inCooldown = true;
+      drawdown.cooldownEnd = timestamp + this.options.drawdown.cooldownPeriodMs;
+      drawdown.triggeredCount++;
+    }
+  }
+}
+
+interface ReplayState {
+  portfolio: PortfolioState;
+  stopLosses: Map<string, RecoveredStopLoss>;
+  drawdown: DrawdownState;
+  triggered: Map<string, { marketId: string; outcome: OutcomeId; reason?: string }>;
+}
+
+function stateKey(marketId: string, outcome: OutcomeId): string {
+  return `${marketId}:${outcome}`;
+}
+
+function sameDecision(a: TradeDecision, b: TradeDecision): boolean {
+  return a.marketId === b.marketId && a.outcome === b.outcome && a.action === b.action && a.amount === b.amount;
+}
+
+/**
+ * Differences between the replayed portfolio and a logged one
+ */
+function compareSnapshot(replayed: PortfolioState, logged: PortfolioState): SnapshotMismatch[] {
+  const mismatches: SnapshotMismatch[] = [];
+  const check = (field: string, a: bigint | undefined, b: bigint | undefined) => {
+    if (a !== b) {
+      mismatches.push({ field, replayed: a?.toString() ?? 'none', logged: b?.toString() ?? 'none' });
+    }
+  };
+
+  check('cash', replayed.cash, logged.cash);
+  check('totalValue', replayed.totalValue, logged.totalValue);
+
+  const keys = new Set([...replayed.positions, ...logged.positions].map(p => stateKey(p.marketId, p.outcome || 'YES')));
+  for (const key of keys) {
+    const find = (portfolio: PortfolioState) => portfolio.positions.find(p => stateKey(p.marketId, p.outcome || 'YES') === key);
+    check(`${key}.position`, find(replayed)?.position, find(logged)?.position);
+    check(`${key}.entryPrice`, find(replayed)?.entryPrice, find(logged)?.entryPrice);
+  }
+
+  return mismatches;
+}
\ No newline at end of file
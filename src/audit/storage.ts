@@ -0,0 +1,240 @@
+/**
+ * Audit Storage
+ *
+ * Persistence backends for the audit trail:
+ * - Append-only JSONL file, one entry per line, synced on every write
+ * - Reload of the current segment on startup, repairing a torn final line
+ * - Reload of archived segments, oldest first
+ * - Rotation by size or calendar day into archived segments, with the
+ *   next segment's first entry written before the active file is archived
+ */
+
+import * as fs from 'fs';
+import { basename, dirname, join } from 'path';
+import { AuditEntry } from './audit-trail';
+import { taggedReplacer, taggedReviver } from './canonical';
+
+/**
+ * Audit Storage
+ * Durable home for audit entries
+ */
+export interface AuditStorage {
+  load(): AuditEntry[];
+  loadArchived(): AuditEntry[]; // Every archived segment, oldest first
+  append(entry: AuditEntry): void;
+  shouldRotate(now: number): boolean;
+  rotate(now: number, marker: (archive: string) => Promise<AuditEntry>): Promise<string>; // Location of the archived segment
+  close(): void;
+}
+
+export interface RotationConfig {
+  maxBytes?: number; // Rotate once the active file reaches this size
+  daily?: boolean; // Rotate when the UTC date changes
+}
+
+/**
+ * JSONL File Storage
+ * Appends each entry as a line and fsyncs before returning
+ */
+export class JsonlFileStorage implements AuditStorage {
+  private path: string;
+  private rotation: RotationConfig;
+  private fd: number | null = null;
+  private size: number = 0;
+  private segmentStart: number | null = null;
+
+  constructor(path: string, rotation: RotationConfig = {}) {
+    if (rotation.maxBytes !== undefined && rotation.maxBytes <= 0) {
+      throw new Error('Rotation size must be positive');
+    }
+    this.path = path;
+    this.rotation = rotation;
+  }
+
+  /**
+   * Read every entry in the active segment, first finishing a rotation
+   * interrupted between archiving the old segment and opening the new one
+   */
+  load(): AuditEntry[] {
+    const next = this.nextPath();
+    if (fs.existsSync(next)) {
+      if (fs.existsSync(this.path)) {
+        fs.unlinkSync(next); // Crashed before archiving; the active segment is intact
+      } else {
+        fs.renameSync(next, this.path);
+      }
+    }
+
+    this.repairLastLine();
+    const entries = JsonlFileStorage.readEntries(this.path);
+    this.size = fs.existsSync(this.path) ? fs.statSync(this.path).size : 0;
+    this.segmentStart = entries[0]?.timestamp ?? null;
+    return entries;
+  }
+
+  /**
+   * Read the segments archived by rotation, oldest first
+   */
+  loadArchived(): AuditEntry[] {
+    const dir = dirname(this.path);
+    const prefix = `${basename(this.path)}.`;
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const archives = fs.readdirSync(dir)
+      .filter(name => name.startsWith(prefix))
+      .map(name => ({ name, match: /^(\d+)(?:-(\d+))?$/.exec(name.slice(prefix.length)) }))
+      .filter(a => a.match !== null)
+      .map(a => ({ name: a.name, rotatedAt: Number(a.match![1]), n: Number(a.match![2] ?? 0) }))
+      .sort((a, b) => a.rotatedAt - b.rotatedAt || a.n - b.n);
+
+    return archives.flatMap(a => JsonlFileStorage.readEntries(join(dir, a.name)));
+  }
+
+  append(entry: AuditEntry): void {
+    const line = JSON.stringify(entry, taggedReplacer) + '\n';
+    const fd = this.open();
+
+    fs.writeSync(fd, line);
+    fs.fsyncSync(fd);
+
+    this.size += Buffer.byteLength(line);
+    if (this.segmentStart === null) {
+      this.segmentStart = entry.timestamp;
+    }
+  }
+
+  shouldRotate(now: number): boolean {
+    if (this.size === 0) {
+      return false;
+    }
+    if (this.rotation.maxBytes !== undefined && this.size >= this.rotation.maxBytes) {
+      return true;
+    }
+    if (this.rotation.daily && this.segmentStart !== null) {
+      return utcDate(now) !== utcDate(this.segmentStart);
+    }
+    return false;
+  }
+
+  /**
+   * Write the new segment's first entry to a side file, then archive the
+   * active file and move the side file into its place, so a crash never
+   * leaves an empty active segment that would restart the chain
+   */
+  async rotate(now: number, marker: (archive: string) => Promise<AuditEntry>): Promise<string> {
+    this.close();
+
+    let archive = `${this.path}.${now}`;
+    for (let n = 1; fs.existsSync(archive); n++) {
+      archive = `${this.path}.${now}-${n}`;
+    }
+
+    const entry = await marker(archive);
+    const line = JSON.stringify(entry, taggedReplacer) + '\n';
+    const next = this.nextPath();
+    const fd = fs.openSync(next, 'w');
+    try {
+      fs.writeSync(fd, line);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    fs.renameSync(this.path, archive);
+    fs.renameSync(next, this.path);
+
+    this.size = Buffer.byteLength(line);
+    this.segmentStart = entry.timestamp;
+    return archive;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  /**
+   * Path of the active segment
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Parse a JSONL segment, active or archived. A final line without its
+   * newline that does not parse was torn by a crash mid-write and is skipped.
+   */
+  static readEntries(path: string): AuditEntry[] {
+    if (!fs.existsSync(path)) {
+      return [];
+    }
+
+    const lines = fs.readFileSync(path, 'utf8').split('\n');
+    const last = lines.pop()!; // Empty after a complete last line
+    const entries: AuditEntry[] = [];
+
+    lines.forEach((line, index) => {
+      if (line.trim() === '') return;
+      try {
+        entries.push(JSON.parse(line, taggedReviver));
+      } catch {
+        throw new Error(`Corrupt audit log ${path} at line ${index + 1}`);
+      }
+    });
+
+    if (last.trim() !== '') {
+      try {
+        entries.push(JSON.parse(last, taggedReviver));
+      } catch {
+        // Torn write, never acknowledged
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Truncate a torn final line, or end a complete one, so the next append
+   * starts on a fresh line
+   */
+  private repairLastLine(): void {
+    if (!fs.existsSync(this.path)) {
+      return;
+    }
+
+    const content = fs.readFileSync(this.path);
+    const end = content.lastIndexOf('\n') + 1;
+    if (end === content.length) {
+      return;
+    }
+
+    try {
+      JSON.parse(content.subarray(end).toString('utf8'));
+      fs.appendFileSync(this.path, '\n');
+    } catch {
+      fs.truncateSync(this.path, end);
+    }
+  }
+
+  /**
+   * Side file holding the next segment's first entry during rotation
+   */
+  private nextPath(): string {
+    return `${this.path}.next`;
+  }
+
+  private open(): number {
+    if (this.fd === null) {
+      this.fd = fs.openSync(this.path, 'a');
+    }
+    return this.fd;
+  }
+}
+
+function utcDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
\ No newline at end of file
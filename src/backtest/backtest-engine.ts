@@ -0,0 +1,316 @@
+/**
+ * Backtesting Engine
+ *
+ * Replays recorded market data through an agent's full decision
+ * pipeline to evaluate strategies before they trade real funds:
+ * - Configurable fill models on a paper trading venue
+ * - Settlement of outcome shares when markets resolve
+ * - Equity curve and trade list
+ * - Summary statistics (PnL, Sharpe, max drawdown, hit rate)
+ */
+
+import { BaseAgent, MarketData, Prediction, TradeDecision } from '../agents/base-agent';
+import { Fill, FillModel, MidPriceFillModel, PaperTradingVenue } from '../execution/venues';
+import { SimulatedClock } from '../utils/clock';
+import { OutcomeId, MarketResolution, Settlement, settlementPrice, shareValue } from '../markets/outcome-shares';
+
+export interface BacktestStep {
+  marketData: MarketData;
+  prediction?: Prediction;
+  oraclePrices?: Record<string, bigint>;
+  resolution?: MarketResolution; // Settles the market after this step
+}
+
+export interface BacktestConfig {
+  fillModel?: FillModel;
+  maxLiquidityPercent?: number;
+  periodsPerYear?: number;
+  clock?: SimulatedClock; // Optional; must be the clock the agent was built with
+}
+
+export interface BacktestTrade {
+  timestamp: number;
+  marketId: string;
+  outcome: OutcomeId;
+  action: 'BUY' | 'SELL' | 'SETTLE';
+  amount: bigint;
+  price: bigint;
+  reason: string;
+  realizedPnl: bigint | null;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  totalValue: bigint;
+  cash: bigint;
+}
+
+export interface BacktestStats {
+  startValue: bigint;
+  endValue: bigint;
+  pnl: bigint;
+  returnPercent: number;
+  sharpeRatio: number;
+  maxDrawdownPercent: number;
+  hitRate: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+}
+
+export interface BacktestResult {
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  stats: BacktestStats;
+}
+
+/**
+ * Backtest Engine
+ * Drives an agent through a time-ordered series of recorded market data
+ */
+export class BacktestEngine {
+  private agent: BaseAgent;
+  private fillModel: FillModel;
+  private maxLiquidityPercent: number;
+  private periodsPerYear: number;
+  private clock: SimulatedClock;
+
+  constructor(agent: BaseAgent, config: BacktestConfig = {}) {
+    // Replayed time drives the agent, so it must run on a clock the engine can move
+    const clock = agent.getClock();
+    if (!(clock instanceof SimulatedClock)) {
+      throw new Error('Backtests need an agent built with a SimulatedClock');
+    }
+    if (config.clock && config.clock !== clock) {
+      throw new Error('Backtest clock must be the clock the agent was built with');
+    }
+    this.agent = agent;
+    this.fillModel = config.fillModel || new MidPriceFillModel();
+    this.maxLiquidityPercent = config.maxLiquidityPercent ?? 1.0;
+    this.periodsPerYear = config.periodsPerYear || 365;
+    this.clock = clock;
+  }
+
+  /**
+   * Replay steps through processMarketData and executeTrade
+   */
+  async run(steps: BacktestStep[]): Promise<BacktestResult> {
+    const ordered = [...steps].sort((a, b) => a.marketData.timestamp - b.marketData.timestamp);
+    if (ordered[0] && ordered[0].marketData.timestamp < this.clock.now()) {
+      throw new Error(
+        `Backtest data starts at ${ordered[0].marketData.timestamp}, before the agent's clock at ${this.clock.now()}; ` +
+        'replay it with a fresh clock and agent'
+      );
+    }
+    const equityCurve: EquityPoint[] = [];
+    const trades: BacktestTrade[] = [];
+    const costBasis = new Map<string, { quantity: bigint; cost: bigint }>();
+
+    // The backtest owns execution for the duration of the run
+    const previousVenue = this.agent.getVenue();
+    const venue = new PaperTradingVenue({
+      initialBalance: this.agent.getPortfolio().cash,
+      fillModel: this.fillModel,
+      maxLiquidityPercent: this.maxLiquidityPercent,
+      clock: this.clock
+    });
+    this.agent.setVenue(venue);
+
+    const startValue = this.agent.getPortfolio().totalValue;
+    equityCurve.push({
+      timestamp: ordered[0]?.marketData.timestamp || 0,
+      totalValue: startValue,
+      cash: this.agent.getPortfolio().cash
+    });
+
+    if (ordered[0]) {
+      this.clock.set(ordered[0].marketData.timestamp);
+    }
+    await this.agent.start();
+
+    try {
+      for (const step of ordered) {
+        // Cooldowns, daily resets and staleness follow replayed time
+        this.clock.set(step.marketData.timestamp);
+        this.feedOracles(step);
+
+        const prediction = step.prediction || await this.agent.generatePrediction(step.marketData);
+        const decision = await this.agent.processMarketData(step.marketData, prediction);
+
+        if (decision && decision.action !== 'HOLD') {
+          const reportCount = venue.getReports().length;
+          const executed = await this.agent.executeTrade(decision);
+
+          if (executed) {
+            for (const report of venue.getReports().slice(reportCount)) {
+              if (report.filledAmount > 0n) {
+                const fill: Fill = { price: report.averagePrice, amount: report.filledAmount };
+                trades.push(this.recordTrade(decision, fill, step.marketData.timestamp, costBasis));
+              }
+            }
+          }
+        }
+
+        if (step.resolution) {
+          const settlements = await this.agent.resolveMarket(step.resolution);
+          for (const settlement of settlements) {
+            trades.push(this.recordSettlement(settlement, step.resolution, costBasis));
+          }
+        }
+
+        const portfolio = this.agent.getPortfolio();
+        equityCurve.push({
+          timestamp: step.marketData.timestamp,
+          totalValue: portfolio.totalValue,
+          cash: portfolio.cash
+        });
+      }
+    } finally {
+      await this.agent.stop();
+      this.agent.setVenue(previousVenue);
+      this.agent.syncVenue(); // Carry the replayed book back to the agent's own venue
+    }
+
+    return {
+      equityCurve,
+      trades,
+      stats: this.calculateStats(equityCurve, trades)
+    };
+  }
+
+  private feedOracles(step: BacktestStep): void {
+    const prices: Record<string, bigint> = step.oraclePrices || {};
+    if (!step.oraclePrices) {
+      for (const source of this.agent.getOracleSources()) {
+        prices[source] = step.marketData.currentPrice;
+      }
+    }
+    this.agent.updateOraclePrices(prices, step.marketData.timestamp);
+  }
+
+  private recordTrade(
+    decision: TradeDecision,
+    fill: Fill,
+    timestamp: number,
+    costBasis: Map<string, { quantity: bigint; cost: bigint }>
+  ): BacktestTrade {
+    const action = decision.action === 'BUY' ? 'BUY' : 'SELL';
+    const key = `${decision.marketId}:${decision.outcome}`;
+    const basis = costBasis.get(key) || { quantity: 0n, cost: 0n };
+    let realizedPnl: bigint | null = null;
+
+    if (action === 'BUY') {
+      basis.quantity += fill.amount;
+      basis.cost += shareValue(fill.amount, fill.price);
+    } else if (basis.quantity > 0n) {
+      const quantity = fill.amount < basis.quantity ? fill.amount : basis.quantity;
+      const costOfSold = (basis.cost * quantity) / basis.quantity;
+      realizedPnl = shareValue(quantity, fill.price) - costOfSold;
+      basis.quantity -= quantity;
+      basis.cost -= costOfSold;
+    }
+
+    if (basis.quantity > 0n) {
+      costBasis.set(key, basis);
+    } else {
+      costBasis.delete(key);
+    }
+
+    return {
+      timestamp,
+      marketId: decision.marketId,
+      outcome: decision.outcome,
+      action,
+      amount: fill.amount,
+      price: fill.price,
+      reason: decision.reason,
+      realizedPnl
+    };
+  }
+
+  private recordSettlement(
+    settlement: Settlement,
+    resolution: MarketResolution,
+    costBasis: Map<string, { quantity: bigint; cost: bigint }>
+  ): BacktestTrade {
+    const key = `${settlement.marketId}:${settlement.outcome}`;
+    const basis = costBasis.get(key);
+    costBasis.delete(key);
+
+    return {
+      timestamp: resolution.timestamp,
+      marketId: settlement.marketId,
+      outcome: settlement.outcome,
+      action: 'SETTLE',
+      amount: settlement.shares,
+      price: settlementPrice(settlement.outcome, resolution.outcome),
+      reason: `Resolved ${resolution.outcome}`,
+      realizedPnl: settlement.payout - (basis ? basis.cost : settlement.costBasis)
+    };
+  }
+
+  private calculateStats(equityCurve: EquityPoint[], trades: BacktestTrade[]): BacktestStats {
+    const startValue = equityCurve[0]?.totalValue || 0n;
+    const endValue = equityCurve[equityCurve.length - 1]?.totalValue || 0n;
+    const pnl = endValue - startValue;
+
+    const closed = trades.filter(t => t.realizedPnl !== null);
+    const winningTrades = closed.filter(t => t.realizedPnl! > 0n).length;
+    const losingTrades = closed.filter(t => t.realizedPnl! < 0n).length;
+
+    return {
+      startValue,
+      endValue,
+      pnl,
+      returnPercent: startValue > 0n ? Number(pnl) / Number(startValue) : 0,
+      sharpeRatio: calculateSharpeRatio(equityCurve, this.periodsPerYear),
+      maxDrawdownPercent: calculateMaxDrawdown(equityCurve),
+      hitRate: closed.length > 0 ? winningTrades / closed.length : 0,
+      totalTrades: trades.length,
+      winningTrades,
+      losingTrades
+    };
+  }
+}
+
+/**
+ * Annualized Sharpe ratio of per-step equity returns
+ */
+export function calculateSharpeRatio(equityCurve: EquityPoint[], periodsPerYear: number = 365): number {
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const prev = equityCurve[i - 1]!.totalValue;
+    if (prev > 0n) {
+      returns.push(Number(equityCurve[i]!.totalValue - prev) / Number(prev));
+    }
+  }
+
+  if (returns.length < 2) return 0;
+
+  const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+  const variance = returns.reduce((acc, r) => acc + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  const stdDev = Math.sqrt(variance);
+
+  if (stdDev === 0) return 0;
+  return (mean / stdDev) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Largest peak-to-trough decline of the equity curve
+ */
+export function calculateMaxDrawdown(equityCurve: EquityPoint[]): number {
+  let peak = 0n;
+  let maxDrawdown = 0;
+
+  for (const point of equityCurve) {
+    if (point.totalValue > peak) {
+      peak = point.totalValue;
+    }
+    if (peak > 0n) {
+      const drawdown = Number(peak - point.totalValue) / Number(peak);
+      maxDrawdown = Math.max(maxDrawdown, drawdown);
+    }
+  }
+
+  return maxDrawdown;
+}
\ No newline at end of file
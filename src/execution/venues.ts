@@ -0,0 +1,434 @@
+/**
+ * Execution Venues
+ *
+ * Pluggable order execution for agents:
+ * - Paper trading at market price plus modelled slippage
+ * - Constant-product AMM pools
+ * - Partial fills, cancellation and balance tracking
+ * - Settlement of outcome shares on market resolution
+ */
+
+import { MarketData } from '../agents/base-agent';
+import { Clock, systemClock } from '../utils/clock';
+import {
+  OutcomeId,
+  MarketResolution,
+  PRICE_SCALE,
+  findOutcomeQuote,
+  outcomeQuote,
+  settlementPrice,
+  shareValue,
+  sharesForNotional
+} from '../markets/outcome-shares';
+
+export type OrderSide = 'BUY' | 'SELL';
+
+export type OrderStatus = 'OPEN' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+export interface OrderRequest {
+  marketId: string;
+  side: OrderSide;
+  amount: bigint; // Shares
+  outcome?: OutcomeId; // Defaults to YES
+  limitPrice?: bigint;
+  privateSubmission?: boolean; // Route through a private relay; simulated venues have no mempool to hide from
+}
+
+export interface ExecutionReport {
+  orderId: string;
+  marketId: string;
+  outcome: OutcomeId;
+  side: OrderSide;
+  requestedAmount: bigint;
+  filledAmount: bigint;
+  averagePrice: bigint;
+  status: OrderStatus;
+  reason?: string;
+  timestamp: number;
+}
+
+export interface Fill {
+  price: bigint;
+  amount: bigint;
+}
+
+export interface VenueHolding {
+  marketId: string;
+  outcome: OutcomeId;
+  shares: bigint;
+}
+
+/**
+ * Execution Venue
+ * Where agents submit, track and cancel orders
+ */
+export interface ExecutionVenue {
+  readonly name: string;
+  submitOrder(order: OrderRequest): Promise<string>;
+  getFill(orderId: string): Promise<ExecutionReport>;
+  cancelOrder(orderId: string): Promise<boolean>;
+  getBalance(): Promise<bigint>;
+  updateMarket?(marketData: MarketData): void;
+  settleMarket?(resolution: MarketResolution): Promise<bigint>;
+  syncAccount?(balance: bigint, holdings: VenueHolding[]): void; // Simulated venues: replace the account with the agent's book
+}
+
+/**
+ * Fill Model
+ * Prices an order against the latest market snapshot
+ */
+export interface FillModel {
+  fill(order: OrderRequest, marketData: MarketData): Fill;
+}
+
+/**
+ * Mid Price Fill Model
+ * Fills at the recorded market price
+ */
+export class MidPriceFillModel implements FillModel {
+  fill(order: OrderRequest, marketData: MarketData): Fill {
+    return { price: outcomeQuote(marketData, order.outcome || 'YES').price, amount: order.amount };
+  }
+}
+
+/**
+ * Slippage Fill Model
+ * Moves the fill price against the trade by a fixed spread plus
+ * constant-product price impact relative to market liquidity
+ */
+export class SlippageFillModel implements FillModel {
+  private slippageBps: number;
+  private impactMultiplier: number;
+
+  constructor(slippageBps: number = 10, impactMultiplier: number = 1.0) {
+    if (slippageBps < 0 || impactMultiplier < 0) {
+      throw new Error('Slippage parameters must be non-negative');
+    }
+    this.slippageBps = slippageBps;
+    this.impactMultiplier = impactMultiplier;
+  }
+
+  fill(order: OrderRequest, marketData: MarketData): Fill {
+    const quote = outcomeQuote(marketData, order.outcome || 'YES');
+    const midPrice = quote.price;
+    const notional = shareValue(order.amount, midPrice);
+    const impact = quote.liquidity === 0n
+      ? 1
+      : Number(notional) / (Number(quote.liquidity) + Number(notional));
+
+    const slippage = this.slippageBps / 10000 + impact * this.impactMultiplier;
+    const adjustment = BigInt(Math.floor(Math.min(slippage, 1) * 10000));
+    const move = (midPrice * adjustment) / 10000n;
+
+    // Outcome shares never trade above 1.0
+    const price = order.side === 'BUY'
+      ? (midPrice + move < PRICE_SCALE ? midPrice + move : PRICE_SCALE)
+      : midPrice - move;
+
+    return { price, amount: order.amount };
+  }
+}
+
+/**
+ * Simulated Venue
+ * Shared order bookkeeping for venues that match orders locally
+ */
+export abstract class SimulatedVenue implements ExecutionVenue {
+  abstract readonly name: string;
+  protected balance: bigint;
+  protected clock: Clock;
+  private reports: Map<string, ExecutionReport> = new Map();
+  private holdings: Map<string, VenueHolding> = new Map();
+  private nextOrderId: number = 1;
+
+  constructor(initialBalance: bigint, clock: Clock = systemClock) {
+    this.balance = initialBalance;
+    this.clock = clock;
+  }
+
+  async submitOrder(order: OrderRequest): Promise<string> {
+    if (order.amount <= 0n) {
+      throw new Error('Order amount must be positive');
+    }
+
+    const orderId = `${this.name}-${this.nextOrderId++}`;
+    const outcome = order.outcome || 'YES';
+    const report: ExecutionReport = {
+      orderId,
+      marketId: order.marketId,
+      outcome,
+      side: order.side,
+      requestedAmount: order.amount,
+      filledAmount: 0n,
+      averagePrice: 0n,
+      status: 'OPEN',
+      timestamp: this.clock.now()
+    };
+
+    // Sells are capped by the shares held, as buys are by the balance
+    const key = `${order.marketId}:${outcome}`;
+    const held = this.holdings.get(key)?.shares ?? 0n;
+    const result = order.side === 'SELL' && held <= 0n
+      ? 'Insufficient shares'
+      : this.match(order.side === 'SELL' && order.amount > held ? { ...order, amount: held } : order);
+    if (typeof result === 'string') {
+      report.status = 'REJECTED';
+      report.reason = result;
+    } else {
+      const value = shareValue(result.amount, result.price);
+      this.balance += order.side === 'BUY' ? -value : value;
+
+      const holding = this.holdings.get(key) || { marketId: order.marketId, outcome, shares: 0n };
+      holding.shares += order.side === 'BUY' ? result.amount : -result.amount;
+      this.holdings.set(key, holding);
+
+      report.filledAmount = result.amount;
+      report.averagePrice = result.price;
+      report.status = result.amount >= order.amount ? 'FILLED' : 'PARTIALLY_FILLED';
+    }
+
+    this.reports.set(orderId, report);
+    return orderId;
+  }
+
+  async getFill(orderId: string): Promise<ExecutionReport> {
+    const report = this.reports.get(orderId);
+    if (!report) {
+      throw new Error(`Unknown order: ${orderId}`);
+    }
+    return { ...report };
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    const report = this.reports.get(orderId);
+    if (!report || (report.status !== 'OPEN' && report.status !== 'PARTIALLY_FILLED')) {
+      return false;
+    }
+
+    report.status = 'CANCELLED';
+    return true;
+  }
+
+  async getBalance(): Promise<bigint> {
+    return this.balance;
+  }
+
+  /**
+   * Replace the balance and holdings, e.g. with a book recovered after a restart
+   */
+  syncAccount(balance: bigint, holdings: VenueHolding[]): void {
+    this.balance = balance;
+    this.holdings = new Map();
+    for (const holding of holdings) {
+      const key = `${holding.marketId}:${holding.outcome}`;
+      const shares = (this.holdings.get(key)?.shares ?? 0n) + holding.shares;
+      this.holdings.set(key, { marketId: holding.marketId, outcome: holding.outcome, shares });
+    }
+  }
+
+  /**
+   * Pay out shares held in a resolved market, returning the total paid
+   */
+  async settleMarket(resolution: MarketResolution): Promise<bigint> {
+    let payout = 0n;
+    for (const [key, holding] of this.holdings) {
+      if (holding.marketId !== resolution.marketId) continue;
+
+      if (holding.shares > 0n) {
+        payout += shareValue(holding.shares, settlementPrice(holding.outcome, resolution.outcome));
+      }
+      this.holdings.delete(key);
+    }
+
+    this.balance += payout;
+    return payout;
+  }
+
+  /**
+   * All execution reports in submission order
+   */
+  getReports(): ExecutionReport[] {
+    return Array.from(this.reports.values()).map(r => ({ ...r }));
+  }
+
+  /**
+   * Match an order, returning the fill or a rejection reason
+   */
+  protected abstract match(order: OrderRequest): Fill | string;
+}
+
+export interface PaperVenueConfig {
+  initialBalance: bigint;
+  fillModel?: FillModel;
+  maxLiquidityPercent?: number; // Max share of market liquidity per order
+  clock?: Clock;
+}
+
+/**
+ * Paper Trading Venue
+ * Fills against the latest MarketData snapshot for each market
+ */
+export class PaperTradingVenue extends SimulatedVenue {
+  readonly name = 'paper';
+  private fillModel: FillModel;
+  private maxLiquidityPercent: number;
+  private markets: Map<string, MarketData> = new Map();
+
+  constructor(config: PaperVenueConfig) {
+    super(config.initialBalance, config.clock);
+    this.fillModel = config.fillModel || new SlippageFillModel();
+    this.maxLiquidityPercent = config.maxLiquidityPercent ?? 0.1;
+  }
+
+  updateMarket(marketData: MarketData): void {
+    this.markets.set(marketData.marketId, marketData);
+  }
+
+  protected match(order: OrderRequest): Fill | string {
+    const marketData = this.markets.get(order.marketId);
+    if (!marketData) {
+      return 'No market data';
+    }
+    const quote = findOutcomeQuote(marketData, order.outcome || 'YES');
+    if (!quote) {
+      return 'Unknown outcome';
+    }
+
+    const fill = this.fillModel.fill(order, marketData);
+    if (fill.price <= 0n) {
+      return 'Invalid fill price';
+    }
+    if (order.limitPrice !== undefined &&
+        (order.side === 'BUY' ? fill.price > order.limitPrice : fill.price < order.limitPrice)) {
+      return 'Limit price exceeded';
+    }
+
+    // Cap size by the outcome's available liquidity
+    const maxNotional = (quote.liquidity * BigInt(Math.floor(this.maxLiquidityPercent * 10000))) / 10000n;
+    let amount = fill.amount;
+    if (shareValue(amount, fill.price) > maxNotional) {
+      amount = sharesForNotional(maxNotional, fill.price);
+    }
+
+    // Cap buys by available balance
+    if (order.side === 'BUY' && shareValue(amount, fill.price) > this.balance) {
+      amount = this.balance > 0n ? sharesForNotional(this.balance, fill.price) : 0n;
+    }
+
+    if (amount <= 0n) {
+      return order.side === 'BUY' && this.balance <= 0n ? 'Insufficient balance' : 'Insufficient liquidity';
+    }
+
+    return { price: fill.price, amount };
+  }
+}
+
+export interface AmmPool {
+  shareReserve: bigint;
+  cashReserve: bigint;
+}
+
+export interface AmmVenueConfig {
+  initialBalance: bigint;
+  feeBps?: number;
+  maxPoolUtilization?: number; // Max share of reserves one order can take
+  clock?: Clock;
+}
+
+/**
+ * AMM Venue
+ * Computes fills from constant-product (x * y = k) pool reserves,
+ * one pool per outcome of each market
+ */
+export class AmmVenue extends SimulatedVenue {
+  readonly name = 'amm';
+  private feeBps: bigint;
+  private maxPoolUtilization: number;
+  private pools: Map<string, AmmPool> = new Map();
+
+  constructor(config: AmmVenueConfig) {
+    super(config.initialBalance, config.clock);
+    this.feeBps = BigInt(Math.floor(config.feeBps ?? 30));
+    this.maxPoolUtilization = config.maxPoolUtilization ?? 0.3;
+    if (this.maxPoolUtilization <= 0 || this.maxPoolUtilization >= 1) {
+      throw new Error(`Pool utilization must be above 0 and below 1: ${this.maxPoolUtilization}`);
+    }
+  }
+
+  setPool(marketId: string, shareReserve: bigint, cashReserve: bigint, outcome: OutcomeId = 'YES'): void {
+    if (shareReserve <= 0n || cashReserve <= 0n) {
+      throw new Error('Pool reserves must be positive');
+    }
+    this.pools.set(`${marketId}:${outcome}`, { shareReserve, cashReserve });
+  }
+
+  getPool(marketId: string, outcome: OutcomeId = 'YES'): AmmPool | undefined {
+    const pool = this.pools.get(`${marketId}:${outcome}`);
+    return pool ? { ...pool } : undefined;
+  }
+
+  getSpotPrice(marketId: string, outcome: OutcomeId = 'YES'): bigint {
+    const pool = this.pools.get(`${marketId}:${outcome}`);
+    if (!pool) {
+      throw new Error(`No pool for market: ${marketId}`);
+    }
+    return (pool.cashReserve * PRICE_SCALE) / pool.shareReserve;
+  }
+
+  protected match(order: OrderRequest): Fill | string {
+    const pool = this.pools.get(`${order.marketId}:${order.outcome || 'YES'}`);
+    if (!pool) {
+      return 'No pool for market';
+    }
+
+    const maxAmount = (pool.shareReserve * BigInt(Math.floor(this.maxPoolUtilization * 10000))) / 10000n;
+    let amount = order.amount < maxAmount ? order.amount : maxAmount;
+
+    if (order.side === 'BUY') {
+      let cost = this.quoteBuy(pool, amount);
+      if (cost > this.balance) {
+        // Scale down to what the balance affords at this average price
+        amount = (amount * this.balance) / cost;
+        cost = this.quoteBuy(pool, amount);
+      }
+      if (amount <= 0n || cost > this.balance) {
+        return 'Insufficient balance';
+      }
+
+      const price = (cost * PRICE_SCALE) / amount;
+      if (order.limitPrice !== undefined && price > order.limitPrice) {
+        return 'Limit price exceeded';
+      }
+
+      pool.shareReserve -= amount;
+      pool.cashReserve += cost;
+      return { price, amount };
+    }
+
+    if (amount <= 0n) {
+      return 'Insufficient liquidity';
+    }
+
+    const proceeds = this.quoteSell(pool, amount);
+    const price = (proceeds * PRICE_SCALE) / amount;
+    if (order.limitPrice !== undefined && price < order.limitPrice) {
+      return 'Limit price exceeded';
+    }
+
+    pool.shareReserve += amount;
+    pool.cashReserve -= proceeds;
+    return { price, amount };
+  }
+
+  private quoteBuy(pool: AmmPool, amount: bigint): bigint {
+    if (amount <= 0n) return 0n;
+    // Cash in so that (share - amount) * (cash + in) = share * cash, plus fee
+    const cashIn = (pool.cashReserve * amount) / (pool.shareReserve - amount) + 1n;
+    return (cashIn * (10000n + this.feeBps)) / 10000n;
+  }
+
+  private quoteSell(pool: AmmPool, amount: bigint): bigint {
+    const cashOut = (pool.cashReserve * amount) / (pool.shareReserve + amount);
+    return (cashOut * (10000n - this.feeBps)) / 10000n;
+  }
+}
\ No newline at end of file
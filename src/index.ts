@@ -4,24 +4,56 @@
  * Main entry point for the PredicGuard system.
  */
 
-export { BaseAgent, AgentConfig, MarketData, Prediction, TradeDecision } from './agents/base-agent';
-export { ConservativeBot, ConservativeConfig } from './agents/conservative-bot';
-export { BalancedBot, BalancedConfig } from './agents/balanced-bot';
-export { AggressiveBot, AggressiveConfig } from './agents/aggressive-bot';
+export { BaseAgent, AgentConfig, MarketData, Prediction, TradeDecision, DecisionStage, DecisionStageName, DecisionTrace } from './agents/base-agent';
+export { ConservativeBot, ConservativeConfig, CONSERVATIVE_RISK_POLICY } from './agents/conservative-bot';
+export { BalancedBot, BalancedConfig, BALANCED_RISK_POLICY } from './agents/balanced-bot';
+export { AggressiveBot, AggressiveConfig, AGGRESSIVE_RISK_POLICY } from './agents/aggressive-bot';
+export { AgentSnapshot, SNAPSHOT_VERSION, hashSnapshot, serializeSnapshot, parseSnapshot } from './agents/snapshot';
 
 export {
   calculateKellyCriterion,
+  calculateMarketKelly,
+  calculateMultiOutcomeKelly,
+  effectiveSharePrice,
   calculateFixedFractional,
   calculateVolatilityAdjusted,
   StopLossManager,
   PortfolioBalancer,
   DrawdownProtector,
   PositionSizingParams,
+  MarketKellyParams,
+  OutcomeOdds,
   StopLossParams,
+  StopLossState,
+  positionValue,
   PortfolioState,
-  DrawdownConfig
+  PortfolioPosition,
+  DrawdownConfig,
+  DrawdownState
 } from './risk/position-sizing';
 
+export {
+  PRICE_SCALE,
+  isValidSharePrice,
+  isValidDistribution,
+  hasValidQuotes,
+  marketOutcomes,
+  findOutcomeQuote,
+  outcomeQuote,
+  outcomePrice,
+  oppositeOutcome,
+  shareValue,
+  sharesForNotional,
+  settlementPrice,
+  settleShares,
+  OutcomeId,
+  BinaryOutcome,
+  OutcomeQuote,
+  QuotedMarket,
+  MarketResolution,
+  Settlement
+} from './markets/outcome-shares';
+
 export {
   WhaleDetector,
   WashTradingDetector,
@@ -31,11 +63,99 @@ export {
   Trade,
   WhaleAlert,
   WashTradingAlert,
+  TradeCycle,
+  FundingTransfer,
+  ClusterEvidence,
+  AddressCluster,
+  WashVolumeEstimate,
+  VolumeRecord,
   OracleStatus,
-  SandwichAlert
+  SandwichAlert,
+  WhaleDetectorState,
+  WashTradingState,
+  OracleMonitorState,
+  SandwichProtectorState
 } from './security/anti-manipulation';
 
-export { AuditLogger, AuditEntry, AuditConfig, AuditVerifier } from './audit/audit-trail';
+export {
+  SpoofingDetector,
+  OrderBookEvent,
+  OrderBookEventType,
+  SpoofingAlert,
+  SpoofingConfig,
+  OpenOrder,
+  CancelledOrder,
+  SpoofingDetectorState
+} from './security/spoofing';
+
+export {
+  PumpAndDumpDetector,
+  PumpAndDumpAlert,
+  PumpAndDumpConfig,
+  PricePoint,
+  ActivePush,
+  PumpAndDumpState
+} from './security/pump-and-dump';
+
+export {
+  MarketRiskAssessor,
+  toRiskSignal,
+  mergeRiskPolicy,
+  DEFAULT_RISK_POLICY,
+  AlertSeverity,
+  RiskAction,
+  RiskSignal,
+  RiskSignalSource,
+  RiskPolicy,
+  RiskPolicyConfig,
+  MarketRiskVerdict,
+  ResponseAction,
+  ResponseRule,
+  ActiveResponse,
+  RuleEvaluation
+} from './security/market-risk';
+
+export { AuditLogger, AuditEntry, AuditEntryFilter, filterAuditEntries, entryTimeRange, AuditConfig, AuditVerifier, ChainHead, ChainBreak, LoggableEntry, MerkleProof, SignerKey, SignerSet, VerifyTrailOptions, EntrySigner } from './audit/audit-trail';
+export { AuditStorage, JsonlFileStorage, RotationConfig } from './audit/storage';
+export { CANONICAL_SCHEMA, canonicalize, taggedReplacer, taggedReviver } from './audit/canonical';
+export { AuditEventPayloads, AuditEventType, TypedAuditEntry, EventSchema, FieldSpec, DrawdownStatus, AUDIT_EVENT_SCHEMAS, validateAuditEvent, isAuditEvent, entryMarketId } from './audit/events';
+export { AuditAnchor, AnchorConfig, AnchorContract, AnchorTransaction, AnchorState, AnchorStatus, AnchorResult, RootAnchor } from './audit/anchoring';
+export { AuditReplayer, ReplayOptions, ReplayResult, RecoveredStopLoss, SnapshotMismatch } from './audit/replay';
+export { loadTrail, summarizeEntries, formatEntries, formatSummary, parseTime, runAuditQuery, HALT_EVENT_TYPES, AuditSummary, OutputFormat, QueryCommand, QueryResult } from './audit/query';
+export { AuditReconciler, ContractAuditSource, OnChainAuditSource, OnChainEntry, ReconcileOptions, ReconciliationReport, FieldMismatch } from './audit/reconciliation';
+
+export { Clock, systemClock, FixedClock, SimulatedClock } from './utils/clock';
+
+export {
+  ExecutionVenue,
+  SimulatedVenue,
+  PaperTradingVenue,
+  AmmVenue,
+  MidPriceFillModel,
+  SlippageFillModel,
+  OrderRequest,
+  OrderSide,
+  OrderStatus,
+  ExecutionReport,
+  Fill,
+  VenueHolding,
+  FillModel,
+  PaperVenueConfig,
+  AmmVenueConfig,
+  AmmPool
+} from './execution/venues';
+
+export {
+  BacktestEngine,
+  calculateSharpeRatio,
+  calculateMaxDrawdown,
+  BacktestStep,
+  BacktestConfig,
+  BacktestTrade,
+  BacktestResult,
+  BacktestStats,
+  EquityPoint
+} from './backtest/backtest-engine';
 
 // Version
 export const VERSION = '0.1.0';
@@ -46,6 +166,7 @@ export function createAgent(
   config: {
     wallet: { address: string; balance: bigint };
     auditLogger: import('./audit/audit-trail').AuditLogger;
+    clock?: import('./utils/clock').Clock;
     customParams?: any;
   }
 ) {
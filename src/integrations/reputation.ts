@@ -5,6 +5,8 @@
  * and cross-reference security alerts.
  */
 
+import { AddressCluster } from '../security/anti-manipulation';
+
 export interface ReputationScore {
   address: string;
   score: number; // 0-100
@@ -385,6 +387,17 @@ export class ReputationGuard {
     console.log(`Blocked ${address}: ${reason || 'No reason provided'}`);
   }
 
+  /**
+   * Block every address of a wash trading cluster
+   */
+  blockCluster(cluster: AddressCluster): void {
+    const evidence = Array.from(new Set(cluster.evidence.map(e => e.type))).join(', ');
+    const reason = `Wash trading cluster in ${cluster.marketId} (${evidence || 'no evidence'}, score ${cluster.score.toFixed(2)})`;
+    for (const address of cluster.addresses) {
+      this.blockAddress(address, reason);
+    }
+  }
+
   /**
    * Unblock an address
    */
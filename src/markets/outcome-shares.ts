@@ -0,0 +1,177 @@
+/**
+ * Outcome Shares
+ *
+ * Prediction market primitives:
+ * - Outcome shares priced as probabilities in [0, 1]
+ * - Binary (YES/NO) and categorical (multi-outcome) markets
+ * - Fixed-point price scale (PRICE_SCALE represents 1.0)
+ * - Settlement of shares when a market resolves
+ */
+
+export type OutcomeId = string;
+
+export type BinaryOutcome = 'YES' | 'NO';
+
+export interface OutcomeQuote {
+  outcome: OutcomeId;
+  price: bigint;
+  liquidity: bigint;
+}
+
+/**
+ * Market prices as carried on MarketData: binary markets quote YES only,
+ * categorical markets list every outcome
+ */
+export interface QuotedMarket {
+  currentPrice: bigint;
+  liquidity: bigint;
+  outcomes?: OutcomeQuote[];
+}
+
+export interface MarketResolution {
+  marketId: string;
+  outcome: OutcomeId; // Winning outcome
+  timestamp: number;
+}
+
+export interface Settlement {
+  marketId: string;
+  outcome: OutcomeId; // Outcome of the settled shares
+  shares: bigint;
+  payout: bigint;
+  costBasis: bigint;
+  realizedPnl: bigint;
+}
+
+/**
+ * Fixed-point price of 1.0 - what a winning share pays out
+ */
+export const PRICE_SCALE = BigInt('1000000000000000000');
+
+/**
+ * Check a share price lies within [0, 1]
+ */
+export function isValidSharePrice(price: bigint): boolean {
+  return price >= 0n && price <= PRICE_SCALE;
+}
+
+/**
+ * Price of an outcome's shares given the market's YES price
+ */
+export function outcomePrice(yesPrice: bigint, outcome: BinaryOutcome): bigint {
+  if (!isValidSharePrice(yesPrice)) {
+    throw new Error(`Share price out of range: ${yesPrice}`);
+  }
+  return outcome === 'YES' ? yesPrice : PRICE_SCALE - yesPrice;
+}
+
+/**
+ * Quotes for every outcome of a market
+ */
+export function marketOutcomes(market: QuotedMarket): OutcomeQuote[] {
+  if (market.outcomes) {
+    return market.outcomes;
+  }
+
+  return [
+    { outcome: 'YES', price: market.currentPrice, liquidity: market.liquidity },
+    { outcome: 'NO', price: PRICE_SCALE - market.currentPrice, liquidity: market.liquidity }
+  ];
+}
+
+/**
+ * Quote for one outcome, if the market lists it
+ */
+export function findOutcomeQuote(market: QuotedMarket, outcome: OutcomeId): OutcomeQuote | undefined {
+  return marketOutcomes(market).find(q => q.outcome === outcome);
+}
+
+/**
+ * Quote for one outcome
+ */
+export function outcomeQuote(market: QuotedMarket, outcome: OutcomeId): OutcomeQuote {
+  const quote = findOutcomeQuote(market, outcome);
+  if (!quote) {
+    throw new Error(`Unknown outcome: ${outcome}`);
+  }
+  return quote;
+}
+
+/**
+ * Check every quoted price lies within [0, 1] and outcomes are distinct
+ */
+export function hasValidQuotes(market: QuotedMarket): boolean {
+  if (!isValidSharePrice(market.currentPrice)) {
+    return false;
+  }
+  if (!market.outcomes) {
+    return true;
+  }
+
+  const ids = new Set(market.outcomes.map(q => q.outcome));
+  return market.outcomes.length >= 2 &&
+    ids.size === market.outcomes.length &&
+    market.outcomes.every(q => isValidSharePrice(q.price) && q.liquidity >= 0n);
+}
+
+/**
+ * Check a predicted distribution is non-negative and sums to 1
+ */
+export function isValidDistribution(distribution: Record<OutcomeId, number>): boolean {
+  const probabilities = Object.values(distribution);
+  const total = probabilities.reduce((a, b) => a + b, 0);
+  return probabilities.length > 0 && probabilities.every(p => p >= 0) && Math.abs(total - 1.0) <= 0.01;
+}
+
+/**
+ * The other side of a binary market
+ */
+export function oppositeOutcome(outcome: BinaryOutcome): BinaryOutcome {
+  return outcome === 'YES' ? 'NO' : 'YES';
+}
+
+/**
+ * Cash value of shares at a price
+ */
+export function shareValue(shares: bigint, price: bigint): bigint {
+  return (shares * price) / PRICE_SCALE;
+}
+
+/**
+ * Number of shares a cash amount buys at a price
+ */
+export function sharesForNotional(notional: bigint, price: bigint): bigint {
+  if (price <= 0n) {
+    throw new Error('Share price must be positive');
+  }
+  return (notional * PRICE_SCALE) / price;
+}
+
+/**
+ * Per-share payout once a market resolves
+ */
+export function settlementPrice(held: OutcomeId, resolved: OutcomeId): bigint {
+  return held === resolved ? PRICE_SCALE : 0n;
+}
+
+/**
+ * Settle a holding of shares against a resolution
+ */
+export function settleShares(
+  resolution: MarketResolution,
+  outcome: OutcomeId,
+  shares: bigint,
+  entryPrice: bigint
+): Settlement {
+  const payout = shareValue(shares, settlementPrice(outcome, resolution.outcome));
+  const costBasis = shareValue(shares, entryPrice);
+
+  return {
+    marketId: resolution.marketId,
+    outcome,
+    shares,
+    payout,
+    costBasis,
+    realizedPnl: payout - costBasis
+  };
+}
\ No newline at end of file
@@ -2,18 +2,38 @@
  * Risk Management Module
  * 
  * Core risk management functionality including:
- * - Position sizing (Kelly criterion, fractional Kelly)
+ * - Position sizing (Kelly criterion, fractional Kelly, market-price Kelly, multi-outcome Kelly)
  * - Stop losses and take profits
  * - Portfolio balancing
  * - Drawdown protection
  */
 
+import { Clock, systemClock } from '../utils/clock';
+import { OutcomeId, PRICE_SCALE, outcomePrice, shareValue } from '../markets/outcome-shares';
+
 export interface PositionSizingParams {
   bankroll: bigint;
   winProbability: number;
   winLossRatio: number;
   kellyFraction?: number;
   maxPositionPercent?: number;
+  outcomes?: OutcomeOdds[]; // Mutually exclusive outcomes - sizes with multi-outcome Kelly
+  outcome?: OutcomeId; // Outcome to size when outcomes are given
+}
+
+export interface MarketKellyParams {
+  bankroll: bigint;
+  probability: number; // Estimated probability the outcome wins
+  price: bigint; // Share price in PRICE_SCALE units
+  feeBps?: number; // Fee charged on the stake
+  kellyFraction?: number;
+  maxPositionPercent?: number;
+}
+
+export interface OutcomeOdds {
+  outcome: OutcomeId;
+  probability: number; // Estimated probability the outcome wins
+  price: number; // Cost of a share paying out 1.0
 }
 
 export interface StopLossParams {
@@ -21,6 +41,14 @@ export interface StopLossParams {
   stopLossPercent: number;
   takeProfitPercent?: number;
   trailingStopPercent?: number;
+  outcome?: OutcomeId; // Set for outcome-share positions
+}
+
+export interface StopLossState {
+  params: StopLossParams;
+  highestPrice: bigint;
+  lowestPrice: bigint;
+  isActive: boolean;
 }
 
 export interface PortfolioPosition {
@@ -29,6 +57,7 @@ export interface PortfolioPosition {
   entryPrice: bigint;
   currentPrice: bigint;
   timestamp: number;
+  outcome?: OutcomeId; // Outcome shares held; prices are then in PRICE_SCALE units
 }
 
 export interface PortfolioState {
@@ -61,6 +90,13 @@ export interface DrawdownState {
  * where b = win/loss ratio, p = win probability, q = loss probability
  */
 export function calculateKellyCriterion(params: PositionSizingParams): bigint {
+  if (params.outcomes) {
+    if (params.outcome === undefined) {
+      throw new Error('Outcome to size is required for multi-outcome Kelly');
+    }
+    return calculateMultiOutcomeKelly(params).get(params.outcome) || 0n;
+  }
+
   const { bankroll, winProbability, winLossRatio, kellyFraction = 0.25, maxPositionPercent = 0.1 } = params;
   
   // Validate inputs
@@ -85,6 +121,87 @@ export function calculateKellyCriterion(params: PositionSizingParams): bigint {
   return (bankroll * BigInt(Math.floor(finalFraction * 10000))) / 10000n;
 }
 
+/**
+ * Calculate fractional Kelly stake for buying outcome shares
+ * A share bought at cost c (price plus fees) pays 1.0, so the odds are
+ * b = (1 - c) / c and the full Kelly fraction reduces to (p - c) / (1 - c)
+ */
+export function calculateMarketKelly(params: MarketKellyParams): bigint {
+  const { bankroll, probability, price, feeBps = 0, kellyFraction = 0.25, maxPositionPercent = 0.1 } = params;
+
+  if (feeBps < 0) {
+    throw new Error('Fee must be non-negative');
+  }
+
+  const cost = effectiveSharePrice(price, feeBps);
+  if (cost <= 0 || cost >= 1 || probability <= cost) {
+    return 0n; // No edge once fees are paid
+  }
+
+  return calculateKellyCriterion({
+    bankroll,
+    winProbability: probability,
+    winLossRatio: (1 - cost) / cost,
+    kellyFraction,
+    maxPositionPercent
+  });
+}
+
+/**
+ * Cost of a share as a fraction of its payout, including fees
+ */
+export function effectiveSharePrice(price: bigint, feeBps: number = 0): number {
+  return (Number(price) / Number(PRICE_SCALE)) * (1 + feeBps / 10000);
+}
+
+/**
+ * Calculate multi-outcome Kelly stakes for mutually exclusive outcomes
+ * Backs outcomes in order of expected return p / price while it beats the
+ * reserve rate R = (1 - sum p) / (1 - sum price); each stake is p - price * R
+ */
+export function calculateMultiOutcomeKelly(params: PositionSizingParams): Map<OutcomeId, bigint> {
+  const { bankroll, outcomes = [], kellyFraction = 0.25, maxPositionPercent = 0.1 } = params;
+
+  // Validate inputs
+  for (const odds of outcomes) {
+    if (odds.probability < 0 || odds.probability > 1) {
+      throw new Error('Outcome probabilities must be between 0 and 1');
+    }
+    if (odds.price <= 0 || odds.price >= 1) {
+      throw new Error('Outcome prices must be between 0 and 1');
+    }
+  }
+  if (outcomes.reduce((total, o) => total + o.probability, 0) > 1.01) {
+    throw new Error('Outcome probabilities must not sum above 1.0');
+  }
+
+  const ranked = [...outcomes].sort((a, b) => b.probability / b.price - a.probability / a.price);
+  const backed: OutcomeOdds[] = [];
+  let probabilitySum = 0;
+  let priceSum = 0;
+  let reserveRate = 1;
+
+  for (const odds of ranked) {
+    if (odds.probability / odds.price <= reserveRate || priceSum + odds.price >= 1) {
+      break;
+    }
+    backed.push(odds);
+    probabilitySum += odds.probability;
+    priceSum += odds.price;
+    reserveRate = (1 - probabilitySum) / (1 - priceSum);
+  }
+
+  const stakes = new Map<OutcomeId, bigint>();
+  for (const odds of backed) {
+    // Apply fractional Kelly and cap each stake
+    const fullKelly = Math.max(0, odds.probability - odds.price * reserveRate);
+    const finalFraction = Math.min(fullKelly * kellyFraction, maxPositionPercent);
+    stakes.set(odds.outcome, (bankroll * BigInt(Math.floor(finalFraction * 10000))) / 10000n);
+  }
+
+  return stakes;
+}
+
 /**
  * Calculate fixed fractional position size
  * Simple percent of bankroll per trade
@@ -165,20 +282,40 @@ export class StopLossManager {
     return { shouldExit: false };
   }
 
+  /**
+   * Check exits from the market's YES price, valuing the held outcome's shares
+   */
+  updateMarketPrice(yesPrice: bigint): { shouldExit: boolean; reason?: string } {
+    const outcome = this.params.outcome;
+    if (!outcome) {
+      return this.updatePrice(yesPrice);
+    }
+    if (outcome !== 'YES' && outcome !== 'NO') {
+      throw new Error(`Not a binary outcome: ${outcome}`);
+    }
+    return this.updatePrice(outcomePrice(yesPrice, outcome));
+  }
+
   private calculateStopLossPrice(): bigint {
-    const drop = (this.params.entryPrice * BigInt(Math.floor(this.params.stopLossPercent * 100))) / 10000n;
+    const drop = (this.params.entryPrice * BigInt(Math.floor(this.params.stopLossPercent * 10000))) / 10000n;
     return this.params.entryPrice - drop;
   }
 
   private calculateTakeProfitPrice(): bigint {
     if (!this.params.takeProfitPercent) return 0n;
-    const gain = (this.params.entryPrice * BigInt(Math.floor(this.params.takeProfitPercent * 100))) / 10000n;
-    return this.params.entryPrice + gain;
+    const gain = (this.params.entryPrice * BigInt(Math.floor(this.params.takeProfitPercent * 10000))) / 10000n;
+    const target = this.params.entryPrice + gain;
+
+    // Outcome shares never trade above 1.0
+    if (this.params.outcome && target > PRICE_SCALE) {
+      return PRICE_SCALE;
+    }
+    return target;
   }
 
   private calculateTrailingStopPrice(): bigint {
     if (!this.params.trailingStopPercent) return 0n;
-    const drop = (this.highestPrice * BigInt(Math.floor(this.params.trailingStopPercent * 100))) / 10000n;
+    const drop = (this.highestPrice * BigInt(Math.floor(this.params.trailingStopPercent * 10000))) / 10000n;
     return this.highestPrice - drop;
   }
 
@@ -189,6 +326,35 @@ export class StopLossManager {
   isPositionActive(): boolean {
     return this.isActive;
   }
+
+  getState(): StopLossState {
+    return {
+      params: { ...this.params },
+      highestPrice: this.highestPrice,
+      lowestPrice: this.lowestPrice,
+      isActive: this.isActive
+    };
+  }
+
+  /**
+   * Rebuild a manager with its trailing extremes, e.g. from a snapshot
+   */
+  static fromState(state: StopLossState): StopLossManager {
+    const manager = new StopLossManager({ ...state.params });
+    manager.highestPrice = state.highestPrice;
+    manager.lowestPrice = state.lowestPrice;
+    manager.isActive = state.isActive;
+    return manager;
+  }
+}
+
+/**
+ * Value of a position - outcome shares are priced as probabilities
+ */
+export function positionValue(position: PortfolioPosition): bigint {
+  return position.outcome
+    ? shareValue(position.position, position.currentPrice)
+    : position.position * position.currentPrice;
 }
 
 /**
@@ -209,9 +375,9 @@ export class PortfolioBalancer {
     this.rebalanceThreshold = rebalanceThreshold;
     this.maxSlippagePercent = maxSlippagePercent;
 
-    // Validate allocations sum to ~1
+    // Validate allocations sum to ~1 (an empty map means no targets yet)
     const total = Array.from(targetAllocations.values()).reduce((a, b) => a + b, 0);
-    if (Math.abs(total - 1.0) > 0.01) {
+    if (targetAllocations.size > 0 && Math.abs(total - 1.0) > 0.01) {
       throw new Error('Target allocations must sum to 1.0');
     }
   }
@@ -220,17 +386,22 @@ export class PortfolioBalancer {
     marketId: string;
     action: 'BUY' | 'SELL';
     amount: bigint;
+    outcome?: OutcomeId;
   }> {
-    const trades: Array<{ marketId: string; action: 'BUY' | 'SELL'; amount: bigint }> = [];
+    const trades: Array<{ marketId: string; action: 'BUY' | 'SELL'; amount: bigint; outcome?: OutcomeId }> = [];
     const totalValue = state.totalValue;
 
     // Calculate current allocations
     const currentAllocations = new Map<string, bigint>();
+    const heldOutcomes = new Map<string, OutcomeId>();
     let allocatedValue = 0n;
 
     for (const pos of state.positions) {
-      const value = pos.position * pos.currentPrice;
-      currentAllocations.set(pos.marketId, value);
+      const value = positionValue(pos);
+      currentAllocations.set(pos.marketId, (currentAllocations.get(pos.marketId) || 0n) + value);
+      if (pos.outcome) {
+        heldOutcomes.set(pos.marketId, pos.outcome);
+      }
       allocatedValue += value;
     }
 
@@ -250,7 +421,8 @@ export class PortfolioBalancer {
           trades.push({
             marketId,
             action: targetValue > currentValue ? 'BUY' : 'SELL',
-            amount: diff
+            amount: diff,
+            outcome: heldOutcomes.get(marketId)
           });
         }
       }
@@ -269,7 +441,7 @@ export class PortfolioBalancer {
     
     let maxPosition = 0n;
     for (const pos of state.positions) {
-      const value = pos.position * pos.currentPrice;
+      const value = positionValue(pos);
       if (value > maxPosition) {
         maxPosition = value;
       }
@@ -286,14 +458,16 @@ export class PortfolioBalancer {
 export class DrawdownProtector {
   private config: DrawdownConfig;
   private state: DrawdownState;
+  private clock: Clock;
 
-  constructor(config: DrawdownConfig, initialValue: bigint) {
+  constructor(config: DrawdownConfig, initialValue: bigint, clock: Clock = systemClock) {
     this.config = config;
+    this.clock = clock;
     this.state = {
       peakValue: initialValue,
       currentValue: initialValue,
       dailyStartValue: initialValue,
-      lastReset: Date.now(),
+      lastReset: clock.now(),
       inCooldown: false,
       cooldownEnd: 0,
       triggeredCount: 0
@@ -307,7 +481,7 @@ export class DrawdownProtector {
     status: 'NORMAL' | 'WARNING' | 'CRITICAL' | 'COOLDOWN';
   } {
     this.state.currentValue = currentValue;
-    const now = Date.now();
+    const now = this.clock.now();
 
     // Update peak
     if (currentValue > this.state.peakValue) {
@@ -385,7 +559,7 @@ export class DrawdownProtector {
 
   private triggerCooldown(): void {
     this.state.inCooldown = true;
-    this.state.cooldownEnd = Date.now() + this.config.cooldownPeriodMs;
+    this.state.cooldownEnd = this.clock.now() + this.config.cooldownPeriodMs;
     this.state.triggeredCount++;
   }
 
@@ -393,6 +567,17 @@ export class DrawdownProtector {
     return { ...this.state };
   }
 
+  /**
+   * Replace the current state, e.g. with one rebuilt after a restart
+   */
+  restoreState(state: DrawdownState): void {
+    this.state = { ...state };
+  }
+
+  getConfig(): DrawdownConfig {
+    return { ...this.config };
+  }
+
   resetPeak(): void {
     this.state.peakValue = this.state.currentValue;
   }
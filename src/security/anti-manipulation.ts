@@ -3,11 +3,13 @@
  * 
  * Security features:
  * - Whale detection (unusual order patterns)
- * - Wash trading alerts
+ * - Wash trading alerts and wash volume estimates
  * - Oracle monitoring
  * - Sandwich protection
  */
 
+import { Clock, systemClock } from '../utils/clock';
+
 export interface Order {
   id: string;
   marketId: string;
@@ -49,6 +51,70 @@ export interface WashTradingAlert {
   volume: bigint;
   confidence: number;
   timestamp: number;
+  cycle?: TradeCycle; // Multi-hop ring behind a CIRCULAR_TRADING alert
+  cluster?: AddressCluster; // Linked addresses trading among themselves behind a CIRCULAR_TRADING alert
+}
+
+export interface TradeCycle {
+  path: string[]; // Each address sold to the next, and the last sold back to the first
+  trades: number;
+  volume: bigint;
+  volumeReturned: bigint; // Volume that flowed back into the first address
+  netPositionChange: bigint; // Sum of the participants' absolute net position changes
+  score: number; // 1 for a perfect ring: everything sent out returned and no one's position changed
+}
+
+/**
+ * Token transfer between addresses, as a funding source for the recipient
+ */
+export interface FundingTransfer {
+  from: string;
+  to: string;
+  amount: bigint;
+  timestamp: number;
+}
+
+export interface ClusterEvidence {
+  type: 'SHARED_FUNDING' | 'SYNCHRONIZED_TIMING' | 'MATCHED_SIZES';
+  addresses: string[];
+  source?: string; // SHARED_FUNDING: the address that funded them
+  matches?: number; // SYNCHRONIZED_TIMING and MATCHED_SIZES: trades that lined up
+}
+
+/**
+ * Addresses behaving as one entity in a market, with wash metrics for the whole group
+ */
+export interface AddressCluster {
+  marketId: string;
+  addresses: string[];
+  evidence: ClusterEvidence[];
+  trades: number; // Trades with a member on either side
+  internalTrades: number; // Trades with members on both sides
+  volume: bigint;
+  internalVolume: bigint;
+  netExposure: bigint; // Absolute position change of the cluster as a whole
+  score: number; // 1 when members only trade among themselves and the cluster's exposure is unchanged
+}
+
+/**
+ * Share of a market's traded volume flagged as wash trading within a window
+ */
+export interface WashVolumeEstimate {
+  marketId: string;
+  windowMs: number;
+  totalVolume: bigint;
+  washVolume: bigint;
+  washFraction: number; // 0 when nothing traded
+}
+
+/**
+ * A trade's volume as kept for wash volume estimates
+ */
+export interface VolumeRecord {
+  tradeId: string;
+  timestamp: number;
+  amount: bigint;
+  wash: boolean;
 }
 
 export interface OracleStatus {
@@ -71,6 +137,31 @@ export interface SandwichAlert {
   blockNumber: number;
 }
 
+/**
+ * Detector histories, as captured in agent snapshots
+ */
+export interface WhaleDetectorState {
+  orderHistory: Map<string, Order[]>;
+  volume24h: Map<string, bigint>;
+}
+
+export interface WashTradingState {
+  tradeHistory: Map<string, Trade[]>;
+  addressPairs: Map<string, number>;
+  fundingSources?: Map<string, string[]>; // Funders of each address, without transfer times; from older snapshots
+  fundingLinks?: Map<string, Map<string, number>>; // Funders of each address and their latest transfer; absent from older snapshots
+  volumeLedger?: Map<string, VolumeRecord[]>; // Absent from older snapshots
+}
+
+export interface OracleMonitorState {
+  sourceStates: Map<string, OracleStatus>;
+}
+
+export interface SandwichProtectorState {
+  pendingTxs: Map<string, Order>;
+  blockHistory: Map<number, Trade[]>;
+}
+
 /**
  * Whale Detection System
  * Identifies unusual order patterns and large position changes
@@ -81,13 +172,16 @@ export class WhaleDetector {
   private historyWindowMs: number;
   private orderHistory: Map<string, Order[]>;
   private volume24h: Map<string, bigint>;
+  private clock: Clock;
 
   constructor(
     volumeThreshold: bigint,
     priceImpactThreshold: number = 0.02,
-    historyWindowMs: number = 86400000
+    historyWindowMs: number = 86400000,
+    clock: Clock = systemClock
   ) {
     this.volumeThreshold = volumeThreshold;
+    this.clock = clock;
     this.priceImpactThreshold = priceImpactThreshold;
     this.historyWindowMs = historyWindowMs;
     this.orderHistory = new Map();
@@ -107,7 +201,7 @@ export class WhaleDetector {
         amount: order.amount,
         impact: this.calculatePriceImpact(order.amount, currentLiquidity),
         message: `Large order detected: ${order.amount.toString()} units`,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       });
     }
 
@@ -122,7 +216,7 @@ export class WhaleDetector {
         amount: order.amount,
         impact,
         message: `High price impact detected: ${(impact * 100).toFixed(2)}%`,
-        timestamp: Date.now()
+        timestamp: this.clock.now()
       });
     }
 
@@ -139,7 +233,7 @@ export class WhaleDetector {
           amount: order.amount,
           impact: relativeSize,
           message: `Order represents ${(relativeSize * 100).toFixed(1)}% of 24h volume`,
-          timestamp: Date.now()
+          timestamp: this.clock.now()
         });
       }
     }
@@ -166,7 +260,7 @@ export class WhaleDetector {
           amount: trade.amount,
           impact: 0,
           message: 'Large trade in thin market',
-          timestamp: Date.now()
+          timestamp: this.clock.now()
         };
       }
     }
@@ -185,7 +279,7 @@ export class WhaleDetector {
     marketOrders.push(order);
     
     // Clean old orders
-    const cutoff = Date.now() - this.historyWindowMs;
+    const cutoff = this.clock.now() - this.historyWindowMs;
     const filtered = marketOrders.filter(o => o.timestamp > cutoff);
     
     this.orderHistory.set(order.marketId, filtered);
@@ -194,6 +288,15 @@ export class WhaleDetector {
   updateVolume(marketId: string, volume: bigint): void {
     this.volume24h.set(marketId, volume);
   }
+
+  getState(): WhaleDetectorState {
+    return { orderHistory: copyHistory(this.orderHistory), volume24h: new Map(this.volume24h) };
+  }
+
+  restoreState(state: WhaleDetectorState): void {
+    this.orderHistory = copyHistory(state.orderHistory);
+    this.volume24h = new Map(state.volume24h);
+  }
 }
 
 /**
@@ -203,24 +306,104 @@ export class WhaleDetector {
 export class WashTradingDetector {
   private minTradeCount: number;
   private timeWindowMs: number;
+  private maxCycleLength: number;
+  private minCycleScore: number;
   private tradeHistory: Map<string, Trade[]>;
-  private addressPairs: Map<string, number>;
+  private addressPairs: Map<string, number>; // Trades per address pair within the window, keyed by market
+  private pairTotals: Map<string, number>; // Trades per address pair within the window, across markets
+  private tradeGraphs: Map<string, TradeGraph>;
+  private syncWindowMs: number;
+  private minFingerprintMatches: number;
+  private fingerprints: Map<string, FingerprintLinks>; // Trades lining up between addresses, by market
+  private traderCounts: Map<string, number>; // Trades per address within the window, keyed by market
+  private fundingWindowMs: number;
+  private fundingSources: Map<string, Map<string, number>>; // Address to the addresses that funded it, with the latest transfer time
+  private fundedAddresses: Map<string, Set<string>>; // Funder to the addresses it funded
+  private volumeWindowMs: number;
+  private volumeLedger: Map<string, VolumeRecord[]>; // Trades per market within the volume window
+  private clock: Clock;
 
-  constructor(minTradeCount: number = 3, timeWindowMs: number = 3600000) {
+  constructor(
+    minTradeCount: number = 3,
+    timeWindowMs: number = 3600000,
+    clock: Clock = systemClock,
+    maxCycleLength: number = 4,
+    minCycleScore: number = 0.5,
+    syncWindowMs: number = 2000,
+    minFingerprintMatches: number = 2,
+    volumeWindowMs: number = 86400000,
+    fundingWindowMs: number = 604800000 // 7 days
+  ) {
+    if (maxCycleLength < 2) {
+      throw new Error(`Cycle length must be at least 2: ${maxCycleLength}`);
+    }
+    if (minFingerprintMatches < 1) {
+      throw new Error(`Fingerprint matches must be at least 1: ${minFingerprintMatches}`);
+    }
     this.minTradeCount = minTradeCount;
+    this.clock = clock;
     this.timeWindowMs = timeWindowMs;
+    this.maxCycleLength = maxCycleLength;
+    this.minCycleScore = minCycleScore;
+    this.syncWindowMs = syncWindowMs;
+    this.minFingerprintMatches = minFingerprintMatches;
     this.tradeHistory = new Map();
     this.addressPairs = new Map();
+    this.pairTotals = new Map();
+    this.tradeGraphs = new Map();
+    this.fingerprints = new Map();
+    this.traderCounts = new Map();
+    this.fundingWindowMs = fundingWindowMs;
+    this.fundingSources = new Map();
+    this.fundedAddresses = new Map();
+    this.volumeWindowMs = volumeWindowMs;
+    this.volumeLedger = new Map();
+  }
+
+  /**
+   * Record transfers that fund trading addresses; addresses sharing a funder,
+   * or funded by another trader, are linked into one cluster until the funding window
+   * passes without another transfer between them
+   */
+  recordTransfers(transfers: FundingTransfer[]): void {
+    const cutoff = this.clock.now() - this.fundingWindowMs;
+
+    for (const transfer of transfers) {
+      const from = transfer.from.toLowerCase();
+      const to = transfer.to.toLowerCase();
+      if (from === to || transfer.timestamp <= cutoff) continue;
+
+      this.addFunding(to, from, transfer.timestamp);
+    }
+    this.pruneFunding(cutoff);
   }
 
   analyzeTrades(trades: Trade[]): WashTradingAlert | null {
-    const now = Date.now();
+    const now = this.clock.now();
     const cutoff = now - this.timeWindowMs;
+    let alert: WashTradingAlert | null = null;
 
+    for (const marketId of this.tradeHistory.keys()) {
+      this.pruneExpired(marketId, cutoff);
+    }
+    for (const [marketId, records] of this.volumeLedger) {
+      const expired = records.findIndex(r => r.timestamp > now - this.volumeWindowMs);
+      records.splice(0, expired < 0 ? records.length : expired);
+      if (records.length === 0) this.volumeLedger.delete(marketId);
+    }
+    this.pruneFunding(now - this.fundingWindowMs);
+
+    // Every trade is recorded and checked, even after the batch has raised an alert,
+    // so the wash volume estimate covers all of it
     for (const trade of trades) {
+      const selfTrade = trade.buyer.toLowerCase() === trade.seller.toLowerCase();
+      const records = this.volumeLedger.get(trade.marketId) || [];
+      records.push({ tradeId: trade.id, timestamp: trade.timestamp, amount: trade.amount, wash: selfTrade });
+      this.volumeLedger.set(trade.marketId, records);
+
       // Check self-trading
-      if (trade.buyer.toLowerCase() === trade.seller.toLowerCase()) {
-        return {
+      if (selfTrade) {
+        alert = alert || {
           type: 'SELF_TRADING',
           severity: 'CRITICAL',
           addresses: [trade.buyer],
@@ -229,94 +412,309 @@ export class WashTradingDetector {
           confidence: 1.0,
           timestamp: now
         };
+        continue;
       }
 
       // Store and analyze patterns
       this.storeTrade(trade);
-      
-      const pattern = this.detectCircularTrading(trade.marketId, cutoff);
-      if (pattern) {
-        return pattern;
+
+      const found = this.detectCircularTrading(trade) || this.detectClusterTrading(trade);
+      if (found) {
+        this.markWashVolume(found);
+        alert = alert || found;
+      }
+    }
+
+    // Check for volume inflation among the pairs that just traded
+    const inflation = this.detectVolumeInflation(trades.map(t => pairKey(t.buyer, t.seller)));
+    if (inflation) {
+      this.markWashVolume(inflation);
+    }
+    return alert || inflation;
+  }
+
+  /**
+   * Flag the volume of trades among an alert's addresses within the window as wash trading
+   */
+  private markWashVolume(alert: WashTradingAlert): void {
+    const members = new Set(alert.addresses.map(a => a.toLowerCase()));
+    const markets = alert.marketId === 'multiple' ? Array.from(this.tradeHistory.keys()) : [alert.marketId];
+    const cutoff = this.clock.now() - this.timeWindowMs;
+
+    for (const marketId of markets) {
+      const washIds = new Set(
+        (this.tradeHistory.get(marketId) || [])
+          .filter(t => members.has(t.buyer.toLowerCase()) && members.has(t.seller.toLowerCase()))
+          .map(t => t.id)
+      );
+      const records = this.volumeLedger.get(marketId) || [];
+      for (let i = records.length - 1; i >= 0 && records[i]!.timestamp > cutoff; i--) {
+        if (washIds.has(records[i]!.tradeId)) records[i]!.wash = true;
       }
     }
+  }
+
+  /**
+   * Volume seen in a market over a rolling window, and how much of it was flagged as wash trading
+   */
+  getWashVolume(marketId: string, windowMs: number = this.volumeWindowMs): WashVolumeEstimate {
+    if (windowMs > this.volumeWindowMs) {
+      throw new Error(`Window exceeds the tracked volume window: ${windowMs} > ${this.volumeWindowMs}`);
+    }
 
-    // Check for volume inflation
-    const inflationAlert = this.detectVolumeInflation(cutoff);
-    if (inflationAlert) {
-      return inflationAlert;
+    const cutoff = this.clock.now() - windowMs;
+    let totalVolume = 0n;
+    let washVolume = 0n;
+    for (const record of this.volumeLedger.get(marketId) || []) {
+      if (record.timestamp <= cutoff) continue;
+      totalVolume += record.amount;
+      if (record.wash) washVolume += record.amount;
+    }
+
+    return {
+      marketId,
+      windowMs,
+      totalVolume,
+      washVolume,
+      washFraction: totalVolume > 0n ? Number(washVolume) / Number(totalVolume) : 0
+    };
+  }
+
+  /**
+   * A market's reported volume (e.g. MarketData.volume24h) less the share
+   * flagged as wash trading over the volume window
+   */
+  organicVolume(marketId: string, reportedVolume: bigint): bigint {
+    const estimate = this.getWashVolume(marketId);
+    if (estimate.totalVolume === 0n) {
+      return reportedVolume;
+    }
+    return reportedVolume - (reportedVolume * estimate.washVolume) / estimate.totalVolume;
+  }
+
+  /**
+   * Look for cycles closed by a new trade, then for pairs trading back and forth.
+   * Only paths through the new trade's edge are searched, so each trade costs
+   * the size of its neighbourhood rather than a rescan of the window.
+   */
+  private detectCircularTrading(trade: Trade): WashTradingAlert | null {
+    const graph = this.tradeGraphs.get(trade.marketId);
+    if (!graph) {
+      return null;
+    }
+
+    const origin = trade.seller.toLowerCase();
+    const cycles: TradeCycle[] = [];
+    const budget = { steps: MAX_CYCLE_SEARCH_STEPS };
+    this.findCycles(graph, [origin, trade.buyer.toLowerCase()], cycles, budget);
+
+    const qualifying = cycles.filter(c => c.trades >= this.minTradeCount && c.score >= this.minCycleScore);
+    if (qualifying.length > 0) {
+      const best = qualifying.reduce((a, b) => (b.score > a.score ? b : a));
+      return {
+        type: 'CIRCULAR_TRADING',
+        severity: 'HIGH',
+        addresses: best.path,
+        marketId: trade.marketId,
+        volume: best.volume,
+        confidence: best.score,
+        timestamp: this.clock.now(),
+        cycle: best
+      };
+    }
+
+    // Pairs trading repeatedly, in either direction
+    const pair = pairKey(trade.buyer, trade.seller);
+    const count = this.addressPairs.get(`${trade.marketId}:${pair}`) || 0;
+    if (count >= this.minTradeCount) {
+      const [addr1, addr2] = pair.split('-') as [string, string];
+      return {
+        type: 'CIRCULAR_TRADING',
+        severity: 'HIGH',
+        addresses: [addr1, addr2],
+        marketId: trade.marketId,
+        volume: (graph.get(addr1)?.get(addr2)?.volume || 0n) + (graph.get(addr2)?.get(addr1)?.volume || 0n),
+        confidence: Math.min(count / 10, 1.0),
+        timestamp: this.clock.now()
+      };
     }
 
     return null;
   }
 
-  private detectCircularTrading(marketId: string, cutoff: number): WashTradingAlert | null {
-    const trades = this.tradeHistory.get(marketId) || [];
-    const recentTrades = trades.filter(t => t.timestamp > cutoff);
+  /**
+   * Depth-limited search for paths leading back to the first address
+   */
+  private findCycles(graph: TradeGraph, path: string[], cycles: TradeCycle[], budget: { steps: number }): void {
+    const origin = path[0]!;
+    const current = path[path.length - 1]!;
 
-    // Build trading graph
-    const graph = new Map<string, Set<string>>();
-    const volumeBetween = new Map<string, bigint>();
+    for (const next of (graph.get(current) || new Map()).keys()) {
+      if (budget.steps-- <= 0) {
+        return;
+      }
+      if (next === origin) {
+        cycles.push(scoreCycle(graph, path));
+      } else if (path.length < this.maxCycleLength && !path.includes(next)) {
+        this.findCycles(graph, [...path, next], cycles, budget);
+      }
+    }
+  }
 
-    for (const trade of recentTrades) {
-      const buyer = trade.buyer.toLowerCase();
-      const seller = trade.seller.toLowerCase();
-      
-      if (!graph.has(buyer)) graph.set(buyer, new Set());
-      if (!graph.has(seller)) graph.set(seller, new Set());
-      
-      graph.get(buyer)!.add(seller);
-      graph.get(seller)!.add(buyer);
+  /**
+   * Wash trading spread across linked addresses: the new trade's counterparties
+   * belong to one cluster, which trades among itself enough and keeps its exposure flat
+   */
+  private detectClusterTrading(trade: Trade): WashTradingAlert | null {
+    const members = this.clusterOf(trade.marketId, trade.buyer.toLowerCase());
+    if (!members.has(trade.seller.toLowerCase())) {
+      return null;
+    }
 
-      const pair = [buyer, seller].sort().join('-');
-      const current = volumeBetween.get(pair) || 0n;
-      volumeBetween.set(pair, current + trade.amount);
+    const cluster = this.describeCluster(trade.marketId, members);
+    if (cluster.internalTrades < this.minTradeCount || cluster.score < this.minCycleScore) {
+      return null;
     }
 
-    // Detect cycles (simplified - just check mutual trading)
-    for (const [addr1, connections] of graph) {
-      for (const addr2 of connections) {
-        const pair = [addr1, addr2].sort().join('-');
-        const volume = volumeBetween.get(pair) || 0n;
-        
-        // Check if they trade back and forth frequently
-        const tradesBetween = recentTrades.filter(
-          t => 
-            (t.buyer.toLowerCase() === addr1 && t.seller.toLowerCase() === addr2) ||
-            (t.buyer.toLowerCase() === addr2 && t.seller.toLowerCase() === addr1)
-        );
-
-        if (tradesBetween.length >= this.minTradeCount) {
-          return {
-            type: 'CIRCULAR_TRADING',
-            severity: 'HIGH',
-            addresses: [addr1, addr2],
-            marketId,
-            volume,
-            confidence: Math.min(tradesBetween.length / 10, 1.0),
-            timestamp: Date.now()
-          };
+    return {
+      type: 'CIRCULAR_TRADING',
+      severity: 'HIGH',
+      addresses: cluster.addresses,
+      marketId: trade.marketId,
+      volume: cluster.internalVolume,
+      confidence: cluster.score,
+      timestamp: this.clock.now(),
+      cluster
+    };
+  }
+
+  /**
+   * Clusters of two or more linked addresses among a market's traders within
+   * the window, or every market's when none is given, with their evidence
+   */
+  getClusters(marketId?: string): AddressCluster[] {
+    const markets = marketId !== undefined ? [marketId] : Array.from(this.tradeHistory.keys());
+    const clusters: AddressCluster[] = [];
+
+    for (const market of markets) {
+      const seen = new Set<string>();
+      for (const trade of this.tradeHistory.get(market) || []) {
+        for (const address of [trade.buyer.toLowerCase(), trade.seller.toLowerCase()]) {
+          if (seen.has(address)) continue;
+
+          const members = this.clusterOf(market, address);
+          members.forEach(m => seen.add(m));
+          if (members.size > 1) {
+            clusters.push(this.describeCluster(market, members));
+          }
         }
       }
     }
 
-    return null;
+    return clusters;
   }
 
-  private detectVolumeInflation(cutoff: number): WashTradingAlert | null {
-    // Look for addresses that only trade with each other
-    const pairCounts = new Map<string, number>();
+  /**
+   * Addresses trading in a market that are linked to the given one, directly or through others
+   */
+  private clusterOf(marketId: string, address: string): Set<string> {
+    const members = new Set([address]);
+    const queue = [address];
+    const links = this.fingerprints.get(marketId);
 
-    for (const [marketId, trades] of this.tradeHistory) {
-      const recentTrades = trades.filter(t => t.timestamp > cutoff);
-      
-      for (const trade of recentTrades) {
-        const pair = [trade.buyer, trade.seller].sort().join('-');
-        pairCounts.set(pair, (pairCounts.get(pair) || 0) + 1);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const linked: string[] = [];
+
+      for (const [other, counts] of links?.get(current) || []) {
+        if (counts.matched >= this.minFingerprintMatches) linked.push(other);
+      }
+      linked.push(...(this.fundedAddresses.get(current) || []));
+      for (const source of this.fundingSources.get(current)?.keys() || []) {
+        linked.push(source, ...this.fundedAddresses.get(source)!);
+      }
+
+      for (const other of linked) {
+        if (!members.has(other) && this.traderCounts.has(`${marketId}:${other}`)) {
+          members.add(other);
+          queue.push(other);
+        }
+      }
+    }
+
+    return members;
+  }
+
+  /**
+   * Wash metrics and evidence for a cluster's trades within the window
+   */
+  private describeCluster(marketId: string, members: Set<string>): AddressCluster {
+    let trades = 0;
+    let internalTrades = 0;
+    let volume = 0n;
+    let internalVolume = 0n;
+    let net = 0n;
+
+    for (const trade of this.tradeHistory.get(marketId) || []) {
+      const buyerIn = members.has(trade.buyer.toLowerCase());
+      const sellerIn = members.has(trade.seller.toLowerCase());
+      if (!buyerIn && !sellerIn) continue;
+
+      trades++;
+      volume += trade.amount;
+      if (buyerIn && sellerIn) {
+        internalTrades++;
+        internalVolume += trade.amount;
+      } else {
+        net += buyerIn ? trade.amount : -trade.amount;
       }
     }
 
+    const addresses = Array.from(members).sort();
+    const evidence: ClusterEvidence[] = [];
+
+    // Funders with two or more members among their own address and what they funded
+    const sources = new Set(addresses.flatMap(a => [a, ...(this.fundingSources.get(a)?.keys() || [])]));
+    for (const source of Array.from(sources).sort()) {
+      const funded = [source, ...(this.fundedAddresses.get(source) || [])].filter(a => members.has(a)).sort();
+      if (funded.length > 1) {
+        evidence.push({ type: 'SHARED_FUNDING', addresses: funded, source });
+      }
+    }
+
+    const links = this.fingerprints.get(marketId);
+    addresses.forEach((a, i) => {
+      for (const b of addresses.slice(i + 1)) {
+        const counts = links?.get(a)?.get(b);
+        if (!counts || counts.matched < this.minFingerprintMatches) continue;
+
+        evidence.push({ type: 'SYNCHRONIZED_TIMING', addresses: [a, b], matches: counts.synced });
+        evidence.push({ type: 'MATCHED_SIZES', addresses: [a, b], matches: counts.matched });
+      }
+    });
+
+    const netExposure = net < 0n ? -net : net;
+    const internalRatio = volume > 0n ? Number(internalVolume) / Number(volume) : 0;
+    const netRatio = volume > 0n ? Math.min(1, Number(netExposure) / Number(volume)) : 1;
+
+    return {
+      marketId,
+      addresses,
+      evidence,
+      trades,
+      internalTrades,
+      volume,
+      internalVolume,
+      netExposure,
+      score: internalRatio * (1 - netRatio)
+    };
+  }
+
+  private detectVolumeInflation(pairs: string[]): WashTradingAlert | null {
+    // Look for addresses that only trade with each other
     // Find pairs with suspiciously high trade counts
-    for (const [pair, count] of pairCounts) {
+    for (const pair of pairs) {
+      const count = this.pairTotals.get(pair) || 0;
       if (count >= this.minTradeCount * 2) {
         const addresses = pair.split('-');
         return {
@@ -326,7 +724,7 @@ export class WashTradingDetector {
           marketId: 'multiple',
           volume: 0n,
           confidence: Math.min(count / 50, 1.0),
-          timestamp: Date.now()
+          timestamp: this.clock.now()
         };
       }
     }
@@ -338,6 +736,166 @@ export class WashTradingDetector {
     const marketTrades = this.tradeHistory.get(trade.marketId) || [];
     marketTrades.push(trade);
     this.tradeHistory.set(trade.marketId, marketTrades);
+    this.indexTrade(trade, 1);
+    this.linkFingerprints(marketTrades, marketTrades.length - 1, 1);
+  }
+
+  /**
+   * Link an address to a funder, keeping the latest transfer between them
+   */
+  private addFunding(address: string, source: string, timestamp: number): void {
+    const sources = this.fundingSources.get(address) || new Map<string, number>();
+    sources.set(source, Math.max(sources.get(source) ?? timestamp, timestamp));
+    this.fundingSources.set(address, sources);
+    addLink(this.fundedAddresses, source, address);
+  }
+
+  /**
+   * Drop funding links with no transfer since the cutoff
+   */
+  private pruneFunding(cutoff: number): void {
+    for (const [address, sources] of this.fundingSources) {
+      for (const [source, timestamp] of sources) {
+        if (timestamp > cutoff) continue;
+
+        sources.delete(source);
+        const funded = this.fundedAddresses.get(source)!;
+        funded.delete(address);
+        if (funded.size === 0) this.fundedAddresses.delete(source);
+      }
+      if (sources.size === 0) this.fundingSources.delete(address);
+    }
+  }
+
+  /**
+   * Clean trades outside the analysis window; they arrive in time order, so expired ones lead
+   */
+  private pruneExpired(marketId: string, cutoff: number): void {
+    const marketTrades = this.tradeHistory.get(marketId) || [];
+    let expired = 0;
+    while (expired < marketTrades.length && marketTrades[expired]!.timestamp <= cutoff) {
+      this.indexTrade(marketTrades[expired]!, -1);
+      this.linkFingerprints(marketTrades, expired, -1);
+      expired++;
+    }
+    marketTrades.splice(0, expired);
+  }
+
+  /**
+   * Add a trade to, or remove it from, its market's trade graph and pair counts
+   */
+  private indexTrade(trade: Trade, sign: 1 | -1): void {
+    const seller = trade.seller.toLowerCase();
+    const buyer = trade.buyer.toLowerCase();
+
+    const graph: TradeGraph = this.tradeGraphs.get(trade.marketId) || new Map();
+    const edges = graph.get(seller) || new Map();
+    const edge = edges.get(buyer) || { trades: 0, volume: 0n };
+    edge.trades += sign;
+    edge.volume += sign > 0 ? trade.amount : -trade.amount;
+
+    if (edge.trades > 0) {
+      edges.set(buyer, edge);
+    } else {
+      edges.delete(buyer);
+    }
+    if (edges.size > 0) {
+      graph.set(seller, edges);
+    } else {
+      graph.delete(seller);
+    }
+    this.tradeGraphs.set(trade.marketId, graph);
+
+    const pair = pairKey(buyer, seller);
+    adjustCount(this.addressPairs, `${trade.marketId}:${pair}`, sign);
+    adjustCount(this.pairTotals, pair, sign);
+    adjustCount(this.traderCounts, `${trade.marketId}:${buyer}`, sign);
+    adjustCount(this.traderCounts, `${trade.marketId}:${seller}`, sign);
+  }
+
+  /**
+   * Count, or uncount, the trades lining up in time with a stored trade between their addresses.
+   * A trade is matched against earlier ones when added and against later ones when it expires,
+   * so each pair of trades is counted once.
+   */
+  private linkFingerprints(marketTrades: Trade[], index: number, sign: 1 | -1): void {
+    const trade = marketTrades[index]!;
+    const links: FingerprintLinks = this.fingerprints.get(trade.marketId) || new Map();
+    const step = sign > 0 ? -1 : 1;
+
+    for (let i = index + step; i >= 0 && i < marketTrades.length; i += step) {
+      const other = marketTrades[i]!;
+      if (Math.abs(other.timestamp - trade.timestamp) > this.syncWindowMs) break;
+
+      // A shared address explains the timing on its own, e.g. one taker filling against two makers
+      const addresses = [trade.buyer, trade.seller].map(a => a.toLowerCase());
+      const otherAddresses = [other.buyer, other.seller].map(a => a.toLowerCase());
+      if (addresses.some(a => otherAddresses.includes(a))) continue;
+
+      for (const [a, b] of addresses.flatMap(x => otherAddresses.map(y => [x, y] as const))) {
+        const counts = links.get(a)?.get(b) || { synced: 0, matched: 0 };
+        counts.synced += sign;
+        if (other.amount === trade.amount) counts.matched += sign;
+
+        for (const [from, to] of [[a, b], [b, a]] as const) {
+          const edges = links.get(from) || new Map();
+          if (counts.synced > 0) {
+            edges.set(to, counts);
+          } else {
+            edges.delete(to);
+          }
+          if (edges.size > 0) {
+            links.set(from, edges);
+          } else {
+            links.delete(from);
+          }
+        }
+      }
+    }
+
+    this.fingerprints.set(trade.marketId, links);
+  }
+
+  getState(): WashTradingState {
+    return {
+      tradeHistory: copyHistory(this.tradeHistory),
+      addressPairs: new Map(this.addressPairs),
+      fundingLinks: new Map(Array.from(this.fundingSources, ([address, sources]) => [address, new Map(sources)])),
+      volumeLedger: new Map(Array.from(this.volumeLedger, ([marketId, records]) => [marketId, records.map(r => ({ ...r }))]))
+    };
+  }
+
+  restoreState(state: WashTradingState): void {
+    this.tradeHistory = copyHistory(state.tradeHistory);
+
+    // Pair counts and graphs are derived from the history
+    this.addressPairs = new Map();
+    this.pairTotals = new Map();
+    this.tradeGraphs = new Map();
+    this.fingerprints = new Map();
+    this.traderCounts = new Map();
+    for (const trades of this.tradeHistory.values()) {
+      trades.forEach((trade, i) => {
+        this.indexTrade(trade, 1);
+        this.linkFingerprints(trades, i, 1);
+      });
+    }
+
+    this.volumeLedger = new Map(Array.from(state.volumeLedger || [], ([marketId, records]) => [marketId, records.map(r => ({ ...r }))]));
+
+    // Older snapshots have no transfer times, so their links start a fresh window
+    this.fundingSources = new Map();
+    this.fundedAddresses = new Map();
+    for (const [address, sources] of state.fundingLinks || []) {
+      for (const [source, timestamp] of sources) {
+        this.addFunding(address, source, timestamp);
+      }
+    }
+    for (const [address, sources] of state.fundingLinks ? [] : state.fundingSources || []) {
+      for (const source of sources) {
+        this.addFunding(address, source, this.clock.now());
+      }
+    }
   }
 }
 
@@ -350,20 +908,23 @@ export class OracleMonitor {
   private maxStalenessMs: number;
   private maxDeviationPercent: number;
   private sourceStates: Map<string, OracleStatus>;
+  private clock: Clock;
 
   constructor(
     sources: string[],
     maxStalenessMs: number = 300000,
-    maxDeviationPercent: number = 0.02
+    maxDeviationPercent: number = 0.02,
+    clock: Clock = systemClock
   ) {
     this.sources = sources;
+    this.clock = clock;
     this.maxStalenessMs = maxStalenessMs;
     this.maxDeviationPercent = maxDeviationPercent;
     this.sourceStates = new Map();
   }
 
   updatePrice(source: string, price: bigint, timestamp: number): OracleStatus {
-    const now = Date.now();
+    const now = this.clock.now();
     const stalenessMs = now - timestamp;
 
     // Calculate deviation from other sources
@@ -393,6 +954,17 @@ export class OracleMonitor {
     return status;
   }
 
+  /**
+   * Record a full round of readings so each source's deviation is
+   * measured against the rest of the same round
+   */
+  updatePrices(prices: Record<string, bigint>, timestamp: number): OracleStatus[] {
+    for (const [source, price] of Object.entries(prices)) {
+      this.updatePrice(source, price, timestamp);
+    }
+    return Object.entries(prices).map(([source, price]) => this.updatePrice(source, price, timestamp));
+  }
+
   getConsensusPrice(): { price: bigint | null; confidence: number } {
     const activeSources = Array.from(this.sourceStates.values())
       .filter(s => s.isActive);
@@ -426,8 +998,10 @@ export class OracleMonitor {
         continue;
       }
 
-      if (state.stalenessMs > this.maxStalenessMs) {
-        issues.push(`${source}: Stale data (${(state.stalenessMs / 1000).toFixed(0)}s old)`);
+      // Staleness keeps growing after the last update
+      const stalenessMs = this.clock.now() - state.lastUpdate;
+      if (stalenessMs > this.maxStalenessMs) {
+        issues.push(`${source}: Stale data (${(stalenessMs / 1000).toFixed(0)}s old)`);
       }
 
       if (state.deviation > this.maxDeviationPercent) {
@@ -441,6 +1015,18 @@ export class OracleMonitor {
     };
   }
 
+  getSources(): string[] {
+    return [...this.sources];
+  }
+
+  getState(): OracleMonitorState {
+    return { sourceStates: new Map(Array.from(this.sourceStates, ([source, status]) => [source, { ...status }])) };
+  }
+
+  restoreState(state: OracleMonitorState): void {
+    this.sourceStates = new Map(Array.from(state.sourceStates, ([source, status]) => [source, { ...status }]));
+  }
+
   private calculateConfidence(stalenessMs: number, deviation: number): number {
     const stalenessScore = Math.max(0, 1 - stalenessMs / this.maxStalenessMs);
     const deviationScore = Math.max(0, 1 - deviation / this.maxDeviationPercent);
@@ -457,9 +1043,11 @@ export class SandwichProtector {
   private maxSlippagePercent: number;
   private pendingTxs: Map<string, Order>;
   private blockHistory: Map<number, Trade[]>;
+  private clock: Clock;
 
-  constructor(blockWindow: number = 2, maxSlippagePercent: number = 0.01) {
+  constructor(blockWindow: number = 2, maxSlippagePercent: number = 0.01, clock: Clock = systemClock) {
     this.blockWindow = blockWindow;
+    this.clock = clock;
     this.maxSlippagePercent = maxSlippagePercent;
     this.pendingTxs = new Map();
     this.blockHistory = new Map();
@@ -574,7 +1162,7 @@ export class SandwichProtector {
                   attacker: frontRunner,
                   marketId: trade.marketId,
                   lossAmount: trade.amount / 100n, // Estimate
-                  timestamp: Date.now(),
+                  timestamp: this.clock.now(),
                   blockNumber: currentBlock
                 };
               }
@@ -594,4 +1182,87 @@ export class SandwichProtector {
   removePendingTx(txHash: string): void {
     this.pendingTxs.delete(txHash);
   }
+
+  getState(): SandwichProtectorState {
+    return { pendingTxs: new Map(this.pendingTxs), blockHistory: copyHistory(this.blockHistory) };
+  }
+
+  restoreState(state: SandwichProtectorState): void {
+    this.pendingTxs = new Map(state.pendingTxs);
+    this.blockHistory = copyHistory(state.blockHistory);
+  }
+}
+
+/**
+ * Copy a keyed history so callers cannot mutate detector state
+ */
+function copyHistory<K, V>(history: Map<K, V[]>): Map<K, V[]> {
+  return new Map(Array.from(history, ([key, items]) => [key, [...items]]));
+}
+
+/**
+ * Seller to buyer edges of a market's trades within the window
+ */
+type TradeGraph = Map<string, Map<string, { trades: number; volume: bigint }>>;
+
+/**
+ * Trades lining up in time between two addresses of a market, and how many of those matched in size.
+ * Both directions share one counts object.
+ */
+type FingerprintLinks = Map<string, Map<string, { synced: number; matched: number }>>;
+
+/**
+ * Bound on edges explored per trade when searching for cycles
+ */
+const MAX_CYCLE_SEARCH_STEPS = 10000;
+
+function adjustCount(counts: Map<string, number>, key: string, delta: number): void {
+  const count = (counts.get(key) || 0) + delta;
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+}
+
+function addLink(links: Map<string, Set<string>>, key: string, value: string): void {
+  const values = links.get(key) || new Set();
+  values.add(value);
+  links.set(key, values);
+}
+
+function pairKey(a: string, b: string): string {
+  return [a.toLowerCase(), b.toLowerCase()].sort().join('-');
+}
+
+/**
+ * Score a cycle by the volume returned to its origin and how little
+ * any participant's position changed around it
+ */
+function scoreCycle(graph: TradeGraph, path: string[]): TradeCycle {
+  const edges = path.map((seller, i) => graph.get(seller)!.get(path[(i + 1) % path.length]!)!);
+  const volume = edges.reduce((sum, e) => sum + e.volume, 0n);
+  const sent = edges[0]!.volume;
+  const volumeReturned = edges[edges.length - 1]!.volume;
+
+  // Each participant receives over the edge before it and sends over its own
+  let netPositionChange = 0n;
+  edges.forEach((edge, i) => {
+    const change = edges[(i + edges.length - 1) % edges.length]!.volume - edge.volume;
+    netPositionChange += change < 0n ? -change : change;
+  });
+
+  const returnRatio = sent > volumeReturned
+    ? Number(volumeReturned) / Number(sent)
+    : Number(sent) / Number(volumeReturned);
+  const netRatio = volume > 0n ? Math.min(1, Number(netPositionChange) / Number(volume)) : 1;
+
+  return {
+    path: [...path],
+    trades: edges.reduce((sum, e) => sum + e.trades, 0),
+    volume,
+    volumeReturned,
+    netPositionChange,
+    score: returnRatio * (1 - netRatio)
+  };
 }
\ No newline at end of file
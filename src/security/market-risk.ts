@@ -0,0 +1,372 @@
+/**
+ * Market Risk Assessment
+ *
+ * Combines anti-manipulation alerts into a per-market verdict:
+ * - Alerts from live order and trade flow, kept for a window per market
+ * - Oracle consensus as a signal for every market
+ * - Configurable block/reduce/allow policy by severity and alert type
+ * - Response rules: halting a market, scaling size, private submission
+ */
+
+import { Clock, systemClock } from '../utils/clock';
+import { WhaleAlert, WashTradingAlert, SandwichAlert } from './anti-manipulation';
+import { SpoofingAlert } from './spoofing';
+import { PumpAndDumpAlert } from './pump-and-dump';
+
+export type AlertSeverity = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export type RiskAction = 'ALLOW' | 'REDUCE' | 'BLOCK';
+
+export type RiskSignalSource = 'WHALE' | 'WASH_TRADING' | 'SANDWICH' | 'SPOOFING' | 'PUMP_AND_DUMP' | 'ORACLE';
+
+export interface RiskSignal {
+  source: RiskSignalSource;
+  type: string; // Alert type, e.g. WHALE_ORDER or SELF_TRADING
+  severity: AlertSeverity;
+  marketId: string;
+  message: string;
+  timestamp: number;
+  alert?: WhaleAlert | WashTradingAlert | SandwichAlert | SpoofingAlert | PumpAndDumpAlert;
+}
+
+export type ResponseAction = 'HALT_MARKET' | 'SCALE_SIZE' | 'PRIVATE_SUBMISSION';
+
+/**
+ * Response to alerts matching a rule, e.g. halt a market for 2h on CIRCULAR_TRADING
+ */
+export interface ResponseRule {
+  name: string;
+  alertTypes?: string[]; // Any alert type when unset
+  minSeverity?: AlertSeverity; // Any severity when unset
+  marketId?: string; // Any market when unset
+  action: ResponseAction;
+  durationMs: number;
+  sizeMultiplier?: number; // SCALE_SIZE only
+}
+
+export interface ActiveResponse {
+  rule: string;
+  action: ResponseAction;
+  marketId: string;
+  sizeMultiplier?: number;
+  triggeredBy: string; // Alert type
+  since: number;
+  until: number;
+}
+
+export interface RuleEvaluation {
+  rule: string;
+  matched: boolean;
+  response?: ActiveResponse;
+}
+
+export interface RiskPolicy {
+  bySeverity: Record<AlertSeverity, RiskAction>;
+  byType: Record<string, RiskAction>; // Overrides the severity action for an alert type
+  reduceFactor: number; // Size multiplier applied on REDUCE
+  signalWindowMs: number; // How long an alert counts towards its market's verdict
+  minOracleConfidence: number; // Oracle consensus below this is a HIGH signal
+  rules: ResponseRule[];
+}
+
+/**
+ * Policy overrides; unset fields and severities keep their defaults
+ */
+export type RiskPolicyConfig = Partial<Omit<RiskPolicy, 'bySeverity'>> & {
+  bySeverity?: Partial<Record<AlertSeverity, RiskAction>>;
+};
+
+export interface MarketRiskVerdict {
+  marketId: string;
+  action: RiskAction;
+  sizeMultiplier: number; // 1 on ALLOW, the smallest applicable multiplier on REDUCE, 0 on BLOCK
+  privateSubmission: boolean;
+  signals: RiskSignal[];
+  responses: ActiveResponse[];
+  reasons: string[]; // One per signal or response that did not allow
+}
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  bySeverity: { LOW: 'ALLOW', MEDIUM: 'ALLOW', HIGH: 'REDUCE', CRITICAL: 'BLOCK' },
+  byType: { SELF_TRADING: 'BLOCK', SANDWICH_ATTACK: 'BLOCK' },
+  reduceFactor: 0.5,
+  signalWindowMs: 3600000, // 1 hour
+  minOracleConfidence: 0.5,
+  rules: []
+};
+
+const ACTION_RANK: Record<RiskAction, number> = { ALLOW: 0, REDUCE: 1, BLOCK: 2 };
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { LOW: 0, MEDIUM: 1, HIGH: 2, CRITICAL: 3 };
+
+/**
+ * Apply policy overrides to a base policy; given rules replace the base rules
+ */
+export function mergeRiskPolicy<T extends RiskPolicyConfig>(base: T, overrides: RiskPolicyConfig = {}): T {
+  return {
+    ...base,
+    ...overrides,
+    bySeverity: { ...base.bySeverity, ...overrides.bySeverity },
+    byType: { ...base.byType, ...overrides.byType },
+    rules: overrides.rules ?? base.rules
+  };
+}
+
+/**
+ * Normalize a detector alert into a signal for its market
+ */
+export function toRiskSignal(
+  alert: WhaleAlert | WashTradingAlert | SandwichAlert | SpoofingAlert | PumpAndDumpAlert
+): RiskSignal {
+  if ('attacker' in alert) {
+    return {
+      source: 'SANDWICH',
+      type: alert.type,
+      severity: 'HIGH', // Sandwich alerts carry no severity
+      marketId: alert.marketId,
+      message: `${alert.type} by ${alert.attacker} against ${alert.victim}`,
+      timestamp: alert.timestamp,
+      alert
+    };
+  }
+
+  if ('timeToResolutionMs' in alert) {
+    return {
+      source: 'PUMP_AND_DUMP',
+      type: alert.type,
+      severity: alert.severity,
+      marketId: alert.marketId,
+      message: alert.message,
+      timestamp: alert.timestamp,
+      alert
+    };
+  }
+
+  if ('orderIds' in alert) {
+    return {
+      source: 'SPOOFING',
+      type: alert.type,
+      severity: alert.severity,
+      marketId: alert.marketId,
+      message: alert.message,
+      timestamp: alert.timestamp,
+      alert
+    };
+  }
+
+  if ('trader' in alert) {
+    return {
+      source: 'WHALE',
+      type: alert.type,
+      severity: alert.severity,
+      marketId: alert.marketId,
+      message: alert.message,
+      timestamp: alert.timestamp,
+      alert
+    };
+  }
+
+  return {
+    source: 'WASH_TRADING',
+    type: alert.type,
+    severity: alert.severity,
+    marketId: alert.marketId,
+    message: `${alert.type} between ${alert.addresses.join(', ')}`,
+    timestamp: alert.timestamp,
+    alert
+  };
+}
+
+/**
+ * Market Risk Assessor
+ * Keeps recent signals per market and applies the risk policy to them
+ */
+export class MarketRiskAssessor {
+  private policy: RiskPolicy;
+  private signals: Map<string, RiskSignal[]>;
+  private responses: Map<string, ActiveResponse[]>;
+  private clock: Clock;
+
+  constructor(policy: RiskPolicyConfig = {}, clock: Clock = systemClock) {
+    this.policy = mergeRiskPolicy(DEFAULT_RISK_POLICY, policy);
+    if (this.policy.reduceFactor <= 0 || this.policy.reduceFactor >= 1) {
+      throw new Error(`Reduce factor must be between 0 and 1: ${this.policy.reduceFactor}`);
+    }
+    for (const rule of this.policy.rules) {
+      if (rule.durationMs <= 0) {
+        throw new Error(`Rule ${rule.name} needs a positive duration`);
+      }
+      if (rule.action === 'SCALE_SIZE' && !(rule.sizeMultiplier! > 0 && rule.sizeMultiplier! < 1)) {
+        throw new Error(`Rule ${rule.name} needs a size multiplier between 0 and 1`);
+      }
+    }
+    this.signals = new Map();
+    this.responses = new Map();
+    this.clock = clock;
+  }
+
+  /**
+   * Record a signal against its market and apply the response rules it matches
+   */
+  record(signal: RiskSignal): RuleEvaluation[] {
+    const marketSignals = this.signals.get(signal.marketId) || [];
+    marketSignals.push(signal);
+    this.signals.set(signal.marketId, marketSignals);
+
+    const evaluations = this.evaluateRules(signal);
+    for (const { response } of evaluations) {
+      if (!response) continue;
+
+      // A rule firing again extends its response rather than stacking it
+      const active = this.getResponses(signal.marketId).filter(r => r.rule !== response.rule || r.until > response.until);
+      if (active.every(r => r.rule !== response.rule)) {
+        active.push(response);
+      }
+      this.responses.set(signal.marketId, active);
+    }
+    return evaluations;
+  }
+
+  /**
+   * Match a signal against every response rule
+   */
+  evaluateRules(signal: RiskSignal): RuleEvaluation[] {
+    const now = this.clock.now();
+    return this.policy.rules.map(rule => {
+      const matched = (!rule.alertTypes || rule.alertTypes.includes(signal.type)) &&
+        (!rule.minSeverity || SEVERITY_RANK[signal.severity] >= SEVERITY_RANK[rule.minSeverity]) &&
+        (!rule.marketId || rule.marketId === signal.marketId);
+      if (!matched) {
+        return { rule: rule.name, matched };
+      }
+
+      const response: ActiveResponse = {
+        rule: rule.name,
+        action: rule.action,
+        marketId: signal.marketId,
+        triggeredBy: signal.type,
+        since: now,
+        until: now + rule.durationMs
+      };
+      if (rule.action === 'SCALE_SIZE') {
+        response.sizeMultiplier = rule.sizeMultiplier;
+      }
+      return { rule: rule.name, matched, response };
+    });
+  }
+
+  /**
+   * Action the policy takes for one signal
+   */
+  actionFor(signal: RiskSignal): RiskAction {
+    return this.policy.byType[signal.type] ?? this.policy.bySeverity[signal.severity];
+  }
+
+  /**
+   * Verdict for a market from its recent signals and active responses,
+   * plus signals given now, whose rules apply to this verdict only
+   */
+  assess(marketId: string, current: RiskSignal[] = []): MarketRiskVerdict {
+    const signals = [...this.getSignals(marketId), ...current];
+    const responses = [
+      ...this.getResponses(marketId),
+      ...current.flatMap(signal => this.evaluateRules(signal).flatMap(e => e.response ? [e.response] : []))
+    ];
+
+    const outcomes: Array<{ action: RiskAction; multiplier: number; reason: string }> = [];
+    for (const signal of signals) {
+      const signalAction = this.actionFor(signal);
+      if (signalAction !== 'ALLOW') {
+        const multiplier = signalAction === 'BLOCK' ? 0 : this.policy.reduceFactor;
+        outcomes.push({ action: signalAction, multiplier, reason: `${signal.type} (${signal.severity}): ${signalAction}` });
+      }
+    }
+    for (const response of responses) {
+      if (response.action === 'HALT_MARKET') {
+        outcomes.push({ action: 'BLOCK', multiplier: 0, reason: `${response.rule}: market halted until ${new Date(response.until).toISOString()}` });
+      } else if (response.action === 'SCALE_SIZE') {
+        outcomes.push({ action: 'REDUCE', multiplier: response.sizeMultiplier!, reason: `${response.rule}: size x${response.sizeMultiplier}` });
+      }
+    }
+
+    let action: RiskAction = 'ALLOW';
+    for (const outcome of outcomes) {
+      if (ACTION_RANK[outcome.action] > ACTION_RANK[action]) {
+        action = outcome.action;
+      }
+    }
+
+    return {
+      marketId,
+      action,
+      sizeMultiplier: Math.min(1, ...outcomes.map(o => o.multiplier)),
+      privateSubmission: responses.some(r => r.action === 'PRIVATE_SUBMISSION'),
+      signals,
+      responses,
+      reasons: outcomes.map(o => o.reason)
+    };
+  }
+
+  /**
+   * Signal for a market when the oracles disagree or have no consensus
+   */
+  oracleSignal(marketId: string, consensus: { price: bigint | null; confidence: number }): RiskSignal | null {
+    if (consensus.price === null) {
+      return {
+        source: 'ORACLE',
+        type: 'ORACLE_NO_CONSENSUS',
+        severity: 'CRITICAL',
+        marketId,
+        message: 'No active oracle source',
+        timestamp: this.clock.now()
+      };
+    }
+
+    if (consensus.confidence < this.policy.minOracleConfidence) {
+      return {
+        source: 'ORACLE',
+        type: 'ORACLE_LOW_CONSENSUS',
+        severity: 'HIGH',
+        marketId,
+        message: `Oracle consensus confidence ${consensus.confidence.toFixed(2)}`,
+        timestamp: this.clock.now()
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Signals still inside the window for a market
+   */
+  getSignals(marketId: string): RiskSignal[] {
+    const marketSignals = this.signals.get(marketId);
+    if (!marketSignals) {
+      return [];
+    }
+
+    const cutoff = this.clock.now() - this.policy.signalWindowMs;
+    const recent = marketSignals.filter(s => s.timestamp > cutoff);
+    this.signals.set(marketId, recent);
+    return [...recent];
+  }
+
+  /**
+   * Responses still in force for a market
+   */
+  getResponses(marketId: string): ActiveResponse[] {
+    const marketResponses = this.responses.get(marketId);
+    if (!marketResponses) {
+      return [];
+    }
+
+    const now = this.clock.now();
+    const active = marketResponses.filter(r => r.until > now);
+    this.responses.set(marketId, active);
+    return [...active];
+  }
+
+  getPolicy(): RiskPolicy {
+    return mergeRiskPolicy(this.policy, { rules: [...this.policy.rules] });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,278 @@
+/**
+ * Resolution Window Manipulation Detection
+ *
+ * Watches the final window before a market resolves, or a news deadline:
+ * - Price velocity of the YES price over a short lookback
+ * - Volume acceleration against the market's baseline
+ * - Concentration of the traders on the side of the move
+ * - Coordinated pushes that are later reversed
+ */
+
+import { Clock, systemClock } from '../utils/clock';
+import { PRICE_SCALE } from '../markets/outcome-shares';
+import { Trade } from './anti-manipulation';
+
+export interface PumpAndDumpAlert {
+  type: 'RESOLUTION_PUSH' | 'PUMP_AND_DUMP';
+  severity: 'HIGH' | 'CRITICAL';
+  marketId: string;
+  direction: 'UP' | 'DOWN';
+  priceMove: number; // Probability points the push moved the price
+  velocity: number; // Probability points per hour
+  volumeAcceleration: number; // Volume rate during the push over the baseline rate before it
+  concentration: number; // Share of push-side volume from the top traders
+  traders: string[]; // Top traders on the push side
+  reversal?: number; // PUMP_AND_DUMP: share of the push given back
+  timeToResolutionMs: number;
+  message: string;
+  timestamp: number;
+}
+
+export interface PumpAndDumpConfig {
+  windowMs?: number; // Final window before resolution that is watched
+  velocityWindowMs?: number; // Lookback for price moves and recent volume
+  baselineMs?: number; // Volume before the lookback that recent volume is compared against
+  minBaselineCoverage?: number; // Share of baselineMs the market must have traded before the lookback
+  minPriceMove?: number; // Probability points that make a push
+  minVolumeAcceleration?: number;
+  minConcentration?: number;
+  topTraders?: number; // Traders counted towards concentration
+  minReversal?: number; // Share of a push given back that makes a reversal
+}
+
+export interface PricePoint {
+  price: number; // YES probability
+  timestamp: number;
+}
+
+/**
+ * A push not yet reversed, followed to its furthest price
+ */
+export interface ActivePush extends PumpAndDumpAlert {
+  peakPrice: number;
+}
+
+export interface PumpAndDumpState {
+  resolutionTimes: Map<string, number>;
+  priceHistory: Map<string, PricePoint[]>;
+  tradeHistory: Map<string, Trade[]>;
+  pushes: Map<string, ActivePush>;
+}
+
+/**
+ * Pump and Dump Detector
+ * Flags coordinated pushes in a market's final window and their reversals
+ */
+export class PumpAndDumpDetector {
+  private windowMs: number;
+  private velocityWindowMs: number;
+  private baselineMs: number;
+  private minBaselineCoverage: number;
+  private minPriceMove: number;
+  private minVolumeAcceleration: number;
+  private minConcentration: number;
+  private topTraders: number;
+  private minReversal: number;
+  private resolutionTimes: Map<string, number>;
+  private priceHistory: Map<string, PricePoint[]>;
+  private tradeHistory: Map<string, Trade[]>;
+  private pushes: Map<string, ActivePush>; // Unreversed push per market
+  private clock: Clock;
+
+  constructor(config: PumpAndDumpConfig = {}, clock: Clock = systemClock) {
+    this.windowMs = config.windowMs ?? 7200000; // 2 hours
+    this.velocityWindowMs = config.velocityWindowMs ?? 900000; // 15 minutes
+    this.baselineMs = config.baselineMs ?? 86400000;
+    this.minBaselineCoverage = config.minBaselineCoverage ?? 0.25;
+    this.minPriceMove = config.minPriceMove ?? 0.1;
+    this.minVolumeAcceleration = config.minVolumeAcceleration ?? 3;
+    this.minConcentration = config.minConcentration ?? 0.6;
+    this.topTraders = config.topTraders ?? 3;
+    this.minReversal = config.minReversal ?? 0.5;
+    if (this.minReversal <= 0 || this.minReversal > 1) {
+      throw new Error(`Reversal share must be between 0 and 1: ${this.minReversal}`);
+    }
+    if (this.minBaselineCoverage <= 0 || this.minBaselineCoverage > 1) {
+      throw new Error(`Baseline coverage must be between 0 and 1: ${this.minBaselineCoverage}`);
+    }
+    this.resolutionTimes = new Map();
+    this.priceHistory = new Map();
+    this.tradeHistory = new Map();
+    this.pushes = new Map();
+    this.clock = clock;
+  }
+
+  /**
+   * Set when a market resolves, or the deadline of news it depends on
+   */
+  setResolutionTime(marketId: string, resolutionTime: number): void {
+    this.resolutionTimes.set(marketId, resolutionTime);
+  }
+
+  /**
+   * Record trades for volume and concentration
+   */
+  recordTrades(trades: Trade[]): void {
+    for (const trade of trades) {
+      const marketTrades = this.tradeHistory.get(trade.marketId) || [];
+      marketTrades.push(trade);
+      this.tradeHistory.set(trade.marketId, marketTrades);
+    }
+    for (const marketId of new Set(trades.map(t => t.marketId))) {
+      this.pruneTrades(marketId, this.clock.now());
+    }
+  }
+
+  /**
+   * Record a market's price and check it for a push, or for the reversal of one
+   */
+  updateMarket(marketData: { marketId: string; currentPrice: bigint; timestamp: number; resolutionTime?: number }): PumpAndDumpAlert | null {
+    const { marketId } = marketData;
+    const now = this.clock.now();
+    if (marketData.resolutionTime !== undefined) {
+      this.resolutionTimes.set(marketId, marketData.resolutionTime);
+    }
+
+    const price = Number(marketData.currentPrice) / Number(PRICE_SCALE);
+    const points = (this.priceHistory.get(marketId) || []).filter(p => p.timestamp > now - this.velocityWindowMs);
+    points.push({ price, timestamp: marketData.timestamp });
+    this.priceHistory.set(marketId, points);
+    this.pruneTrades(marketId, now);
+
+    const resolutionTime = this.resolutionTimes.get(marketId);
+    const timeToResolutionMs = resolutionTime !== undefined ? resolutionTime - now : Infinity;
+    if (timeToResolutionMs > this.windowMs || timeToResolutionMs < 0) {
+      this.pushes.delete(marketId);
+      return null;
+    }
+
+    const push = this.pushes.get(marketId);
+    if (push) {
+      return this.checkReversal(push, price, timeToResolutionMs);
+    }
+    return this.detectPush(marketId, points, timeToResolutionMs);
+  }
+
+  /**
+   * A large move over the lookback, on accelerating volume, driven by a few traders
+   */
+  private detectPush(marketId: string, points: PricePoint[], timeToResolutionMs: number): PumpAndDumpAlert | null {
+    const current = points[points.length - 1]!;
+    const low = points.reduce((a, b) => (b.price < a.price ? b : a));
+    const high = points.reduce((a, b) => (b.price > a.price ? b : a));
+    const direction = current.price - low.price >= high.price - current.price ? 'UP' : 'DOWN';
+    const start = direction === 'UP' ? low : high;
+    const priceMove = Math.abs(current.price - start.price);
+    if (priceMove < this.minPriceMove) {
+      return null;
+    }
+
+    const now = this.clock.now();
+    const pushStart = now - this.velocityWindowMs;
+    const trades = this.tradeHistory.get(marketId) || [];
+    const recent = trades.filter(t => t.timestamp > pushStart);
+    const recentVolume = recent.reduce((sum, t) => sum + t.amount, 0n);
+
+    // A market without enough history before the lookback has no baseline to accelerate from
+    const baseline = trades.filter(t => t.timestamp <= pushStart);
+    const baselineVolume = baseline.reduce((sum, t) => sum + t.amount, 0n);
+    const coveredMs = baseline.length > 0 ? pushStart - baseline[0]!.timestamp : 0;
+    if (baselineVolume === 0n || coveredMs < this.minBaselineCoverage * this.baselineMs) {
+      return null;
+    }
+
+    const volumeAcceleration = (Number(recentVolume) / this.velocityWindowMs) / (Number(baselineVolume) / coveredMs);
+    if (volumeAcceleration < this.minVolumeAcceleration) {
+      return null;
+    }
+
+    // Buyers drive a push up and sellers a push down
+    const byTrader = new Map<string, bigint>();
+    for (const trade of recent) {
+      const trader = (direction === 'UP' ? trade.buyer : trade.seller).toLowerCase();
+      byTrader.set(trader, (byTrader.get(trader) || 0n) + trade.amount);
+    }
+    const top = Array.from(byTrader).sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0)).slice(0, this.topTraders);
+    const concentration = recentVolume > 0n ? Number(top.reduce((sum, [, v]) => sum + v, 0n)) / Number(recentVolume) : 0;
+    if (concentration < this.minConcentration) {
+      return null;
+    }
+
+    const elapsedMs = Math.max(current.timestamp - start.timestamp, 1);
+    const alert: PumpAndDumpAlert = {
+      type: 'RESOLUTION_PUSH',
+      severity: 'HIGH',
+      marketId,
+      direction,
+      priceMove,
+      velocity: priceMove / (elapsedMs / 3600000),
+      volumeAcceleration,
+      concentration,
+      traders: top.map(([trader]) => trader),
+      timeToResolutionMs,
+      message: `Price pushed ${direction} ${(priceMove * 100).toFixed(1)} points ${Math.round(timeToResolutionMs / 60000)}m before resolution`,
+      timestamp: now
+    };
+    this.pushes.set(marketId, { ...alert, peakPrice: current.price });
+    return alert;
+  }
+
+  /**
+   * Follow a push to its peak and flag it once enough of it is given back
+   */
+  private checkReversal(
+    push: ActivePush,
+    price: number,
+    timeToResolutionMs: number
+  ): PumpAndDumpAlert | null {
+    const sign = push.direction === 'UP' ? 1 : -1;
+    if ((price - push.peakPrice) * sign > 0) {
+      push.priceMove += Math.abs(price - push.peakPrice);
+      push.peakPrice = price;
+      return null;
+    }
+
+    const reversal = Math.abs(push.peakPrice - price) / push.priceMove;
+    if (reversal < this.minReversal) {
+      return null;
+    }
+
+    this.pushes.delete(push.marketId);
+    const { peakPrice, ...pushed } = push;
+    return {
+      ...pushed,
+      type: 'PUMP_AND_DUMP',
+      severity: 'CRITICAL',
+      reversal,
+      timeToResolutionMs,
+      message: `Push ${push.direction} of ${(push.priceMove * 100).toFixed(1)} points reversed by ${(reversal * 100).toFixed(0)}% from ${peakPrice.toFixed(3)}`,
+      timestamp: this.clock.now()
+    };
+  }
+
+  /**
+   * Drop trades older than the lookback and baseline together; they arrive in time order
+   */
+  private pruneTrades(marketId: string, now: number): void {
+    const trades = this.tradeHistory.get(marketId) || [];
+    const cutoff = now - this.velocityWindowMs - this.baselineMs;
+    const expired = trades.findIndex(t => t.timestamp > cutoff);
+    trades.splice(0, expired < 0 ? trades.length : expired);
+  }
+
+  getState(): PumpAndDumpState {
+    return {
+      resolutionTimes: new Map(this.resolutionTimes),
+      priceHistory: new Map(Array.from(this.priceHistory, ([marketId, points]) => [marketId, [...points]])),
+      tradeHistory: new Map(Array.from(this.tradeHistory, ([marketId, trades]) => [marketId, [...trades]])),
+      pushes: new Map(Array.from(this.pushes, ([marketId, push]) => [marketId, { ...push, traders: [...push.traders] }]))
+    };
+  }
+
+  restoreState(state: PumpAndDumpState): void {
+    this.resolutionTimes = new Map(state.resolutionTimes);
+    this.priceHistory = new Map(Array.from(state.priceHistory, ([marketId, points]) => [marketId, [...points]]));
+    this.tradeHistory = new Map(Array.from(state.tradeHistory, ([marketId, trades]) => [marketId, [...trades]]));
+    this.pushes = new Map(Array.from(state.pushes, ([marketId, push]) => [marketId, { ...push, traders: [...push.traders] }]));
+  }
+}
\ No newline at end of file
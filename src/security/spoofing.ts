@@ -0,0 +1,348 @@
+/**
+ * Spoofing Detection
+ *
+ * Watches order book events for orders meant to move the book rather than trade:
+ * - Large orders cancelled shortly after placement
+ * - Layers of orders stacked on one side by one trader
+ * - Place/cancel cycles followed by fills on the opposite side
+ * Open orders are indexed by market and trader, and expire after a TTL.
+ */
+
+import { Clock, systemClock } from '../utils/clock';
+
+export type OrderBookEventType = 'PLACE' | 'MODIFY' | 'CANCEL' | 'FILL';
+
+/**
+ * One step in an order's lifecycle
+ */
+export interface OrderBookEvent {
+  type: OrderBookEventType;
+  orderId: string;
+  marketId: string;
+  trader: string;
+  side: 'BUY' | 'SELL';
+  price: bigint;
+  amount: bigint; // PLACE and MODIFY: open size; CANCEL: size cancelled; FILL: size filled
+  timestamp: number;
+}
+
+export interface SpoofingAlert {
+  type: 'SPOOFING' | 'LAYERING' | 'SPOOF_AND_FILL';
+  severity: 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  trader: string;
+  marketId: string;
+  side: 'BUY' | 'SELL'; // Side of the orders that moved the book
+  amount: bigint; // Size those orders showed
+  orderIds: string[];
+  message: string;
+  timestamp: number;
+}
+
+export interface SpoofingConfig {
+  minOrderSize: bigint; // Size, alone or across layers, that can move the book
+  maxCancelDelayMs?: number; // Cancels sooner than this after placement are suspect
+  minLayers?: number; // Price levels on one side that make a layered book
+  fillLookbackMs?: number; // How long suspect cancels count against a later fill
+  orderTtlMs?: number; // Open orders older than this are dropped, e.g. when their cancel was missed
+}
+
+export interface OpenOrder {
+  orderId: string;
+  marketId: string;
+  trader: string;
+  side: 'BUY' | 'SELL';
+  price: bigint;
+  amount: bigint; // Still open
+  peakAmount: bigint; // Largest size shown
+  filled: bigint;
+  placedAt: number;
+}
+
+export interface CancelledOrder extends OpenOrder {
+  cancelledAt: number;
+}
+
+export interface SpoofingDetectorState {
+  openOrders: Map<string, OpenOrder>;
+  recentCancels: Map<string, CancelledOrder[]>;
+}
+
+/**
+ * Spoofing Detector
+ * Tracks each order from placement to cancel or fill
+ */
+export class SpoofingDetector {
+  private minOrderSize: bigint;
+  private maxCancelDelayMs: number;
+  private minLayers: number;
+  private fillLookbackMs: number;
+  private orderTtlMs: number;
+  private openOrders: Map<string, OpenOrder>; // In placement order
+  private ordersByTrader: Map<string, Map<string, Set<string>>>; // Order ids by market, then trader
+  private recentCancels: Map<string, CancelledOrder[]>; // Quick cancels per market and trader
+  private clock: Clock;
+
+  constructor(config: SpoofingConfig, clock: Clock = systemClock) {
+    this.minOrderSize = config.minOrderSize;
+    this.maxCancelDelayMs = config.maxCancelDelayMs ?? 5000;
+    this.minLayers = config.minLayers ?? 3;
+    this.fillLookbackMs = config.fillLookbackMs ?? 60000;
+    this.orderTtlMs = config.orderTtlMs ?? 86400000; // 24 hours
+    if (this.minLayers < 2) {
+      throw new Error(`Layering needs at least 2 layers: ${this.minLayers}`);
+    }
+    if (this.orderTtlMs <= 0) {
+      throw new Error(`Order TTL must be positive: ${this.orderTtlMs}`);
+    }
+    this.openOrders = new Map();
+    this.ordersByTrader = new Map();
+    this.recentCancels = new Map();
+    this.clock = clock;
+  }
+
+  /**
+   * Apply an event to the book and check it for spoofing
+   */
+  analyzeEvent(event: OrderBookEvent): SpoofingAlert | null {
+    this.pruneCancels(event.timestamp);
+    this.pruneOrders(event.timestamp);
+
+    switch (event.type) {
+      case 'PLACE':
+        this.addOrder({
+          orderId: event.orderId,
+          marketId: event.marketId,
+          trader: event.trader.toLowerCase(),
+          side: event.side,
+          price: event.price,
+          amount: event.amount,
+          peakAmount: event.amount,
+          filled: 0n,
+          placedAt: event.timestamp
+        });
+        return this.detectLayering(event);
+      case 'MODIFY': {
+        const order = this.openOrders.get(event.orderId);
+        if (!order) return null;
+
+        order.price = event.price;
+        order.amount = event.amount;
+        if (event.amount > order.peakAmount) order.peakAmount = event.amount;
+        return this.detectLayering(event);
+      }
+      case 'CANCEL':
+        return this.handleCancel(event);
+      case 'FILL':
+        return this.handleFill(event);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Apply a batch of events in order, returning every alert raised
+   */
+  analyzeEvents(events: OrderBookEvent[]): SpoofingAlert[] {
+    const alerts: SpoofingAlert[] = [];
+    for (const event of events) {
+      const alert = this.analyzeEvent(event);
+      if (alert) alerts.push(alert);
+    }
+    return alerts;
+  }
+
+  /**
+   * A trader's open orders on one side at several price levels, together large
+   * enough to move the book, with little resting on the other side
+   */
+  private detectLayering(event: OrderBookEvent): SpoofingAlert | null {
+    const orders = this.getTraderOrders(event.marketId, event.trader.toLowerCase());
+    const layers = orders.filter(o => o.side === event.side);
+    const levels = new Set(layers.map(o => o.price));
+    const layered = layers.reduce((sum, o) => sum + o.amount, 0n);
+    const opposite = orders.filter(o => o.side !== event.side).reduce((sum, o) => sum + o.amount, 0n);
+
+    if (levels.size < this.minLayers || layered < this.minOrderSize || opposite * BigInt(this.minLayers) >= layered) {
+      return null;
+    }
+
+    return {
+      type: 'LAYERING',
+      severity: 'HIGH',
+      trader: event.trader,
+      marketId: event.marketId,
+      side: event.side,
+      amount: layered,
+      orderIds: layers.map(o => o.orderId),
+      message: `${levels.size} ${event.side} layers totalling ${layered.toString()} units`,
+      timestamp: this.clock.now()
+    };
+  }
+
+  /**
+   * Quick cancels are kept for the fill check; a large one is spoofing on its own.
+   * Partial cancels only shrink the order.
+   */
+  private handleCancel(event: OrderBookEvent): SpoofingAlert | null {
+    const order = this.openOrders.get(event.orderId);
+    if (!order) return null;
+
+    order.amount = order.amount > event.amount ? order.amount - event.amount : 0n;
+    if (order.amount > 0n) {
+      return null;
+    }
+    this.removeOrder(order);
+
+    const quick = event.timestamp - order.placedAt <= this.maxCancelDelayMs;
+    const mostlyUnfilled = order.filled * 10n < order.peakAmount; // Under 10% executed
+    if (!quick || !mostlyUnfilled) {
+      return null;
+    }
+
+    const key = traderKey(order.marketId, order.trader);
+    const cancels = this.recentCancels.get(key) || [];
+    cancels.push({ ...order, cancelledAt: event.timestamp });
+    this.recentCancels.set(key, cancels);
+
+    if (order.peakAmount < this.minOrderSize) {
+      return null;
+    }
+
+    return {
+      type: 'SPOOFING',
+      severity: 'MEDIUM',
+      trader: event.trader,
+      marketId: order.marketId,
+      side: order.side,
+      amount: order.peakAmount,
+      orderIds: [order.orderId],
+      message: `Order of ${order.peakAmount.toString()} units cancelled after ${event.timestamp - order.placedAt}ms`,
+      timestamp: this.clock.now()
+    };
+  }
+
+  /**
+   * A fill preceded by the same trader's quick cancels on the other side,
+   * large enough together to have moved the book towards the fill
+   */
+  private handleFill(event: OrderBookEvent): SpoofingAlert | null {
+    const order = this.openOrders.get(event.orderId);
+    if (order) {
+      order.filled += event.amount;
+      order.amount = order.amount > event.amount ? order.amount - event.amount : 0n;
+      if (order.amount === 0n) {
+        this.removeOrder(order);
+      }
+    }
+
+    const key = traderKey(event.marketId, event.trader.toLowerCase());
+    const cancels = this.recentCancels.get(key) || [];
+    const baits = cancels.filter(c => c.side !== event.side);
+    const shown = baits.reduce((sum, c) => sum + c.peakAmount, 0n);
+    if (shown < this.minOrderSize) {
+      return null;
+    }
+
+    // Each cancel explains one fill, so partial fills do not raise it again
+    const remaining = cancels.filter(c => c.side === event.side);
+    if (remaining.length > 0) {
+      this.recentCancels.set(key, remaining);
+    } else {
+      this.recentCancels.delete(key);
+    }
+
+    return {
+      type: 'SPOOF_AND_FILL',
+      severity: 'CRITICAL',
+      trader: event.trader,
+      marketId: event.marketId,
+      side: baits[0]!.side,
+      amount: shown,
+      orderIds: [...baits.map(c => c.orderId), event.orderId],
+      message: `${event.side} fill of ${event.amount.toString()} units after ${baits.length} cancelled ${baits[0]!.side} orders of ${shown.toString()} units`,
+      timestamp: this.clock.now()
+    };
+  }
+
+  /**
+   * Drop cancels too old to explain a fill
+   */
+  private pruneCancels(now: number): void {
+    for (const [key, cancels] of this.recentCancels) {
+      const recent = cancels.filter(c => now - c.cancelledAt <= this.fillLookbackMs);
+      if (recent.length > 0) {
+        this.recentCancels.set(key, recent);
+      } else {
+        this.recentCancels.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop orders open longer than the TTL; they were placed in time order,
+   * so the scan stops at the first order still fresh
+   */
+  private pruneOrders(now: number): void {
+    for (const order of this.openOrders.values()) {
+      if (now - order.placedAt <= this.orderTtlMs) {
+        break;
+      }
+      this.removeOrder(order);
+    }
+  }
+
+  private addOrder(order: OpenOrder): void {
+    this.removeOrder(this.openOrders.get(order.orderId));
+    this.openOrders.set(order.orderId, order);
+
+    const traders = this.ordersByTrader.get(order.marketId) || new Map<string, Set<string>>();
+    const ids = traders.get(order.trader) || new Set<string>();
+    ids.add(order.orderId);
+    traders.set(order.trader, ids);
+    this.ordersByTrader.set(order.marketId, traders);
+  }
+
+  private removeOrder(order: OpenOrder | undefined): void {
+    if (!order) return;
+    this.openOrders.delete(order.orderId);
+
+    const traders = this.ordersByTrader.get(order.marketId);
+    const ids = traders?.get(order.trader);
+    ids?.delete(order.orderId);
+    if (ids?.size === 0) traders!.delete(order.trader);
+    if (traders?.size === 0) this.ordersByTrader.delete(order.marketId);
+  }
+
+  private getTraderOrders(marketId: string, trader: string): OpenOrder[] {
+    const ids = this.ordersByTrader.get(marketId)?.get(trader) || new Set<string>();
+    return Array.from(ids, id => this.openOrders.get(id)!);
+  }
+
+  /**
+   * Orders still open in a market
+   */
+  getOpenOrders(marketId: string): OpenOrder[] {
+    const traders = this.ordersByTrader.get(marketId) || new Map<string, Set<string>>();
+    return Array.from(traders.keys()).flatMap(trader => this.getTraderOrders(marketId, trader));
+  }
+
+  getState(): SpoofingDetectorState {
+    return {
+      openOrders: new Map(Array.from(this.openOrders, ([id, order]) => [id, { ...order }])),
+      recentCancels: new Map(Array.from(this.recentCancels, ([key, cancels]) => [key, cancels.map(c => ({ ...c }))]))
+    };
+  }
+
+  restoreState(state: SpoofingDetectorState): void {
+    this.openOrders = new Map();
+    this.ordersByTrader = new Map();
+    for (const order of state.openOrders.values()) {
+      this.addOrder({ ...order });
+    }
+    this.recentCancels = new Map(Array.from(state.recentCancels, ([key, cancels]) => [key, cancels.map(c => ({ ...c }))]));
+  }
+}
+
+function traderKey(marketId: string, trader: string): string {
+  return `${marketId}:${trader}`;
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Clock Abstraction
+ *
+ * Time source shared by agents, risk, detection and audit logic.
+ * Inject a simulated clock for deterministic replay and testing.
+ */
+
+export interface Clock {
+  now(): number;
+}
+
+/**
+ * Wall-clock time
+ */
+export const systemClock: Clock = {
+  now: () => Date.now()
+};
+
+/**
+ * Fixed Clock
+ * Always returns the same instant
+ */
+export class FixedClock implements Clock {
+  constructor(private readonly time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+}
+
+/**
+ * Simulated Clock
+ * Manually driven time that only moves forward
+ */
+export class SimulatedClock implements Clock {
+  private currentTime: number;
+
+  constructor(startTime: number = 0) {
+    this.currentTime = startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Move to an absolute time
+   */
+  set(time: number): void {
+    if (time < this.currentTime) {
+      throw new Error('Simulated clock cannot move backwards');
+    }
+    this.currentTime = time;
+  }
+
+  /**
+   * Move forward by a duration
+   */
+  advance(ms: number): void {
+    this.set(this.currentTime + ms);
+  }
+}
\ No newline at end of file